@@ -26,6 +26,11 @@ import studentRoutes from './routes/student.routes';
 import competitionTeamRoutes from './routes/competitionTeam.routes';
 import analyticsRoutes from './routes/analytics.routes';
 import quizRoutes from './routes/quiz.routes';
+import liveQuizRoutes from './routes/liveQuiz.routes';
+import questionBankRoutes from './routes/questionBank.routes';
+import quizSeasonRoutes from './routes/quizSeason.routes';
+import certificateRoutes from './routes/certificate.routes';
+import speakerRoutes from './routes/speaker.routes';
 
 // Import middleware
 import { errorHandler, notFound } from './middleware/error.middleware';
@@ -106,8 +111,13 @@ const limiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   skip: (req) => {
-    // Skip rate limiting for health check
-    return req.path === '/api/v1/health';
+    // Skip rate limiting for health check, and for live quiz answers and
+    // streams, where a room of students often shares one IP and answers are
+    // one per question
+    return (
+      req.path === '/api/v1/health' ||
+      /^\/api\/v1\/live-quizzes\/[^/]+\/(answer|stream)$/.test(req.originalUrl.split('?')[0])
+    );
   },
 });
 
@@ -128,6 +138,25 @@ const authLimiter = rateLimit({
 app.use('/api/v1/auth/login', authLimiter);
 app.use('/api/v1/auth/register', authLimiter);
 app.use('/api/v1/auth/forgot-password', authLimiter);
+app.use('/api/v1/students/forgot-password', authLimiter);
+app.use('/api/v1/students/reset-password', authLimiter);
+app.use('/api/v1/students/resend-verification', authLimiter);
+app.use('/api/v1/students/activate', authLimiter);
+
+// Joining a live quiz is by a 6-digit PIN, so guesses are limited per IP.
+// The limit leaves room for a whole class joining from one network.
+const liveQuizJoinLimiter = rateLimit({
+  windowMs: 5 * 60 * 1000, // 5 minutes
+  max: 60,
+  message: {
+    success: false,
+    message: 'Too many attempts to join a live quiz, please try again after 5 minutes.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+app.use('/api/v1/live-quizzes/join', liveQuizJoinLimiter);
 
 // ============================================
 // Body Parsing Middleware
@@ -208,6 +237,11 @@ app.use('/api/v1/students', studentRoutes);
 app.use('/api/v1/competition-teams', competitionTeamRoutes);
 app.use('/api/v1/analytics', analyticsRoutes);
 app.use('/api/v1/quizzes', quizRoutes);
+app.use('/api/v1/live-quizzes', liveQuizRoutes);
+app.use('/api/v1/question-banks', questionBankRoutes);
+app.use('/api/v1/quiz-seasons', quizSeasonRoutes);
+app.use('/api/v1/certificates', certificateRoutes);
+app.use('/api/v1/speakers', speakerRoutes);
 
 // ============================================
 // Error Handling
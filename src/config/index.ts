@@ -33,8 +33,21 @@ interface Config {
     maxFileSize: number;
     path: string;
   };
+  tickets: {
+    secret: string;
+  };
+  scheduler: {
+    enabled: boolean;
+    intervalMs: number;
+  };
+  eventNotifications: {
+    reminderOffsetsMinutes: number[];
+    followUpDelayMinutes: number;
+    lookbackDays: number;
+  };
   frontendUrl: string;
   adminEmail: string;
+  timezone: string;
 }
 
 const config: Config = {
@@ -63,8 +76,27 @@ const config: Config = {
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10),
     path: process.env.UPLOAD_PATH || './uploads',
   },
+  tickets: {
+    secret: process.env.TICKET_SECRET || process.env.JWT_SECRET || 'default-ticket-secret',
+  },
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.SCHEDULER_INTERVAL_MS || '60000', 10),
+  },
+  eventNotifications: {
+    // Minutes before an event starts, e.g. "1440,60" for 24 hours and 1 hour
+    reminderOffsetsMinutes: (process.env.EVENT_REMINDER_OFFSETS || '1440,60')
+      .split(',')
+      .map((offset) => parseInt(offset, 10))
+      .filter((offset) => offset > 0),
+    followUpDelayMinutes: parseInt(process.env.EVENT_FOLLOW_UP_DELAY || '60', 10),
+    // Events that ended or were cancelled longer ago than this are left alone
+    lookbackDays: parseInt(process.env.EVENT_NOTIFICATION_LOOKBACK_DAYS || '3', 10),
+  },
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
   adminEmail: process.env.ADMIN_EMAIL || 'admin@comes.lk',
+  // Local time zone of events, used to group agendas by day
+  timezone: process.env.TIMEZONE || 'Asia/Colombo',
 };
 
 // Validate required environment variables in production
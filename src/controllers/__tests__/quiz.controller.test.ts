@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Quiz } from '../../models/quiz.model';
+import { getAllQuizzes, getQuizById } from '../quiz.controller';
+
+const quiz = new Quiz({
+  title: 'Circuits',
+  isTimed: false,
+  isVisible: true,
+  accessCode: 'letmein',
+  questions: [
+    {
+      questionText: 'Unit of resistance?',
+      answers: [
+        { text: 'Ohm', isCorrect: true },
+        { text: 'Volt', isCorrect: false },
+      ],
+      timeLimitSeconds: 30,
+      marks: 2,
+      explanation: 'Named after Georg Ohm',
+    },
+  ],
+});
+
+// Run a handler as an anonymous request and resolve with the JSON sent
+const callAnonymously = (handler: RequestHandler, req: Partial<Request>): Promise<{ status: number; body: unknown }> =>
+  new Promise((resolve, reject) => {
+    let status = 200;
+    const res = {
+      status(code: number) {
+        status = code;
+        return this;
+      },
+      set() {
+        return this;
+      },
+      json(body: unknown) {
+        resolve({ status, body: JSON.parse(JSON.stringify(body)) });
+        return this;
+      },
+    } as unknown as Response;
+
+    handler({ params: {}, query: {}, ...req } as Request, res, reject as NextFunction);
+  });
+
+const serialized = (body: unknown): string => JSON.stringify(body);
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('quiz routes for anonymous callers', () => {
+  it('GET /quizzes lists quizzes without correct answers or explanations', async () => {
+    const query = { skip: () => query, limit: () => query, sort: () => Promise.resolve([quiz]) };
+    jest.spyOn(Quiz, 'find').mockReturnValue(query as never);
+    jest.spyOn(Quiz, 'countDocuments').mockResolvedValue(1 as never);
+
+    const { status, body } = await callAnonymously(getAllQuizzes, {});
+
+    expect(status).toBe(200);
+    expect(Quiz.find).toHaveBeenCalledWith({ isVisible: true });
+    expect(serialized(body)).toContain('Unit of resistance?');
+    expect(serialized(body)).not.toContain('isCorrect');
+    expect(serialized(body)).not.toContain('explanation');
+    expect(serialized(body)).not.toContain('letmein');
+  });
+
+  it('GET /quizzes/:id shows the quiz without correct answers or explanations', async () => {
+    jest.spyOn(Quiz, 'findById').mockResolvedValue(quiz as never);
+
+    const { status, body } = await callAnonymously(getQuizById, { params: { id: quiz._id.toString() } });
+
+    expect(status).toBe(200);
+    expect(serialized(body)).toContain('Unit of resistance?');
+    expect(serialized(body)).not.toContain('isCorrect');
+    expect(serialized(body)).not.toContain('explanation');
+    expect(serialized(body)).not.toContain('letmein');
+  });
+
+  it('GET /quizzes/:id hides quizzes that are not visible', async () => {
+    jest.spyOn(Quiz, 'findById').mockResolvedValue(new Quiz({ ...quiz.toObject(), isVisible: false }) as never);
+
+    await expect(callAnonymously(getQuizById, { params: { id: quiz._id.toString() } })).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
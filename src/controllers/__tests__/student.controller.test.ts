@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Student } from '../../models/student.model';
+import * as email from '../../utils/email';
+import { importStudents, activateAccount, login } from '../student.controller';
+
+// Run a handler and resolve with the status and JSON sent
+const call = (handler: RequestHandler, req: Partial<Request>): Promise<{ status: number; body: any }> =>
+  new Promise((resolve, reject) => {
+    let status = 200;
+    const res = {
+      status(code: number) {
+        status = code;
+        return this;
+      },
+      cookie() {
+        return this;
+      },
+      json(body: unknown) {
+        resolve({ status, body: JSON.parse(JSON.stringify(body)) });
+        return this;
+      },
+    } as unknown as Response;
+
+    handler({ params: {}, query: {}, body: {}, headers: {}, ...req } as Request, res, reject as NextFunction);
+  });
+
+const csv = (text: string) => ({ buffer: Buffer.from(text) }) as Express.Multer.File;
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('POST /students/import', () => {
+  const file = csv(
+    'registrationNo,name,email\n' +
+      'EG/2024/0001,Nimal Perera,nimal@example.com\n' +
+      'EG/2024/0002,Kamal Silva,nimal@example.com\n'
+  );
+
+  beforeEach(() => {
+    jest.spyOn(Student, 'find').mockReturnValue({ select: () => Promise.resolve([]) } as never);
+  });
+
+  it('reports every row without writing or emailing anything on a dry run', async () => {
+    const create = jest.spyOn(Student, 'create');
+    const save = jest.spyOn(Student.prototype, 'save');
+    const send = jest.spyOn(email, 'sendEmail');
+
+    const { status, body } = await call(importStudents, { file, body: { dryRun: true } });
+
+    expect(status).toBe(200);
+    expect(body.data.report).toMatchObject({ total: 2, valid: 1, invalid: 1 });
+    expect(body.data.report.rows[1].errors).toEqual({ email: 'Same as row 2' });
+    expect(create).not.toHaveBeenCalled();
+    expect(save).not.toHaveBeenCalled();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('creates nothing when any row is invalid', async () => {
+    const create = jest.spyOn(Student, 'create');
+
+    await expect(call(importStudents, { file, body: {} })).rejects.toMatchObject({
+      statusCode: 400,
+      errors: { 'rows.3.email': 'Row 3: Same as row 2' },
+    });
+    expect(create).not.toHaveBeenCalled();
+  });
+});
+
+describe('account activation', () => {
+  const invite = () => {
+    const student = new Student({
+      registrationNo: 'EG/2024/0001',
+      name: 'Nimal Perera',
+      email: 'nimal@example.com',
+      status: 'invited',
+    });
+    const token = student.createActivationToken();
+    return { student, token };
+  };
+
+  it('lets invited students be created without a password', () => {
+    expect(invite().student.validateSync()).toBeUndefined();
+  });
+
+  it('activates the account with the chosen password and spends the link', async () => {
+    const { student, token } = invite();
+    const { activationToken } = student;
+    const findOne = jest.spyOn(Student, 'findOne').mockResolvedValue(student as never);
+    jest.spyOn(student, 'save').mockResolvedValue(student as never);
+
+    const { status, body } = await call(activateAccount, {
+      params: { token },
+      body: { password: 'password123', passwordConfirm: 'password123' },
+    });
+
+    expect(findOne).toHaveBeenCalledWith(expect.objectContaining({ activationToken, status: 'invited' }));
+    expect(status).toBe(200);
+    expect(body.data.accessToken).toEqual(expect.any(String));
+    expect(student).toMatchObject({ status: 'active', password: 'password123', isEmailVerified: true });
+    expect(student.activationToken).toBeUndefined();
+    expect(student.activationExpires).toBeUndefined();
+  });
+
+  it('rejects an unknown or expired link', async () => {
+    jest.spyOn(Student, 'findOne').mockResolvedValue(null as never);
+
+    await expect(call(activateAccount, { params: { token: 'nope' }, body: {} })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+  });
+
+  it('answers logins to invited accounts like a wrong password', async () => {
+    const { student } = invite();
+    jest.spyOn(Student, 'findOne').mockReturnValue({ select: () => Promise.resolve(student) } as never);
+
+    await expect(
+      call(login, { body: { email: 'nimal@example.com', password: 'guess' } })
+    ).rejects.toMatchObject({ statusCode: 401, message: 'Incorrect email or password' });
+  });
+});
@@ -0,0 +1,300 @@
+// ============================================
+// ComES Backend - Agenda Controller
+// ============================================
+
+import { Request, Response } from 'express';
+import { Event, EventSession, SessionRegistration, Speaker } from '../models';
+import {
+  asyncHandler,
+  NotFoundError,
+  AppError,
+  groupAgenda,
+  assertWithinEvent,
+  assertRoomAvailable,
+  registerForSession,
+  cancelSessionRegistration,
+} from '../utils';
+
+const SPEAKER_FIELDS = 'name designation organization avatar linkedin github twitter website';
+
+// Fields admins may set on a session
+const SESSION_FIELDS = [
+  'title',
+  'description',
+  'type',
+  'startTime',
+  'endTime',
+  'room',
+  'track',
+  'speakers',
+  'capacity',
+  'requiresRegistration',
+] as const;
+
+const findSession = async (eventId: string, sessionId: string) => {
+  const session = await EventSession.findOne({ _id: sessionId, event: eventId });
+
+  if (!session) {
+    throw new NotFoundError('Session');
+  }
+
+  return session;
+};
+
+const assertSpeakersExist = async (speakerIds: string[] = []): Promise<void> => {
+  const found = await Speaker.countDocuments({ _id: { $in: speakerIds } });
+
+  if (found !== new Set(speakerIds.map(String)).size) {
+    throw new AppError('One or more speakers do not exist', 400, 'UNKNOWN_SPEAKER');
+  }
+};
+
+/**
+ * @desc    Get an event's agenda grouped by day and track
+ * @route   GET /api/v1/events/:id/agenda
+ * @route   GET /api/v1/events/slug/:slug/agenda
+ * @access  Public
+ */
+export const getEventAgenda = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const event = req.params.slug
+      ? await Event.findOne({ slug: req.params.slug })
+      : await Event.findById(req.params.id);
+
+    if (!event) {
+      throw new NotFoundError('Event');
+    }
+
+    const sessions = await EventSession.find({ event: event._id })
+      .populate('speakers', SPEAKER_FIELDS)
+      .sort({ startTime: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        event: {
+          _id: event._id,
+          title: event.title,
+          slug: event.slug,
+          date: event.date,
+          endDate: event.endDate,
+        },
+        days: groupAgenda(sessions),
+        total: sessions.length,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Add a session to an event's agenda
+ * @route   POST /api/v1/events/:id/sessions
+ * @access  Private/Admin
+ */
+export const createSession = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const event = await Event.findById(req.params.id);
+
+    if (!event) {
+      throw new NotFoundError('Event');
+    }
+
+    const session = new EventSession({ event: event._id });
+    SESSION_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) session.set(field, req.body[field]);
+    });
+
+    await session.validate();
+    assertWithinEvent(event, session);
+    await assertSpeakersExist(req.body.speakers);
+    await assertRoomAvailable(session);
+
+    await session.save();
+    await session.populate('speakers', SPEAKER_FIELDS);
+
+    res.status(201).json({
+      success: true,
+      message: 'Session created successfully',
+      data: {
+        session,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Update a session
+ * @route   PATCH /api/v1/events/:id/sessions/:sessionId
+ * @access  Private/Admin
+ */
+export const updateSession = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const [event, session] = await Promise.all([
+      Event.findById(req.params.id),
+      findSession(req.params.id, req.params.sessionId),
+    ]);
+
+    if (!event) {
+      throw new NotFoundError('Event');
+    }
+
+    SESSION_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) session.set(field, req.body[field]);
+    });
+
+    if (session.capacity && session.capacity < session.registeredCount) {
+      throw new AppError(
+        `Capacity cannot be lower than the ${session.registeredCount} participants already registered`,
+        400,
+        'CAPACITY_TOO_LOW'
+      );
+    }
+
+    await session.validate();
+    assertWithinEvent(event, session);
+    if (req.body.speakers !== undefined) {
+      await assertSpeakersExist(req.body.speakers);
+    }
+    if (session.isModified('room') || session.isModified('startTime') || session.isModified('endTime')) {
+      await assertRoomAvailable(session);
+    }
+
+    await session.save();
+    await session.populate('speakers', SPEAKER_FIELDS);
+
+    res.status(200).json({
+      success: true,
+      message: 'Session updated successfully',
+      data: {
+        session,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Delete a session
+ * @route   DELETE /api/v1/events/:id/sessions/:sessionId
+ * @access  Private/Admin
+ */
+export const deleteSession = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const session = await findSession(req.params.id, req.params.sessionId);
+
+    await Promise.all([
+      session.deleteOne(),
+      SessionRegistration.deleteMany({ session: session._id }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Session deleted successfully',
+    });
+  }
+);
+
+/**
+ * @desc    Get registrations for a session
+ * @route   GET /api/v1/events/:id/sessions/:sessionId/registrations
+ * @access  Private/Admin
+ */
+export const getSessionRegistrations = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const session = await findSession(req.params.id, req.params.sessionId);
+
+    const registrations = await SessionRegistration.find({ session: session._id })
+      .populate('participant', 'name email registrationNo studentId batch')
+      .sort({ registeredAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        session,
+        registrations,
+        total: registrations.length,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Register for a breakout session
+ * @route   POST /api/v1/events/:id/sessions/:sessionId/register
+ * @access  Private
+ */
+export const registerUserForSession = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const session = await findSession(req.params.id, req.params.sessionId);
+    const registration = await registerForSession(session._id, 'User', req.user!._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Successfully registered for the session',
+      data: {
+        registration,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Unregister from a breakout session
+ * @route   DELETE /api/v1/events/:id/sessions/:sessionId/register
+ * @access  Private
+ */
+export const unregisterUserFromSession = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const session = await findSession(req.params.id, req.params.sessionId);
+    const cancelled = await cancelSessionRegistration(session._id, 'User', req.user!._id);
+
+    if (!cancelled) {
+      throw new AppError('You are not registered for this session', 400);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Successfully unregistered from the session',
+    });
+  }
+);
+
+/**
+ * @desc    Register for a breakout session
+ * @route   POST /api/v1/students/events/:eventId/sessions/:sessionId/register
+ * @access  Private (Student)
+ */
+export const registerStudentForSession = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const session = await findSession(req.params.eventId, req.params.sessionId);
+    const registration = await registerForSession(session._id, 'Student', req.student!._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Successfully registered for the session',
+      data: {
+        registration,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Unregister from a breakout session
+ * @route   DELETE /api/v1/students/events/:eventId/sessions/:sessionId/register
+ * @access  Private (Student)
+ */
+export const unregisterStudentFromSession = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const session = await findSession(req.params.eventId, req.params.sessionId);
+    const cancelled = await cancelSessionRegistration(session._id, 'Student', req.student!._id);
+
+    if (!cancelled) {
+      throw new AppError('You are not registered for this session', 400);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Successfully unregistered from the session',
+    });
+  }
+);
@@ -0,0 +1,140 @@
+// ============================================
+// ComES Backend - Certificate Controller
+// ============================================
+
+import { Request, Response } from 'express';
+import { Certificate, Event, EventRegistration, IStudent } from '../models';
+import { asyncHandler, NotFoundError, AppError, logger } from '../utils';
+import { renderCertificatePdf, getCertificateVerificationUrl } from '../utils/certificate';
+
+/**
+ * @desc    Issue certificates to every attendee of an event
+ * @route   POST /api/v1/events/:id/certificates
+ * @access  Private/Admin
+ */
+export const generateEventCertificates = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const event = await Event.findById(req.params.id);
+
+    if (!event) {
+      throw new NotFoundError('Event');
+    }
+
+    if (event.status === 'cancelled') {
+      throw new AppError('Cannot issue certificates for a cancelled event', 400);
+    }
+
+    const [attendees, existing] = await Promise.all([
+      EventRegistration.find({ event: event._id, participantType: 'Student', status: 'attended' })
+        .populate<{ participant: IStudent }>('participant', 'name registrationNo'),
+      Certificate.find({ event: event._id }).distinct('student'),
+    ]);
+
+    const alreadyIssued = new Set(existing.map((id) => id.toString()));
+
+    const newCertificates = attendees
+      .filter((r) => r.participant && !alreadyIssued.has(r.participant._id.toString()))
+      .map((r) => ({
+        event: event._id,
+        student: r.participant._id,
+        registration: r._id,
+        studentName: r.participant.name,
+        registrationNo: r.participant.registrationNo,
+        eventTitle: event.title,
+        eventDate: event.date,
+        issuedBy: req.user!._id,
+      }));
+
+    // create() runs the validate hook that generates each certificate ID
+    const created = newCertificates.length > 0 ? await Certificate.create(newCertificates) : [];
+
+    logger.info(`Issued ${created.length} certificate(s) for event ${event._id}`);
+
+    res.status(201).json({
+      success: true,
+      message: `Issued ${created.length} new certificate(s)`,
+      data: {
+        issued: created.length,
+        alreadyIssued: alreadyIssued.size,
+        attended: attendees.length,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Get own certificates
+ * @route   GET /api/v1/students/me/certificates
+ * @access  Private (Student)
+ */
+export const getMyCertificates = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const certificates = await Certificate.find({ student: req.student!._id })
+      .select('code eventTitle eventDate issuedAt event')
+      .sort({ issuedAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        certificates: certificates.map((c) => ({
+          ...c.toObject(),
+          verificationUrl: getCertificateVerificationUrl(c.code),
+        })),
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Download own certificate as PDF
+ * @route   GET /api/v1/students/me/certificates/:code
+ * @access  Private (Student)
+ */
+export const downloadMyCertificate = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const certificate = await Certificate.findOne({
+      code: req.params.code.toUpperCase(),
+      student: req.student!._id,
+    });
+
+    if (!certificate) {
+      throw new NotFoundError('Certificate');
+    }
+
+    const pdf = await renderCertificatePdf(certificate);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=certificate-${certificate.code}.pdf`);
+    res.send(pdf);
+  }
+);
+
+/**
+ * @desc    Verify a certificate by its ID
+ * @route   GET /api/v1/certificates/:code
+ * @access  Public
+ */
+export const verifyCertificate = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const certificate = await Certificate.findOne({ code: req.params.code.toUpperCase() });
+
+    if (!certificate) {
+      throw new NotFoundError('Certificate');
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'This certificate is authentic',
+      data: {
+        certificate: {
+          code: certificate.code,
+          studentName: certificate.studentName,
+          registrationNo: certificate.registrationNo,
+          eventTitle: certificate.eventTitle,
+          eventDate: certificate.eventDate,
+          issuedAt: certificate.issuedAt,
+        },
+      },
+    });
+  }
+);
@@ -3,8 +3,35 @@
 // ============================================
 
 import { Request, Response } from 'express';
-import { Event } from '../models';
-import { asyncHandler, NotFoundError, AppError } from '../utils';
+import mongoose from 'mongoose';
+import {
+  Event,
+  EventRegistration,
+  EventNotification,
+  EventSession,
+  SessionRegistration,
+  FeedbackSurvey,
+  FeedbackResponse,
+  JobRun,
+  Student,
+} from '../models';
+import {
+  asyncHandler,
+  NotFoundError,
+  AppError,
+  SEATED_STATUSES,
+  registerParticipant,
+  cancelRegistration,
+  promoteFromWaitlist,
+  verifyTicketCode,
+  toQrPayload,
+  toCsv,
+  sendCancellationNotices,
+  syncEventStatuses,
+  EVENT_STATUS_JOB,
+  logger,
+} from '../utils';
+import { buildCalendar } from '../utils/ical';
 
 /**
  * @desc    Get all events
@@ -113,8 +140,7 @@ export const getFeaturedEvents = asyncHandler(
 export const getEvent = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const event = await Event.findById(req.params.id)
-      .populate('createdBy', 'name avatar')
-      .populate('registrations', 'name avatar');
+      .populate('createdBy', 'name avatar');
 
     if (!event) {
       throw new NotFoundError('Event');
@@ -152,6 +178,58 @@ export const getEventBySlug = asyncHandler(
   }
 );
 
+/**
+ * @desc    Get public calendar feed of upcoming events
+ * @route   GET /api/v1/events/calendar.ics
+ * @access  Public
+ */
+export const getEventsCalendarFeed = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const now = new Date();
+
+    // Cancelled events stay in the feed so subscribers see the cancellation
+    const filter: any = {
+      $or: [{ date: { $gte: now } }, { endDate: { $gte: now } }],
+    };
+
+    if (req.query.type) {
+      filter.type = { $in: (req.query.type as string).split(',') };
+    }
+
+    if (req.query.tags) {
+      filter.tags = { $in: (req.query.tags as string).split(',') };
+    }
+
+    const events = await Event.find(filter).sort({ date: 1 });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename=comes-events.ics');
+    res.send(buildCalendar(events, 'ComES Events'));
+  }
+);
+
+/**
+ * @desc    Export a single event as iCalendar
+ * @route   GET /api/v1/events/:id/calendar.ics
+ * @route   GET /api/v1/events/slug/:slug/calendar.ics
+ * @access  Public
+ */
+export const getEventCalendar = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const event = req.params.slug
+      ? await Event.findOne({ slug: req.params.slug })
+      : await Event.findById(req.params.id);
+
+    if (!event) {
+      throw new NotFoundError('Event');
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename=${event.slug}.ics`);
+    res.send(buildCalendar([event], event.title));
+  }
+);
+
 /**
  * @desc    Create event
  * @route   POST /api/v1/events
@@ -192,6 +270,18 @@ export const updateEvent = asyncHandler(
       throw new NotFoundError('Event');
     }
 
+    // A higher participant limit may free seats for waitlisted participants
+    if (req.body.maxParticipants !== undefined) {
+      await promoteFromWaitlist(event._id);
+    }
+
+    // Notify registrants in the background; the scheduler retries failed sends
+    if (req.body.status === 'cancelled') {
+      sendCancellationNotices(event._id).catch((error) =>
+        logger.error(`Failed to send cancellation notices for event ${event._id}:`, error)
+      );
+    }
+
     res.status(200).json({
       success: true,
       message: 'Event updated successfully',
@@ -215,6 +305,16 @@ export const deleteEvent = asyncHandler(
       throw new NotFoundError('Event');
     }
 
+    await Promise.all([
+      EventRegistration.deleteMany({ event: event._id }),
+      EventNotification.deleteMany({ event: event._id }),
+      EventSession.deleteMany({ event: event._id }),
+      SessionRegistration.deleteMany({ event: event._id }),
+      FeedbackSurvey.deleteMany({ event: event._id }),
+      FeedbackResponse.deleteMany({ event: event._id }),
+      Student.updateMany({ registeredEvents: event._id }, { $pull: { registeredEvents: event._id } }),
+    ]);
+
     res.status(200).json({
       success: true,
       message: 'Event deleted successfully',
@@ -230,70 +330,338 @@ export const deleteEvent = asyncHandler(
  */
 export const registerForEvent = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
-    const event = await Event.findById(req.params.id);
+    const registration = await registerParticipant(req.params.id, 'User', req.user!._id, req.body.answers);
+
+    res.status(200).json({
+      success: true,
+      message: 'Successfully registered for event',
+      data: {
+        registration,
+        qrPayload: toQrPayload(registration.ticketCode),
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Unregister from event
+ * @route   DELETE /api/v1/events/:id/register
+ * @access  Private
+ */
+export const unregisterFromEvent = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const registration = await cancelRegistration(req.params.id, 'User', req.user!._id, ['confirmed']);
+
+    if (!registration) {
+      throw new AppError('You are not registered for this event', 400);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Successfully unregistered from event',
+    });
+  }
+);
+
+/**
+ * @desc    Get all registrations for an event
+ * @route   GET /api/v1/events/:id/registrations
+ * @access  Private/Admin
+ */
+export const getEventRegistrations = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const event = await Event.findById(req.params.id).select('title date maxParticipants registeredCount');
 
     if (!event) {
       throw new NotFoundError('Event');
     }
 
-    if (event.status !== 'upcoming') {
-      throw new AppError('Registration is closed for this event', 400);
-    }
+    const filter: any = { event: event._id };
 
-    // Check if already registered
-    if (event.registrations.includes(req.user!._id)) {
-      throw new AppError('You are already registered for this event', 400);
+    if (req.query.status) {
+      filter.status = { $in: (req.query.status as string).split(',') };
     }
 
-    // Check if event is full
-    if (event.maxParticipants && event.registeredCount >= event.maxParticipants) {
-      throw new AppError('This event is full', 400);
+    if (req.query.participantType) {
+      filter.participantType = req.query.participantType;
     }
 
-    // Add user to registrations
-    event.registrations.push(req.user!._id);
-    event.registeredCount = event.registrations.length;
-    await event.save();
+    const registrations = await EventRegistration.find(filter)
+      .populate('participant', 'name email registrationNo studentId batch avatar')
+      .sort({ registeredAt: 1 });
 
     res.status(200).json({
       success: true,
-      message: 'Successfully registered for event',
       data: {
         event,
+        registrations,
+        total: registrations.length,
       },
     });
   }
 );
 
 /**
- * @desc    Unregister from event
- * @route   DELETE /api/v1/events/:id/register
- * @access  Private
+ * @desc    Export registrations and form answers as CSV
+ * @route   GET /api/v1/events/:id/registrations/export
+ * @access  Private/Admin
  */
-export const unregisterFromEvent = asyncHandler(
+export const exportEventRegistrations = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
-    const event = await Event.findById(req.params.id);
+    const event = await Event.findById(req.params.id).select('title slug registrationForm');
 
     if (!event) {
       throw new NotFoundError('Event');
     }
 
-    // Check if registered
-    const index = event.registrations.indexOf(req.user!._id);
-    if (index === -1) {
-      throw new AppError('You are not registered for this event', 400);
+    // Cancelled registrations are left out unless asked for
+    const statuses = req.query.status
+      ? (req.query.status as string).split(',')
+      : ['confirmed', 'attended', 'waitlisted'];
+
+    const registrations = await EventRegistration.find({ event: event._id, status: { $in: statuses } })
+      .populate<{ participant: Record<string, any> | null }>('participant', 'name email registrationNo studentId batch')
+      .sort({ registeredAt: 1 });
+
+    const fields = event.registrationForm || [];
+
+    const csv = toCsv(
+      [
+        'Name',
+        'Email',
+        'Registration No',
+        'Batch',
+        'Participant Type',
+        'Status',
+        'Registered At',
+        'Checked In At',
+        ...fields.map((field) => field.label),
+      ],
+      registrations.map((r) => [
+        r.participant?.name,
+        r.participant?.email,
+        r.participant?.registrationNo || r.participant?.studentId,
+        r.participant?.batch,
+        r.participantType,
+        r.status,
+        r.registeredAt,
+        r.checkedInAt,
+        ...fields.map((field) => (r.answers || {})[field.key]),
+      ])
+    );
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename=${event.slug}-registrations.csv`);
+    res.send(csv);
+  }
+);
+
+/**
+ * @desc    Remove a participant from an event
+ * @route   DELETE /api/v1/events/:id/registrations/:participantId
+ * @access  Private/Admin
+ */
+export const removeRegistration = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id, participantId } = req.params;
+
+    const registration = await EventRegistration.findOne({
+      event: id,
+      participant: participantId,
+      status: { $in: ['confirmed', 'waitlisted'] },
+    });
+
+    if (!registration) {
+      throw new AppError('This participant is not registered for the event', 400);
     }
 
-    // Remove user from registrations
-    event.registrations.splice(index, 1);
-    event.registeredCount = event.registrations.length;
-    await event.save();
+    await cancelRegistration(id, registration.participantType, participantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Participant removed from event',
+    });
+  }
+);
+
+/**
+ * @desc    Get the waitlist for an event
+ * @route   GET /api/v1/events/:id/waitlist
+ * @access  Private/Admin
+ */
+export const getEventWaitlist = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const event = await Event.findById(req.params.id).select('_id');
+
+    if (!event) {
+      throw new NotFoundError('Event');
+    }
+
+    const waitlist = await EventRegistration.find({ event: event._id, status: 'waitlisted' })
+      .populate('participant', 'name email registrationNo studentId')
+      .sort({ waitlistedAt: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        waitlist,
+        total: waitlist.length,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Check in an attendee by scanning their ticket
+ * @route   POST /api/v1/events/:id/check-in
+ * @access  Private/Admin/Member
+ */
+export const checkInAttendee = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const registrationId = verifyTicketCode(req.body.ticketCode);
+
+    if (!registrationId || !mongoose.isValidObjectId(registrationId)) {
+      throw new AppError('Invalid ticket', 400, 'INVALID_TICKET');
+    }
+
+    const registration = await EventRegistration.findById(registrationId);
+
+    if (!registration) {
+      throw new AppError('Invalid ticket', 400, 'INVALID_TICKET');
+    }
+
+    if (registration.event.toString() !== req.params.id) {
+      throw new AppError('This ticket is for a different event', 400, 'WRONG_EVENT');
+    }
+
+    if (registration.status === 'cancelled' || registration.status === 'waitlisted') {
+      throw new AppError(`This ticket is not valid for entry (${registration.status})`, 400, 'INVALID_TICKET');
+    }
+
+    // Only the first scan marks attendance, so concurrent scanners cannot both succeed
+    const checkedIn = await EventRegistration.findOneAndUpdate(
+      { _id: registration._id, status: 'confirmed' },
+      {
+        $set: {
+          status: 'attended',
+          checkedInAt: new Date(),
+          checkedInBy: req.user!._id,
+          lastScannedAt: new Date(),
+        },
+      },
+      { new: true }
+    ).populate('participant', 'name registrationNo studentId avatar');
+
+    if (!checkedIn) {
+      const duplicate = await EventRegistration.findOneAndUpdate(
+        { _id: registration._id, status: 'attended' },
+        { $inc: { duplicateScans: 1 }, $set: { lastScannedAt: new Date() } },
+        { new: true }
+      );
+
+      // Cancelled between the lookup and the check-in
+      if (!duplicate) {
+        throw new AppError('This ticket is not valid for entry', 400, 'INVALID_TICKET');
+      }
+
+      throw new AppError(
+        `Ticket already checked in at ${duplicate.checkedInAt!.toISOString()}`,
+        409,
+        'ALREADY_CHECKED_IN'
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Attendee checked in successfully',
+      data: {
+        registration: checkedIn,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Get attendance report for an event
+ * @route   GET /api/v1/events/:id/attendance
+ * @access  Private/Admin
+ */
+export const getAttendanceReport = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const event = await Event.findById(req.params.id).select('title date status');
+
+    if (!event) {
+      throw new NotFoundError('Event');
+    }
+
+    const registrations = await EventRegistration.find({
+      event: event._id,
+      status: { $in: SEATED_STATUSES },
+    })
+      .populate('participant', 'name email registrationNo studentId batch')
+      .populate('checkedInBy', 'name')
+      .sort({ checkedInAt: 1, registeredAt: 1 });
+
+    const registered = registrations.length;
+    const attended = registrations.filter((r) => r.status === 'attended').length;
+    const noShows = registered - attended;
 
     res.status(200).json({
       success: true,
-      message: 'Successfully unregistered from event',
       data: {
         event,
+        summary: {
+          registered,
+          attended,
+          noShows,
+          noShowRate: registered > 0 ? Math.round((noShows / registered) * 10000) / 100 : 0,
+        },
+        registrations,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Get the last event status sync run and recent transitions
+ * @route   GET /api/v1/events/status-sync
+ * @access  Private/Admin
+ */
+export const getStatusSyncRuns = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 20, 100);
+
+    const [lastRun, recentChanges] = await Promise.all([
+      JobRun.findOne({ job: EVENT_STATUS_JOB }).sort({ startedAt: -1 }),
+      JobRun.find({ job: EVENT_STATUS_JOB, 'changes.0': { $exists: true } })
+        .sort({ startedAt: -1 })
+        .limit(limit),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        lastRun,
+        recentChanges,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Run the event status sync now
+ * @route   POST /api/v1/events/status-sync
+ * @access  Private/Admin
+ */
+export const runStatusSync = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const run = await syncEventStatuses('manual');
+
+    res.status(200).json({
+      success: true,
+      message: `Event status sync moved ${run.changes.length} event(s)`,
+      data: {
+        run,
       },
     });
   }
@@ -0,0 +1,358 @@
+// ============================================
+// ComES Backend - Feedback Controller
+// ============================================
+
+import { Request, Response } from 'express';
+import {
+  Event,
+  EventRegistration,
+  FeedbackSurvey,
+  FeedbackResponse,
+  IFeedbackSurvey,
+  IStudent,
+  RegistrationStatus,
+} from '../models';
+import {
+  asyncHandler,
+  NotFoundError,
+  AppError,
+  ConflictError,
+  getRespondentKey,
+  validateSurveyAnswers,
+  aggregateSurvey,
+  summarizeSurvey,
+  toCsv,
+} from '../utils';
+
+// Registration statuses allowed to answer, by survey audience
+const AUDIENCE_STATUSES: Record<IFeedbackSurvey['audience'], RegistrationStatus[]> = {
+  registered: ['confirmed', 'attended'],
+  attended: ['attended'],
+};
+
+// Fields admins may set on a survey
+const SURVEY_FIELDS = ['title', 'description', 'questions', 'audience', 'isAnonymous', 'opensAt', 'closesAt'] as const;
+
+const findSurvey = async (eventId: string) => {
+  const survey = await FeedbackSurvey.findOne({ event: eventId });
+
+  if (!survey) {
+    throw new NotFoundError('Survey');
+  }
+
+  return survey;
+};
+
+const countEligible = (survey: IFeedbackSurvey) => {
+  return EventRegistration.countDocuments({
+    event: survey.event,
+    participantType: 'Student',
+    status: { $in: AUDIENCE_STATUSES[survey.audience] },
+  });
+};
+
+/**
+ * @desc    Get the feedback survey of an event
+ * @route   GET /api/v1/events/:id/survey
+ * @access  Public
+ */
+export const getEventSurvey = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const survey = await findSurvey(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        survey,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Create the feedback survey of an event
+ * @route   POST /api/v1/events/:id/survey
+ * @access  Private/Admin
+ */
+export const createSurvey = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const event = await Event.findById(req.params.id);
+
+    if (!event) {
+      throw new NotFoundError('Event');
+    }
+
+    if (await FeedbackSurvey.exists({ event: event._id })) {
+      throw new ConflictError('This event already has a feedback survey');
+    }
+
+    const survey = new FeedbackSurvey({ event: event._id, createdBy: req.user!._id });
+    SURVEY_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) survey.set(field, req.body[field]);
+    });
+    await survey.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Survey created successfully',
+      data: {
+        survey,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Update the feedback survey of an event
+ * @route   PATCH /api/v1/events/:id/survey
+ * @access  Private/Admin
+ */
+export const updateSurvey = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const survey = await findSurvey(req.params.id);
+
+    // Changing questions or anonymity would make existing responses inconsistent
+    const locked = ['questions', 'isAnonymous'].filter((field) => req.body[field] !== undefined);
+    if (locked.length > 0 && (await FeedbackResponse.exists({ survey: survey._id }))) {
+      throw new AppError(
+        `Cannot change ${locked.join(' or ')} once the survey has responses`,
+        400,
+        'SURVEY_HAS_RESPONSES'
+      );
+    }
+
+    SURVEY_FIELDS.forEach((field) => {
+      if (req.body[field] !== undefined) survey.set(field, req.body[field]);
+    });
+    await survey.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Survey updated successfully',
+      data: {
+        survey,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Delete the feedback survey of an event and its responses
+ * @route   DELETE /api/v1/events/:id/survey
+ * @access  Private/Admin
+ */
+export const deleteSurvey = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const survey = await findSurvey(req.params.id);
+
+    await Promise.all([
+      survey.deleteOne(),
+      FeedbackResponse.deleteMany({ survey: survey._id }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Survey deleted successfully',
+    });
+  }
+);
+
+/**
+ * @desc    Get aggregated survey results
+ * @route   GET /api/v1/events/:id/survey/results
+ * @access  Private/Admin
+ */
+export const getSurveyResults = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const survey = await findSurvey(req.params.id);
+
+    const [responses, eligible] = await Promise.all([
+      FeedbackResponse.find({ survey: survey._id }),
+      countEligible(survey),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        survey: {
+          _id: survey._id,
+          title: survey.title,
+          audience: survey.audience,
+          isAnonymous: survey.isAnonymous,
+        },
+        summary: {
+          ...summarizeSurvey(survey, responses),
+          eligible,
+          responseRate: eligible ? Math.round((responses.length / eligible) * 100) : 0,
+        },
+        questions: aggregateSurvey(survey, responses),
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Export survey responses as CSV
+ * @route   GET /api/v1/events/:id/survey/results/export
+ * @access  Private/Admin
+ */
+export const exportSurveyResults = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const survey = await findSurvey(req.params.id);
+    const event = await Event.findById(survey.event).select('slug');
+
+    const responses = await FeedbackResponse.find({ survey: survey._id })
+      .populate<{ student: IStudent | null }>('student', 'name registrationNo')
+      .sort({ submittedAt: 1 });
+
+    const csv = toCsv(
+      ['Submitted At', 'Name', 'Registration No', ...survey.questions.map((q) => q.text)],
+      responses.map((r) => [
+        r.submittedAt,
+        survey.isAnonymous ? 'Anonymous' : r.student?.name,
+        survey.isAnonymous ? '' : r.student?.registrationNo,
+        ...survey.questions.map((q) => {
+          const answer = r.answers.find((a) => a.question.equals(q._id));
+          return q.type === 'text' ? answer?.text : answer?.value;
+        }),
+      ])
+    );
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename=${event?.slug || survey.event}-feedback.csv`);
+    res.send(csv);
+  }
+);
+
+/**
+ * @desc    Compare survey results across events of the same type
+ * @route   GET /api/v1/events/survey-comparison?type=workshop
+ * @access  Private/Admin
+ */
+export const compareSurveys = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const type = req.query.type as string;
+
+    if (!type) {
+      throw new AppError('Event type is required', 400);
+    }
+
+    const events = await Event.find({ type }).select('title slug date type').sort({ date: -1 });
+    const surveys = await FeedbackSurvey.find({ event: { $in: events.map((e) => e._id) } });
+
+    const comparison = await Promise.all(
+      surveys.map(async (survey) => {
+        const [responses, eligible] = await Promise.all([
+          FeedbackResponse.find({ survey: survey._id }),
+          countEligible(survey),
+        ]);
+        const event = events.find((e) => e._id.equals(survey.event))!;
+
+        return {
+          event: { _id: event._id, title: event.title, slug: event.slug, date: event.date },
+          ...summarizeSurvey(survey, responses),
+          eligible,
+          responseRate: eligible ? Math.round((responses.length / eligible) * 100) : 0,
+        };
+      })
+    );
+
+    comparison.sort((a, b) => b.event.date.getTime() - a.event.date.getTime());
+
+    res.status(200).json({
+      success: true,
+      data: {
+        type,
+        events: comparison,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Get an event's survey and whether the student has answered it
+ * @route   GET /api/v1/students/events/:eventId/survey
+ * @access  Private (Student)
+ */
+export const getMySurveyStatus = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const survey = await findSurvey(req.params.eventId);
+
+    const [hasResponded, isEligible] = await Promise.all([
+      FeedbackResponse.exists({
+        survey: survey._id,
+        respondentKey: getRespondentKey(survey._id, req.student!._id),
+      }),
+      EventRegistration.exists({
+        event: survey.event,
+        participantType: 'Student',
+        participant: req.student!._id,
+        status: { $in: AUDIENCE_STATUSES[survey.audience] },
+      }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        survey,
+        isEligible: !!isEligible,
+        hasResponded: !!hasResponded,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Submit feedback for an event
+ * @route   POST /api/v1/students/events/:eventId/survey
+ * @access  Private (Student)
+ */
+export const submitSurveyResponse = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const survey = await findSurvey(req.params.eventId);
+    const studentId = req.student!._id;
+
+    if (!survey.isOpen) {
+      throw new AppError('This survey is not accepting responses', 400, 'SURVEY_CLOSED');
+    }
+
+    const isEligible = await EventRegistration.exists({
+      event: survey.event,
+      participantType: 'Student',
+      participant: studentId,
+      status: { $in: AUDIENCE_STATUSES[survey.audience] },
+    });
+
+    if (!isEligible) {
+      throw new AppError(
+        survey.audience === 'attended'
+          ? 'Only students who attended this event can give feedback'
+          : 'Only students registered for this event can give feedback',
+        403,
+        'NOT_ELIGIBLE'
+      );
+    }
+
+    const answers = validateSurveyAnswers(survey, req.body.answers);
+
+    try {
+      await FeedbackResponse.create({
+        survey: survey._id,
+        event: survey.event,
+        respondentKey: getRespondentKey(survey._id, studentId),
+        student: survey.isAnonymous ? undefined : studentId,
+        answers,
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new ConflictError('You have already given feedback for this event');
+      }
+      throw error;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Thank you for your feedback',
+    });
+  }
+);
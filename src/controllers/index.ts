@@ -14,3 +14,10 @@ export * as studentController from './student.controller';
 export * as competitionTeamController from './competitionTeam.controller';
 export * as analyticsController from './analytics.controller';
 export * as quizController from './quiz.controller';
+export * as liveQuizController from './liveQuiz.controller';
+export * as questionBankController from './questionBank.controller';
+export * as quizSeasonController from './quizSeason.controller';
+export * as certificateController from './certificate.controller';
+export * as speakerController from './speaker.controller';
+export * as agendaController from './agenda.controller';
+export * as feedbackController from './feedback.controller';
@@ -0,0 +1,207 @@
+// ============================================
+// ComES Backend - Live Quiz Controller
+// ============================================
+
+import { Request, Response } from 'express';
+import {
+    asyncHandler,
+    AppError,
+    openLiveStream,
+    getLiveState,
+    findLiveSession,
+    findLiveQuiz,
+    createLiveSession,
+    joinLiveSession,
+    advanceLiveSession,
+    closeLiveQuestion,
+    finishLiveSession,
+    submitLiveAnswer,
+    getLeaderboard,
+} from '../utils';
+
+/**
+ * @desc    Open a live session for a quiz
+ * @route   POST /api/v1/live-quizzes
+ * @access  Private/Admin
+ */
+export const createSession = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const session = await createLiveSession(req.body.quizId, req.user!._id);
+        const quiz = await findLiveQuiz(session);
+
+        res.status(201).json({
+            success: true,
+            message: `Live session open. Join with PIN ${session.pin}`,
+            data: {
+                session: getLiveState(session, quiz, 'host'),
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Get the current state of a live session
+ * @route   GET /api/v1/live-quizzes/:sessionId
+ * @access  Private/Admin
+ */
+export const getSession = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const session = await findLiveSession(req.params.sessionId);
+        const quiz = await findLiveQuiz(session);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                session: getLiveState(session, quiz, 'host'),
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Stream live session updates to the host
+ * @route   GET /api/v1/live-quizzes/:sessionId/host-stream
+ * @access  Private/Admin
+ */
+export const streamToHost = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const session = await findLiveSession(req.params.sessionId);
+        const quiz = await findLiveQuiz(session);
+
+        if (session.status === 'finished') {
+            throw new AppError('This session has already finished', 400, 'SESSION_FINISHED');
+        }
+
+        openLiveStream(session._id, res, 'host', getLiveState(session, quiz, 'host'));
+    }
+);
+
+/**
+ * @desc    Open the next question (or finish after the last one)
+ * @route   POST /api/v1/live-quizzes/:sessionId/next
+ * @access  Private/Admin
+ */
+export const nextQuestion = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const session = await advanceLiveSession(req.params.sessionId);
+        const quiz = await findLiveQuiz(session);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                session: getLiveState(session, quiz, 'host'),
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Close the open question before its timer runs out
+ * @route   POST /api/v1/live-quizzes/:sessionId/close-question
+ * @access  Private/Admin
+ */
+export const closeQuestion = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const session = await closeLiveQuestion(req.params.sessionId);
+
+        if (!session) {
+            throw new AppError('No question is open', 400, 'QUESTION_CLOSED');
+        }
+
+        const quiz = await findLiveQuiz(session);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                session: getLiveState(session, quiz, 'host'),
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Finish a live session and save results as quiz attempts
+ * @route   POST /api/v1/live-quizzes/:sessionId/finish
+ * @access  Private/Admin
+ */
+export const finishSession = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const { session, attempts } = await finishLiveSession(req.params.sessionId);
+
+        res.status(200).json({
+            success: true,
+            message: 'Live session finished',
+            data: {
+                leaderboard: getLeaderboard(session),
+                attempts: attempts.length,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Join a live session with its PIN
+ * @route   POST /api/v1/live-quizzes/join
+ * @access  Private (Student)
+ */
+export const joinSession = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const session = await joinLiveSession(req.body.pin, req.student!);
+        const quiz = await findLiveQuiz(session);
+
+        res.status(200).json({
+            success: true,
+            message: `Joined ${quiz.title}`,
+            data: {
+                session: getLiveState(session, quiz, 'player', req.student!._id),
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Stream live session updates to a player
+ * @route   GET /api/v1/live-quizzes/:sessionId/stream
+ * @access  Private (Student)
+ */
+export const streamToPlayer = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const session = await findLiveSession(req.params.sessionId);
+        const studentId = req.student!._id;
+
+        if (!session.participants.some((p) => p.student.equals(studentId))) {
+            throw new AppError('Join the session before connecting', 403, 'NOT_JOINED');
+        }
+
+        if (session.status === 'finished') {
+            throw new AppError('This session has already finished', 400, 'SESSION_FINISHED');
+        }
+
+        const quiz = await findLiveQuiz(session);
+
+        openLiveStream(session._id, res, 'player', getLiveState(session, quiz, 'player', studentId), studentId);
+    }
+);
+
+/**
+ * @desc    Answer the open question
+ * @route   POST /api/v1/live-quizzes/:sessionId/answer
+ * @access  Private (Student)
+ */
+export const submitAnswer = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const { questionIndex } = await submitLiveAnswer(
+            req.params.sessionId,
+            req.student!._id,
+            req.body
+        );
+
+        res.status(200).json({
+            success: true,
+            message: 'Answer received',
+            data: {
+                questionIndex,
+            },
+        });
+    }
+);
@@ -0,0 +1,167 @@
+// ============================================
+// ComES Backend - Question Bank Controller
+// ============================================
+
+import { Request, Response } from 'express';
+import { QuestionBank, IQuestionBank } from '../models/questionBank.model';
+import { Quiz, QUESTION_DIFFICULTIES } from '../models/quiz.model';
+import { asyncHandler, NotFoundError, AppError, ConflictError } from '../utils';
+
+// A bank without its questions, with counts to plan draws against
+const toBankSummary = (bank: IQuestionBank) => ({
+    _id: bank._id,
+    name: bank.name,
+    description: bank.description,
+    questionCount: bank.questions.length,
+    difficultyCounts: Object.fromEntries(
+        QUESTION_DIFFICULTIES.map((d) => [d, bank.questions.filter((q) => q.difficulty === d).length])
+    ),
+    topics: [...new Set(bank.questions.flatMap((q) => q.topics))].sort(),
+    createdAt: bank.createdAt,
+    updatedAt: bank.updatedAt,
+});
+
+const rethrowDuplicateName = (error: unknown): never => {
+    if ((error as { code?: number }).code === 11000) {
+        throw new ConflictError('A question bank with this name already exists');
+    }
+    throw error;
+};
+
+/**
+ * @desc    Get all question banks with question counts
+ * @route   GET /api/v1/question-banks
+ * @access  Private/Admin
+ */
+export const getAllQuestionBanks = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const filter: any = {};
+
+        if (req.query.search) {
+            filter.name = { $regex: req.query.search, $options: 'i' };
+        }
+
+        if (req.query.topic) {
+            filter['questions.topics'] = (req.query.topic as string).toLowerCase();
+        }
+
+        const banks = await QuestionBank.find(filter).sort({ name: 1 });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                banks: banks.map(toBankSummary),
+                total: banks.length,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Get a question bank with its questions
+ * @route   GET /api/v1/question-banks/:id
+ * @access  Private/Admin
+ */
+export const getQuestionBank = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const bank = await QuestionBank.findById(req.params.id);
+
+        if (!bank) {
+            throw new NotFoundError('Question bank');
+        }
+
+        const quizzes = await Quiz.find({ 'draws.bank': bank._id }).select('title slug');
+
+        res.status(200).json({
+            success: true,
+            data: {
+                bank,
+                summary: toBankSummary(bank),
+                usedBy: quizzes,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Create a question bank
+ * @route   POST /api/v1/question-banks
+ * @access  Private/Admin
+ */
+export const createQuestionBank = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const bank = await QuestionBank.create({
+            name: req.body.name,
+            description: req.body.description,
+            questions: req.body.questions,
+        }).catch(rethrowDuplicateName);
+
+        res.status(201).json({
+            success: true,
+            message: 'Question bank created successfully',
+            data: {
+                bank,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Update a question bank. Attempts already started keep the
+ *          questions they were given.
+ * @route   PATCH /api/v1/question-banks/:id
+ * @access  Private/Admin
+ */
+export const updateQuestionBank = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const bank = await QuestionBank.findById(req.params.id);
+
+        if (!bank) {
+            throw new NotFoundError('Question bank');
+        }
+
+        const allowedFields = ['name', 'description', 'questions'];
+        allowedFields.forEach((field) => {
+            if (req.body[field] !== undefined) {
+                (bank as any)[field] = req.body[field];
+            }
+        });
+
+        await bank.save().catch(rethrowDuplicateName);
+
+        res.status(200).json({
+            success: true,
+            message: 'Question bank updated successfully',
+            data: {
+                bank,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Delete a question bank no quiz draws from
+ * @route   DELETE /api/v1/question-banks/:id
+ * @access  Private/Admin
+ */
+export const deleteQuestionBank = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const bank = await QuestionBank.findById(req.params.id);
+
+        if (!bank) {
+            throw new NotFoundError('Question bank');
+        }
+
+        if (await Quiz.exists({ 'draws.bank': bank._id })) {
+            throw new AppError('Remove this bank from the quizzes drawing from it before deleting it', 400, 'BANK_IN_USE');
+        }
+
+        await bank.deleteOne();
+
+        res.status(200).json({
+            success: true,
+            message: 'Question bank deleted successfully',
+            data: null,
+        });
+    }
+);
@@ -5,7 +5,53 @@
 import { Request, Response } from 'express';
 import { Quiz } from '../models/quiz.model';
 import { QuizAttempt } from '../models/quizAttempt.model';
-import { asyncHandler, NotFoundError, AppError } from '../utils';
+import { LiveQuizSession } from '../models/liveQuizSession.model';
+import { QuizVersion } from '../models/quizVersion.model';
+import { QuizRegrade } from '../models/quizRegrade.model';
+import {
+    asyncHandler,
+    NotFoundError,
+    AppError,
+    ValidationError,
+    parseAnswer,
+    scoreResponses,
+    totalScore,
+    startAttempt,
+    serveNextQuestion,
+    answerQuestion,
+    finishAttempt,
+    toStudentQuiz,
+    toAdminQuiz,
+    toStudentAttempt,
+    toAttemptReview,
+    toAttemptVariant,
+    drawQuestions,
+    assertCanAttempt,
+    isEligible,
+    countUsedAttempts,
+    countedAttemptsPipeline,
+    publishCompletedAttempt,
+    removeQuizFromSeasons,
+    analyzeQuiz,
+    DEFAULT_IMPORT,
+    detectQuizFileFormat,
+    parseQuizFile,
+    prepareQuizImport,
+    exportQuizFile,
+    QuizFileFormat,
+    attemptVersionFilter,
+    recordQuizVersion,
+    publishQuizVersion,
+    quizAtVersion,
+    quizForAttempt,
+    regradeQuiz,
+    previewScoring,
+    findStudentTeam,
+    assertTeamCanAttempt,
+    isAttemptParticipant,
+    getTeamQuizStatus,
+    getTeamLeaderboard,
+} from '../utils';
 
 /**
  * @desc    Create a new quiz
@@ -14,7 +60,13 @@ import { asyncHandler, NotFoundError, AppError } from '../utils';
  */
 export const createQuiz = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
-        const quiz = await Quiz.create(req.body);
+        // Every quiz starts at version 1 without a draft
+        const quiz = new Quiz({ ...req.body, version: 1, draft: undefined });
+
+        // Fail now rather than when students start the quiz
+        await drawQuestions(quiz.draws);
+        await quiz.save();
+        await recordQuizVersion(quiz, { publishedBy: req.user?._id });
 
         res.status(201).json({
             success: true,
@@ -27,7 +79,7 @@ export const createQuiz = asyncHandler(
 );
 
 /**
- * @desc    Get all visible quizzes
+ * @desc    Get all visible quizzes (admins also see correct answers)
  * @route   GET /api/v1/quizzes
  * @access  Public
  */
@@ -39,8 +91,10 @@ export const getAllQuizzes = asyncHandler(
 
         const filter: any = {};
 
-        // Only show visible quizzes by default
-        if (req.query.includeHidden !== 'true') {
+        const isAdmin = req.user?.role === 'admin';
+
+        // Only admins may list hidden quizzes
+        if (!isAdmin || req.query.includeHidden !== 'true') {
             filter.isVisible = true;
         }
 
@@ -62,7 +116,6 @@ export const getAllQuizzes = asyncHandler(
 
         const [quizzes, total] = await Promise.all([
             Quiz.find(filter)
-                .select('-questions.answers.isCorrect') // Hide correct answers in listing
                 .skip(skip)
                 .limit(limit)
                 .sort(sort),
@@ -74,7 +127,7 @@ export const getAllQuizzes = asyncHandler(
         res.status(200).json({
             success: true,
             data: {
-                quizzes,
+                quizzes: quizzes.map(isAdmin ? toAdminQuiz : toStudentQuiz),
                 pagination: {
                     page,
                     limit,
@@ -87,29 +140,31 @@ export const getAllQuizzes = asyncHandler(
 );
 
 /**
- * @desc    Get quiz by ID
+ * @desc    Get quiz by ID (admins also see correct answers)
  * @route   GET /api/v1/quizzes/:id
  * @access  Public
  */
 export const getQuizById = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
         const quiz = await Quiz.findById(req.params.id);
+        const isAdmin = req.user?.role === 'admin';
 
-        if (!quiz) {
+        if (!quiz || (!quiz.isVisible && !isAdmin)) {
             throw new NotFoundError('Quiz');
         }
 
         res.status(200).json({
             success: true,
             data: {
-                quiz,
+                quiz: isAdmin ? toAdminQuiz(quiz) : toStudentQuiz(quiz),
             },
         });
     }
 );
 
 /**
- * @desc    Update quiz
+ * @desc    Update quiz. Changing its questions, draws or scoring rules
+ *          publishes them straight away as a new version.
  * @route   PATCH /api/v1/quizzes/:id
  * @access  Public
  */
@@ -122,18 +177,54 @@ export const updateQuiz = asyncHandler(
         }
 
         // Update fields
-        const allowedFields = ['title', 'description', 'questions', 'isVisible'];
+        const allowedFields = [
+            'title',
+            'description',
+            'shuffleQuestions',
+            'shuffleAnswers',
+            'isTimed',
+            'allowReview',
+            'opensAt',
+            'closesAt',
+            'maxAttempts',
+            'attemptScoring',
+            'participation',
+            'teamAnswerers',
+            'accessCode',
+            'eligibility',
+            'isVisible',
+        ];
         allowedFields.forEach((field) => {
             if (req.body[field] !== undefined) {
                 (quiz as any)[field] = req.body[field];
             }
         });
 
-        await quiz.save();
+        // Attempts already made are either all individual or all by teams
+        if (quiz.isModified('participation') && (await QuizAttempt.exists({ quizId: quiz._id }))) {
+            throw new AppError(
+                'Individual and team modes cannot be switched once the quiz has attempts',
+                409,
+                'QUIZ_HAS_ATTEMPTS'
+            );
+        }
+
+        const publishes = ['questions', 'draws', 'scoringRules'].some((field) => req.body[field] !== undefined);
+        if (publishes) {
+            if (req.body.questions !== undefined) quiz.questions = req.body.questions;
+            if (req.body.draws !== undefined) quiz.draws = req.body.draws;
+            // Rules not sent keep their current values
+            if (req.body.scoringRules !== undefined) {
+                quiz.set('scoringRules', { ...quiz.toObject().scoringRules, ...req.body.scoringRules });
+            }
+            await publishQuizVersion(quiz, { publishedBy: req.user?._id });
+        } else {
+            await quiz.save();
+        }
 
         res.status(200).json({
             success: true,
-            message: 'Quiz updated successfully',
+            message: publishes ? `Quiz updated and published as version ${quiz.version}` : 'Quiz updated successfully',
             data: {
                 quiz,
             },
@@ -154,8 +245,16 @@ export const deleteQuiz = asyncHandler(
             throw new NotFoundError('Quiz');
         }
 
-        // Also delete all attempts for this quiz
-        await QuizAttempt.deleteMany({ quizId: req.params.id });
+        // Also delete all attempts, live sessions and versions of this quiz
+        await Promise.all([
+            QuizAttempt.deleteMany({ quizId: req.params.id }),
+            LiveQuizSession.deleteMany({ quiz: req.params.id }),
+            QuizVersion.deleteMany({ quiz: req.params.id }),
+            QuizRegrade.deleteMany({ quiz: req.params.id }),
+        ]);
+
+        // Seasons it was part of are ranked without it
+        await removeQuizFromSeasons(quiz._id);
 
         res.status(200).json({
             success: true,
@@ -198,7 +297,7 @@ export const toggleVisibility = asyncHandler(
 );
 
 /**
- * @desc    Submit a quiz attempt
+ * @desc    Submit a whole attempt at an untimed quiz
  * @route   POST /api/v1/quizzes/:id/attempt
  * @access  Public
  */
@@ -214,12 +313,39 @@ export const submitQuizAttempt = asyncHandler(
             throw new AppError('This quiz is not available', 403);
         }
 
+        // Response times sent by clients cannot be trusted
+        if (quiz.isTimed) {
+            throw new AppError(
+                'This quiz is timed. Start an attempt and answer one question at a time',
+                400,
+                'QUIZ_IS_TIMED'
+            );
+        }
+
+        // Each attempt gets its own questions, which only the attempt flow serves
+        if (quiz.isRandomized) {
+            throw new AppError(
+                'This quiz is randomized. Start an attempt and answer one question at a time',
+                400,
+                'QUIZ_IS_RANDOMIZED'
+            );
+        }
+
         const { responses } = req.body;
 
         if (!responses || !Array.isArray(responses)) {
             throw new AppError('Responses are required', 400);
         }
 
+        // Team quizzes are submitted once, by a member for the whole team
+        const team = quiz.participation === 'team' ? await findStudentTeam(req.student!, req.body.teamId) : null;
+
+        if (team) {
+            await assertTeamCanAttempt(quiz, team, req.student!, req.body.accessCode);
+        } else {
+            await assertCanAttempt(quiz, req.student!, req.body.accessCode);
+        }
+
         // Use authenticated student info
         const participantName = req.student!.name;
         const studentId = req.student!._id;
@@ -229,68 +355,55 @@ export const submitQuizAttempt = asyncHandler(
             quiz.questions.map((q) => [q._id.toString(), q])
         );
 
-        // Calculate scores for each response
-        const scoredResponses = responses.map((response: any) => {
+        // Check each answer against its question
+        const answered = new Set<string>();
+        const answers = responses.map((response: any, i: number) => {
             const question = questionMap.get(response.questionId);
 
             if (!question) {
                 throw new AppError(`Question ${response.questionId} not found in this quiz`, 400);
             }
-
-            const selectedIndex = response.selectedAnswerIndex;
-            const responseTime = response.responseTimeSeconds;
-
-            // Check if the answer is correct
-            const isCorrect = question.answers[selectedIndex]?.isCorrect || false;
-
-            // Calculate marks based on response time
-            let marksAwarded = 0;
-            if (isCorrect) {
-                const timeLimit = question.timeLimitSeconds;
-                const timeFraction = Math.max(0, (timeLimit - responseTime) / timeLimit);
-                // Minimum 10% of marks for a correct answer, even if slow
-                marksAwarded = Math.max(
-                    question.marks * 0.1,
-                    question.marks * timeFraction
-                );
-                // Round to 2 decimal places
-                marksAwarded = Math.round(marksAwarded * 100) / 100;
+            if (answered.has(response.questionId)) {
+                throw new ValidationError('Invalid responses', {
+                    [`responses[${i}].questionId`]: 'Each question can only be answered once',
+                });
             }
+            answered.add(response.questionId);
 
             return {
                 questionId: response.questionId,
-                selectedAnswerIndex: selectedIndex,
-                responseTimeSeconds: responseTime,
-                isCorrect,
-                marksAwarded,
+                ...parseAnswer(question, response),
+                responseTimeSeconds: response.responseTimeSeconds || 0,
             };
         });
 
+        // Untimed: response times sent by the client are kept but not scored
+        const scoredResponses = scoreResponses(quiz.questions, answers, quiz.scoringRules, { isTimed: false });
+
         // Calculate totals
-        const totalMarks = scoredResponses.reduce(
-            (sum: number, r: any) => sum + r.marksAwarded,
-            0
-        );
-        const maxMarks = quiz.questions.reduce((sum, q) => sum + q.marks, 0);
-        const percentage = maxMarks > 0 ? Math.round((totalMarks / maxMarks) * 10000) / 100 : 0;
+        const { totalMarks, maxMarks, percentage } = totalScore(scoredResponses, quiz.questions);
 
         // Create the attempt
         const attempt = await QuizAttempt.create({
             quizId: quiz._id,
             studentId,
             participantName,
+            ...(team && { team: team._id, teamName: team.name, submittedBy: studentId }),
+            quizVersion: quiz.version,
             responses: scoredResponses,
-            totalMarks: Math.round(totalMarks * 100) / 100,
+            totalMarks,
             maxMarks,
             percentage,
             completedAt: new Date(),
         });
 
+        publishCompletedAttempt(attempt, quiz);
+
         res.status(201).json({
             success: true,
             message: 'Quiz attempt submitted successfully',
             data: {
-                attempt,
+                attempt: toStudentAttempt(attempt),
             },
         });
     }
@@ -314,18 +427,38 @@ export const getQuizAttempts = asyncHandler(
         const skip = (page - 1) * limit;
 
         // Sorting: by default, highest marks first
-        let sort: any = { totalMarks: -1 };
+        let sort: any = { totalMarks: -1, _id: 1 };
         if (req.query.sort === 'recent') {
-            sort = { completedAt: -1 };
+            sort = { completedAt: -1, _id: 1 };
         }
 
-        const [attempts, total] = await Promise.all([
-            QuizAttempt.find({ quizId: req.params.id })
-                .skip(skip)
-                .limit(limit)
-                .sort(sort),
-            QuizAttempt.countDocuments({ quizId: req.params.id }),
-        ]);
+        let attempts: unknown[];
+        let total: number;
+
+        if (req.query.all === 'true') {
+            [attempts, total] = await Promise.all([
+                QuizAttempt.find({ quizId: req.params.id, status: { $ne: 'in_progress' } })
+                    .skip(skip)
+                    .limit(limit)
+                    .sort(sort),
+                QuizAttempt.countDocuments({ quizId: req.params.id, status: { $ne: 'in_progress' } }),
+            ]);
+        } else {
+            // Only the attempt that counts for each student
+            const [result] = await QuizAttempt.aggregate([
+                ...countedAttemptsPipeline(quiz),
+                { $sort: sort },
+                {
+                    $facet: {
+                        attempts: [{ $skip: skip }, { $limit: limit }],
+                        total: [{ $count: 'count' }],
+                    },
+                },
+            ]);
+
+            attempts = result.attempts;
+            total = result.total[0]?.count || 0;
+        }
 
         res.set('X-Total-Count', total.toString());
 
@@ -343,3 +476,628 @@ export const getQuizAttempts = asyncHandler(
         });
     }
 );
+
+/**
+ * @desc    Leaderboard of a team quiz: teams by marks, with their members
+ * @route   GET /api/v1/quizzes/:id/team-leaderboard
+ * @access  Public
+ */
+export const getQuizTeamLeaderboard = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id);
+
+        if (!quiz || (!quiz.isVisible && req.user?.role !== 'admin')) {
+            throw new NotFoundError('Quiz');
+        }
+
+        if (quiz.participation !== 'team') {
+            throw new AppError('This quiz is not a team quiz', 400, 'NOT_TEAM_QUIZ');
+        }
+
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 20;
+
+        const { entries, total } = await getTeamLeaderboard(quiz, { page, limit });
+
+        res.set('X-Total-Count', total.toString());
+
+        res.status(200).json({
+            success: true,
+            data: {
+                quiz: { _id: quiz._id, title: quiz.title, slug: quiz.slug },
+                leaderboard: entries,
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    pages: Math.ceil(total / limit),
+                },
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Per-question item analysis and score histogram for a quiz
+ * @route   GET /api/v1/quizzes/:id/analysis
+ * @access  Private/Admin
+ */
+export const getQuizAnalysis = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const current = await Quiz.findById(req.params.id);
+
+        if (!current) {
+            throw new NotFoundError('Quiz');
+        }
+
+        // Questions differ between versions, so each is analysed on its own
+        const version = req.query.version ? parseInt(req.query.version as string) : current.version;
+        if (version > current.version) {
+            throw new NotFoundError('Quiz version');
+        }
+        const quiz = await quizAtVersion(current, version);
+
+        // By default only the attempt that counts for each student, so that
+        // students who retake a quiz many times do not skew the statistics
+        const attempts =
+            req.query.all === 'true'
+                ? await QuizAttempt.find({ quizId: quiz._id, status: 'completed', ...attemptVersionFilter(version) })
+                      .select('responses percentage variant')
+                      .lean()
+                : await QuizAttempt.aggregate([
+                      { $match: attemptVersionFilter(version) },
+                      ...countedAttemptsPipeline(quiz),
+                      { $project: { responses: 1, percentage: 1, variant: 1 } },
+                  ]);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                quiz: { _id: quiz._id, title: quiz.title, version },
+                analysis: analyzeQuiz(quiz, attempts),
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Import a quiz from a Moodle XML, GIFT or CSV file. With dryRun,
+ *          only report what would be imported and any invalid questions.
+ * @route   POST /api/v1/quizzes/import
+ * @access  Private/Admin
+ */
+export const importQuiz = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        if (!req.file) {
+            throw new ValidationError('Validation failed', { file: 'A quiz file is required' });
+        }
+
+        const format: QuizFileFormat | undefined = req.body.format || detectQuizFileFormat(req.file.originalname);
+        if (!format) {
+            throw new ValidationError('Validation failed', {
+                format: 'Could not tell the format from the file name; send moodle_xml, gift or csv',
+            });
+        }
+
+        const parsed = parseQuizFile(format, req.file.buffer.toString('utf8'), {
+            marks: req.body.marks ?? DEFAULT_IMPORT.marks,
+            timeLimitSeconds: req.body.timeLimitSeconds ?? DEFAULT_IMPORT.timeLimitSeconds,
+        });
+
+        // Imported quizzes stay hidden until an admin has checked them
+        const { quiz, report } = await prepareQuizImport(format, parsed, {
+            title: req.body.title || parsed.title || req.file.originalname.replace(/\.[^.]*$/, ''),
+            description: req.body.description,
+            isVisible: false,
+        });
+
+        if (req.body.dryRun) {
+            res.status(200).json({
+                success: true,
+                message: `${report.valid} of ${report.total} question(s) can be imported`,
+                data: {
+                    report,
+                },
+            });
+            return;
+        }
+
+        if (report.invalid > 0 || report.errors) {
+            const errors: Record<string, string> = { ...report.errors };
+            report.questions.forEach((question) => {
+                Object.entries(question.errors || {}).forEach(([field, message]) => {
+                    errors[`questions.${question.index}.${field}`] = `${question.location}: ${message}`;
+                });
+            });
+
+            throw new ValidationError(`${report.invalid} of ${report.total} question(s) are invalid`, errors);
+        }
+
+        await quiz.save();
+        await recordQuizVersion(quiz, { note: `Imported from ${format}`, publishedBy: req.user?._id });
+
+        res.status(201).json({
+            success: true,
+            message: `Quiz imported with ${quiz.questions.length} question(s)`,
+            data: {
+                quiz,
+                report,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Export a quiz's questions as Moodle XML, GIFT or CSV
+ * @route   GET /api/v1/quizzes/:id/export
+ * @access  Private/Admin
+ */
+export const exportQuiz = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id);
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        const file = exportQuizFile(quiz, (req.query.format as QuizFileFormat) || 'moodle_xml');
+
+        res.setHeader('Content-Type', file.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename=${quiz.slug}.${file.extension}`);
+        res.send(file.content);
+    }
+);
+
+/**
+ * @desc    Get a quiz's unpublished draft
+ * @route   GET /api/v1/quizzes/:id/draft
+ * @access  Private/Admin
+ */
+export const getQuizDraft = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id).select('version draft');
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                version: quiz.version,
+                draft: quiz.draft || null,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Save changes to a quiz's questions and draws as a draft. Students
+ *          keep getting the published version until the draft is published.
+ * @route   PUT /api/v1/quizzes/:id/draft
+ * @access  Private/Admin
+ */
+export const saveQuizDraft = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id);
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        // Questions sent back with their _id stay the same question, so
+        // attempts on earlier versions can be regraded against them
+        const published = quiz.toObject();
+        quiz.draft = {
+            questions: req.body.questions ?? published.questions,
+            draws: req.body.draws ?? published.draws,
+            updatedAt: new Date(),
+        };
+        await quiz.save();
+
+        res.status(200).json({
+            success: true,
+            message: 'Draft saved',
+            data: {
+                version: quiz.version,
+                draft: quiz.draft,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Discard a quiz's draft
+ * @route   DELETE /api/v1/quizzes/:id/draft
+ * @access  Private/Admin
+ */
+export const discardQuizDraft = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findByIdAndUpdate(req.params.id, { $unset: { draft: 1 } });
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Draft discarded',
+            data: null,
+        });
+    }
+);
+
+/**
+ * @desc    Publish a quiz's draft as its next version
+ * @route   POST /api/v1/quizzes/:id/publish
+ * @access  Private/Admin
+ */
+export const publishQuizDraft = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id);
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        if (!quiz.draft) {
+            throw new AppError('This quiz has no draft to publish', 400, 'NO_DRAFT');
+        }
+
+        const { questions, draws } = quiz.toObject().draft!;
+        quiz.questions = questions;
+        quiz.draws = draws;
+
+        const published = await publishQuizVersion(quiz, { note: req.body.note, publishedBy: req.user?._id });
+
+        res.status(200).json({
+            success: true,
+            message: `Version ${published.version} published`,
+            data: {
+                quiz,
+                version: published,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    List a quiz's published versions
+ * @route   GET /api/v1/quizzes/:id/versions
+ * @access  Private/Admin
+ */
+export const getQuizVersions = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id).select('version');
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        const versions = await QuizVersion.find({ quiz: quiz._id })
+            .select('-questions -draws')
+            .populate('publishedBy', 'name email')
+            .sort({ version: -1 });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                currentVersion: quiz.version,
+                versions,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Get the questions and draws of one published version
+ * @route   GET /api/v1/quizzes/:id/versions/:version
+ * @access  Private/Admin
+ */
+export const getQuizVersion = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const version = await QuizVersion.findOne({ quiz: req.params.id, version: req.params.version })
+            .populate('publishedBy', 'name email');
+
+        if (!version) {
+            throw new NotFoundError('Quiz version');
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                version,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Rescore attempts made on earlier versions against the current one.
+ *          With dryRun, only report the scores that would change.
+ * @route   POST /api/v1/quizzes/:id/regrade
+ * @access  Private/Admin
+ */
+export const regradeQuizAttempts = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id);
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        const dryRun = req.body.dryRun === true;
+        const regrade = await regradeQuiz(quiz, {
+            versions: req.body.versions,
+            dryRun,
+            performedBy: req.user?._id,
+        });
+
+        res.status(200).json({
+            success: true,
+            message: dryRun
+                ? `${regrade.attemptsChanged} of ${regrade.attemptsChecked} attempt(s) would change`
+                : `${regrade.attemptsChanged} of ${regrade.attemptsChecked} attempt(s) regraded`,
+            data: {
+                regrade,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Score a sample set of responses under the quiz's scoring rules,
+ *          or under changed rules sent with them, without saving anything
+ * @route   POST /api/v1/quizzes/:id/scoring-preview
+ * @access  Private/Admin
+ */
+export const previewQuizScoring = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id);
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        const rules = { ...quiz.toObject().scoringRules, ...req.body.scoringRules };
+        const preview = previewScoring(quiz.questions, req.body.responses, rules, { isTimed: quiz.isTimed });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                preview,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Audit trail of a quiz's regrades, newest first
+ * @route   GET /api/v1/quizzes/:id/regrades
+ * @access  Private/Admin
+ */
+export const getQuizRegrades = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const regrades = await QuizRegrade.find({ quiz: req.params.id })
+            .populate('performedBy', 'name email')
+            .sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                regrades,
+                total: regrades.length,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Whether the logged in student may attempt a quiz, and their attempts so far
+ * @route   GET /api/v1/quizzes/:id/my-status
+ * @access  Private (Student)
+ */
+export const getMyQuizStatus = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id);
+
+        if (!quiz || !quiz.isVisible) {
+            throw new NotFoundError('Quiz');
+        }
+
+        const student = req.student!;
+
+        if (quiz.participation === 'team') {
+            res.status(200).json({
+                success: true,
+                data: {
+                    participation: quiz.participation,
+                    isOpen: quiz.isOpen,
+                    opensAt: quiz.opensAt,
+                    closesAt: quiz.closesAt,
+                    isEligible: isEligible(quiz, student),
+                    requiresAccessCode: !!quiz.accessCode,
+                    teamAnswerers: quiz.teamAnswerers,
+                    teams: await getTeamQuizStatus(quiz, student),
+                },
+            });
+            return;
+        }
+
+        const [attemptsUsed, inProgress] = await Promise.all([
+            countUsedAttempts(quiz, student),
+            QuizAttempt.findOne({ quizId: quiz._id, studentId: student._id, status: 'in_progress' }).select('_id'),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                participation: quiz.participation,
+                isOpen: quiz.isOpen,
+                opensAt: quiz.opensAt,
+                closesAt: quiz.closesAt,
+                isEligible: isEligible(quiz, student),
+                requiresAccessCode: !!quiz.accessCode,
+                attemptsUsed,
+                maxAttempts: quiz.maxAttempts ?? null,
+                attemptsLeft: quiz.maxAttempts ? Math.max(0, quiz.maxAttempts - attemptsUsed) : null,
+                attemptScoring: quiz.attemptScoring,
+                inProgressAttemptId: inProgress?._id ?? null,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Start (or resume) an attempt at a quiz
+ * @route   POST /api/v1/quizzes/:id/attempts/start
+ * @access  Private (Student)
+ */
+export const startQuizAttempt = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const quiz = await Quiz.findById(req.params.id);
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        if (!quiz.isVisible) {
+            throw new AppError('This quiz is not available', 403);
+        }
+
+        const attempt = await startAttempt(quiz, req.student!, req.body.accessCode, req.body.teamId);
+
+        res.status(201).json({
+            success: true,
+            data: {
+                attemptId: attempt._id,
+                totalQuestions: attempt.variant?.length ?? quiz.questions.length,
+                answered: attempt.responses.length,
+                isTimed: quiz.isTimed,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Get the next question of an attempt (starts its timer)
+ * @route   POST /api/v1/quizzes/attempts/:attemptId/next
+ * @access  Private (Student)
+ */
+export const getNextQuestion = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const next = await serveNextQuestion(req.params.attemptId, req.student!._id);
+
+        res.status(200).json({
+            success: true,
+            data: next
+                ? { done: false, ...next }
+                : { done: true },
+        });
+    }
+);
+
+/**
+ * @desc    Answer the question currently served
+ * @route   POST /api/v1/quizzes/attempts/:attemptId/answer
+ * @access  Private (Student)
+ */
+export const answerAttemptQuestion = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const response = await answerQuestion(
+            req.params.attemptId,
+            req.student!._id,
+            req.body.questionId,
+            req.body
+        );
+
+        res.status(200).json({
+            success: true,
+            message: 'Answer recorded',
+            data: {
+                questionId: response.questionId,
+                responseTimeSeconds: response.responseTimeSeconds,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Finish an attempt and get its score
+ * @route   POST /api/v1/quizzes/attempts/:attemptId/finish
+ * @access  Private (Student)
+ */
+export const finishQuizAttempt = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const attempt = await finishAttempt(req.params.attemptId, req.student!._id);
+
+        res.status(200).json({
+            success: true,
+            message: 'Quiz attempt submitted successfully',
+            data: {
+                attempt: toStudentAttempt(attempt),
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Review a completed attempt with correct answers and explanations
+ * @route   GET /api/v1/quizzes/attempts/:attemptId/review
+ * @access  Private (Student)
+ */
+export const reviewQuizAttempt = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const attempt = await QuizAttempt.findById(req.params.attemptId);
+
+        // Every member of a team may review its attempt
+        if (!attempt || !(await isAttemptParticipant(attempt, req.student!._id))) {
+            throw new NotFoundError('Attempt');
+        }
+
+        if (attempt.status !== 'completed') {
+            throw new AppError('Finish the attempt before reviewing it', 400, 'ATTEMPT_NOT_FINISHED');
+        }
+
+        const quiz = await Quiz.findById(attempt.quizId);
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        if (!quiz.allowReview) {
+            throw new AppError('Review is not available for this quiz', 403, 'REVIEW_NOT_ALLOWED');
+        }
+
+        res.status(200).json({
+            success: true,
+            data: toAttemptReview(await quizForAttempt(quiz, attempt), attempt),
+        });
+    }
+);
+
+/**
+ * @desc    Preview the questions, order and answer order an attempt was given
+ * @route   GET /api/v1/quizzes/attempts/:attemptId/variant
+ * @access  Private/Admin
+ */
+export const getAttemptVariantPreview = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const attempt = await QuizAttempt.findById(req.params.attemptId);
+
+        if (!attempt) {
+            throw new NotFoundError('Attempt');
+        }
+
+        const quiz = await Quiz.findById(attempt.quizId);
+
+        if (!quiz) {
+            throw new NotFoundError('Quiz');
+        }
+
+        res.status(200).json({
+            success: true,
+            data: toAttemptVariant(await quizForAttempt(quiz, attempt), attempt),
+        });
+    }
+);
@@ -0,0 +1,235 @@
+// ============================================
+// ComES Backend - Quiz Season Controller
+// ============================================
+
+import { Request, Response } from 'express';
+import { QuizSeason } from '../models/quizSeason.model';
+import { SeasonStanding } from '../models/seasonStanding.model';
+import { Quiz } from '../models/quiz.model';
+import {
+    asyncHandler,
+    NotFoundError,
+    AppError,
+    rebuildSeasonStandings,
+    getSeasonLeaderboard,
+    toPublicStanding,
+} from '../utils';
+
+// Hidden seasons are only found by admins
+const findSeason = async (req: Request) => {
+    const season = await QuizSeason.findById(req.params.id);
+
+    if (!season || (!season.isPublic && req.user?.role !== 'admin')) {
+        throw new NotFoundError('Season');
+    }
+
+    return season;
+};
+
+const assertQuizzesExist = async (quizIds: unknown): Promise<void> => {
+    if (!Array.isArray(quizIds)) return;
+
+    const found = await Quiz.countDocuments({ _id: { $in: quizIds } });
+    if (found !== new Set(quizIds.map(String)).size) {
+        throw new AppError('One or more quizzes do not exist', 400, 'QUIZ_NOT_FOUND');
+    }
+};
+
+/**
+ * @desc    Get all seasons (admins also see hidden ones)
+ * @route   GET /api/v1/quiz-seasons
+ * @access  Public
+ */
+export const getAllSeasons = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const filter: any = req.user?.role === 'admin' ? {} : { isPublic: true };
+
+        const seasons = await QuizSeason.find(filter)
+            .populate('quizzes', 'title slug')
+            .sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                seasons,
+                total: seasons.length,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Get a season with its quizzes
+ * @route   GET /api/v1/quiz-seasons/:id
+ * @access  Public
+ */
+export const getSeason = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const season = await findSeason(req);
+        await season.populate('quizzes', 'title slug');
+
+        res.status(200).json({
+            success: true,
+            data: {
+                season,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Get a season's leaderboard, optionally for one batch
+ * @route   GET /api/v1/quiz-seasons/:id/leaderboard
+ * @access  Public (admins also see students and per-quiz results)
+ */
+export const getLeaderboard = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const season = await findSeason(req);
+
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 20;
+        const batch = req.query.batch as string | undefined;
+        const isAdmin = req.user?.role === 'admin';
+
+        const { standings, total } = await getSeasonLeaderboard(season, { batch, page, limit });
+
+        res.set('X-Total-Count', total.toString());
+
+        res.status(200).json({
+            success: true,
+            data: {
+                season: { _id: season._id, name: season.name, slug: season.slug },
+                leaderboard: standings.map((standing) =>
+                    isAdmin
+                        ? { ...toPublicStanding(standing), student: standing.student, results: standing.results }
+                        : toPublicStanding(standing)
+                ),
+                pagination: {
+                    page,
+                    limit,
+                    total,
+                    pages: Math.ceil(total / limit),
+                },
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Create a season
+ * @route   POST /api/v1/quiz-seasons
+ * @access  Private/Admin
+ */
+export const createSeason = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        await assertQuizzesExist(req.body.quizzes);
+
+        const season = await QuizSeason.create({
+            name: req.body.name,
+            description: req.body.description,
+            quizzes: req.body.quizzes,
+            startsAt: req.body.startsAt,
+            endsAt: req.body.endsAt,
+            isPublic: req.body.isPublic,
+        });
+
+        // Count attempts already made at its quizzes
+        await rebuildSeasonStandings(season);
+
+        res.status(201).json({
+            success: true,
+            message: 'Season created successfully',
+            data: {
+                season,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Update a season. Changing its quizzes or window re-ranks it.
+ * @route   PATCH /api/v1/quiz-seasons/:id
+ * @access  Private/Admin
+ */
+export const updateSeason = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const season = await QuizSeason.findById(req.params.id);
+
+        if (!season) {
+            throw new NotFoundError('Season');
+        }
+
+        await assertQuizzesExist(req.body.quizzes);
+
+        const allowedFields = ['name', 'description', 'quizzes', 'startsAt', 'endsAt', 'isPublic'];
+        allowedFields.forEach((field) => {
+            if (req.body[field] !== undefined) {
+                (season as any)[field] = req.body[field];
+            }
+        });
+
+        const rerank = season.isModified('quizzes') || season.isModified('startsAt') || season.isModified('endsAt');
+
+        await season.save();
+
+        if (rerank) {
+            await rebuildSeasonStandings(season);
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Season updated successfully',
+            data: {
+                season,
+            },
+        });
+    }
+);
+
+/**
+ * @desc    Delete a season and its standings
+ * @route   DELETE /api/v1/quiz-seasons/:id
+ * @access  Private/Admin
+ */
+export const deleteSeason = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const season = await QuizSeason.findByIdAndDelete(req.params.id);
+
+        if (!season) {
+            throw new NotFoundError('Season');
+        }
+
+        await SeasonStanding.deleteMany({ season: season._id });
+
+        res.status(200).json({
+            success: true,
+            message: 'Season deleted successfully',
+            data: null,
+        });
+    }
+);
+
+/**
+ * @desc    Recompute a season's standings from all attempts
+ * @route   POST /api/v1/quiz-seasons/:id/rebuild
+ * @access  Private/Admin
+ */
+export const rebuildSeason = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+        const season = await QuizSeason.findById(req.params.id);
+
+        if (!season) {
+            throw new NotFoundError('Season');
+        }
+
+        const students = await rebuildSeasonStandings(season);
+
+        res.status(200).json({
+            success: true,
+            message: 'Season standings rebuilt',
+            data: {
+                students,
+            },
+        });
+    }
+);
@@ -0,0 +1,132 @@
+// ============================================
+// ComES Backend - Speaker Controller
+// ============================================
+
+import { Request, Response } from 'express';
+import { Speaker, EventSession } from '../models';
+import { asyncHandler, NotFoundError, AppError } from '../utils';
+
+/**
+ * @desc    Get all speakers
+ * @route   GET /api/v1/speakers
+ * @access  Public
+ */
+export const getAllSpeakers = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const filter: any = {};
+
+    if (req.query.search) {
+      filter.name = { $regex: req.query.search, $options: 'i' };
+    }
+
+    const speakers = await Speaker.find(filter).sort({ name: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        speakers,
+        total: speakers.length,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Get single speaker with their sessions
+ * @route   GET /api/v1/speakers/:id
+ * @access  Public
+ */
+export const getSpeaker = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const speaker = await Speaker.findById(req.params.id)
+      .populate('user', 'name avatar')
+      .populate('teamMember', 'name role department avatar');
+
+    if (!speaker) {
+      throw new NotFoundError('Speaker');
+    }
+
+    const sessions = await EventSession.find({ speakers: speaker._id })
+      .populate('event', 'title slug date status')
+      .sort({ startTime: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        speaker,
+        sessions,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Create speaker
+ * @route   POST /api/v1/speakers
+ * @access  Private/Admin
+ */
+export const createSpeaker = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const speaker = await Speaker.create(req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Speaker created successfully',
+      data: {
+        speaker,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Update speaker
+ * @route   PATCH /api/v1/speakers/:id
+ * @access  Private/Admin
+ */
+export const updateSpeaker = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const speaker = await Speaker.findByIdAndUpdate(req.params.id, req.body, {
+      new: true,
+      runValidators: true,
+    });
+
+    if (!speaker) {
+      throw new NotFoundError('Speaker');
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Speaker updated successfully',
+      data: {
+        speaker,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Delete speaker
+ * @route   DELETE /api/v1/speakers/:id
+ * @access  Private/Admin
+ */
+export const deleteSpeaker = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const speaker = await Speaker.findById(req.params.id);
+
+    if (!speaker) {
+      throw new NotFoundError('Speaker');
+    }
+
+    if (await EventSession.exists({ speakers: speaker._id })) {
+      throw new AppError('Remove this speaker from their sessions before deleting them', 400, 'SPEAKER_IN_USE');
+    }
+
+    await speaker.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: 'Speaker deleted successfully',
+    });
+  }
+);
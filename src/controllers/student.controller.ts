@@ -5,11 +5,31 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
-import mongoose from 'mongoose';
-import { Student, IStudent } from '../models/student.model';
-import { Event } from '../models';
-import { asyncHandler, AppError, logger } from '../utils';
-import { sendEmail } from '../utils/email';
+import { Student, IStudent, AcademicStanding } from '../models/student.model';
+import { Event, EventRegistration, IEvent } from '../models';
+import {
+  asyncHandler,
+  AppError,
+  ValidationError,
+  logger,
+  SEATED_STATUSES,
+  registerParticipant,
+  cancelRegistration,
+  joinWaitlist as addToWaitlist,
+  getWaitlistPosition,
+  removeParticipantRegistrations,
+  toQrPayload,
+  parseStudentFile,
+  checkStudentImport,
+  sendStudentInvitation,
+  inviteStudents,
+  standingFilter,
+  advanceBatch,
+  setBatchSemester,
+  setAcademicStanding,
+} from '../utils';
+import { sendEmail, emailTemplates } from '../utils/email';
+import { buildCalendar } from '../utils/ical';
 import config from '../config';
 
 // Generate JWT token
@@ -31,7 +51,8 @@ const createSendToken = (
   student: IStudent,
   statusCode: number,
   req: Request,
-  res: Response
+  res: Response,
+  message?: string
 ): void => {
   const accessToken = signToken(student._id.toString());
   const refreshToken = signRefreshToken(student._id.toString());
@@ -57,7 +78,7 @@ const createSendToken = (
 
   res.status(statusCode).json({
     success: true,
-    message: statusCode === 201 ? 'Student registered successfully' : 'Login successful',
+    message: message || (statusCode === 201 ? 'Student registered successfully' : 'Login successful'),
     data: {
       student: studentResponse,
       accessToken,
@@ -66,6 +87,22 @@ const createSendToken = (
   });
 };
 
+// Email a new verification link. Returns whether the email was sent.
+const sendVerificationEmail = async (student: IStudent): Promise<boolean> => {
+  const verificationToken = student.createEmailVerificationToken();
+  await student.save({ validateBeforeSave: false });
+
+  const verifyUrl = `${config.frontendUrl}/students/verify-email/${verificationToken}`;
+  const template = emailTemplates.emailVerification(student.name, verifyUrl);
+
+  return sendEmail({
+    to: student.email,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+};
+
 /**
  * @desc    Register a new student
  * @route   POST /api/v1/students/register
@@ -101,6 +138,11 @@ export const register = asyncHandler(
       contactNo,
     });
 
+    // Registration goes ahead even if the email fails; it can be resent
+    if (!(await sendVerificationEmail(student))) {
+      logger.warn(`Verification email could not be sent to: ${email}`);
+    }
+
     logger.info(`New student registered: ${email}`);
     createSendToken(student, 201, req, res);
   }
@@ -123,7 +165,10 @@ export const login = asyncHandler(
     // Check if student exists and password is correct
     const student = await Student.findOne({ email }).select('+password');
 
-    if (!student || !(await student.comparePassword(password))) {
+    // Imported students have no password until they activate their account.
+    // They get the same answer as a wrong password, so logins cannot tell
+    // which imported accounts exist.
+    if (!student || student.status === 'invited' || !(await student.comparePassword(password))) {
       throw new AppError('Incorrect email or password', 401);
     }
 
@@ -146,7 +191,7 @@ export const refreshStudentToken = asyncHandler(
     }
 
     try {
-      const decoded = jwt.verify(token, config.jwt.refreshSecret) as { id: string; type?: string };
+      const decoded = jwt.verify(token, config.jwt.refreshSecret) as { id: string; type?: string; iat: number };
 
       if (decoded.type !== 'student') {
         throw new AppError('Invalid token type', 401);
@@ -154,7 +199,7 @@ export const refreshStudentToken = asyncHandler(
 
       const student = await Student.findById(decoded.id);
 
-      if (!student) {
+      if (!student || student.changedPasswordAfter(decoded.iat)) {
         throw new AppError('Invalid refresh token', 401);
       }
 
@@ -209,7 +254,17 @@ export const getProfile = asyncHandler(
 export const updateProfile = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     // Fields that cannot be updated
-    const disallowedFields = ['password', 'email', 'registrationNo', 'batch'];
+    // Semester and standing are kept by admins
+    const disallowedFields = [
+      'password',
+      'email',
+      'registrationNo',
+      'batch',
+      'status',
+      'semester',
+      'standing',
+      'graduationYear',
+    ];
     disallowedFields.forEach((field) => delete req.body[field]);
 
     const student = await Student.findByIdAndUpdate(req.student?._id, req.body, {
@@ -275,6 +330,9 @@ export const getAllStudents = asyncHandler(
     // Build filter
     const filter: Record<string, unknown> = {};
     if (req.query.batch) filter.batch = req.query.batch;
+    if (req.query.status) filter.status = req.query.status;
+    if (req.query.semester) filter.semester = Number(req.query.semester);
+    if (req.query.standing) Object.assign(filter, standingFilter(req.query.standing as AcademicStanding));
     if (req.query.search) {
       filter.$or = [
         { name: { $regex: req.query.search, $options: 'i' } },
@@ -285,7 +343,9 @@ export const getAllStudents = asyncHandler(
 
     const [students, total] = await Promise.all([
       Student.find(filter)
-        .select('-password -emailVerificationToken -emailVerificationExpires -passwordResetToken -passwordResetExpires')
+        .select(
+          '-password -emailVerificationToken -emailVerificationExpires -passwordResetToken -passwordResetExpires -activationToken -activationExpires'
+        )
         .populate('registeredEvents')
         .skip(skip)
         .limit(limit)
@@ -324,8 +384,9 @@ export const searchStudents = asyncHandler(
         { email: { $regex: query, $options: 'i' } },
         { registrationNo: { $regex: query, $options: 'i' } },
       ],
+      ...(req.query.standing && standingFilter(req.query.standing as AcademicStanding)),
     })
-      .select('name email registrationNo avatar')
+      .select('name email registrationNo avatar batch standing')
       .limit(10);
 
     res.status(200).json({
@@ -357,10 +418,159 @@ export const changePassword = asyncHandler(
     student.password = newPassword;
     await student.save();
 
-    res.status(200).json({
-      success: true,
-      message: 'Password changed successfully',
+    // Tokens issued before the change no longer work, so send new ones
+    createSendToken(student, 200, req, res, 'Password changed successfully');
+  }
+);
+
+/**
+ * @desc    Forgot password - send reset email
+ * @route   POST /api/v1/students/forgot-password
+ * @access  Public
+ */
+export const forgotPassword = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const { email } = req.body;
+    const message = 'If a student account with that email exists, a password reset link has been sent.';
+
+    const student = await Student.findOne({ email });
+
+    // Always return success to prevent email enumeration
+    if (!student) {
+      res.status(200).json({ success: true, message });
+      return;
+    }
+
+    // Generate reset token
+    const resetToken = student.createPasswordResetToken();
+    await student.save({ validateBeforeSave: false });
+
+    const resetUrl = `${config.frontendUrl}/students/reset-password/${resetToken}`;
+    const template = emailTemplates.passwordReset(student.name, resetUrl);
+    const emailSent = await sendEmail({
+      to: email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+    });
+
+    if (!emailSent) {
+      student.passwordResetToken = undefined;
+      student.passwordResetExpires = undefined;
+      await student.save({ validateBeforeSave: false });
+
+      throw new AppError('There was an error sending the email. Please try again later.', 500);
+    }
+
+    logger.info(`Student password reset email sent to: ${email}`);
+
+    res.status(200).json({ success: true, message });
+  }
+);
+
+/**
+ * @desc    Reset password with the token from the reset email. Signs the
+ *          student out everywhere else.
+ * @route   PATCH /api/v1/students/reset-password/:token
+ * @access  Public
+ */
+export const resetPassword = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const hashedToken = crypto
+      .createHash('sha256')
+      .update(req.params.token)
+      .digest('hex');
+
+    const student = await Student.findOne({
+      passwordResetToken: hashedToken,
+      passwordResetExpires: { $gt: Date.now() },
     });
+
+    if (!student) {
+      throw new AppError('Token is invalid or has expired', 400);
+    }
+
+    student.password = req.body.password;
+    student.passwordResetToken = undefined;
+    student.passwordResetExpires = undefined;
+    // The reset link was opened from the student's inbox, which also
+    // activates invited accounts
+    student.status = 'active';
+    student.activationToken = undefined;
+    student.activationExpires = undefined;
+    student.isEmailVerified = true;
+    student.emailVerificationToken = undefined;
+    student.emailVerificationExpires = undefined;
+    await student.save();
+
+    logger.info(`Student password reset successful for: ${student.email}`);
+
+    createSendToken(student, 200, req, res, 'Password reset successfully');
+  }
+);
+
+/**
+ * @desc    Resend the email verification link
+ * @route   POST /api/v1/students/resend-verification
+ * @access  Public
+ */
+export const resendVerification = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const message = 'If an unverified student account with that email exists, a verification link has been sent.';
+
+    const student = await Student.findOne({ email: req.body.email });
+
+    // Same response either way to prevent email enumeration. Invited
+    // students verify their email by activating their account.
+    if (!student || student.isEmailVerified || student.status === 'invited') {
+      res.status(200).json({ success: true, message });
+      return;
+    }
+
+    if (!(await sendVerificationEmail(student))) {
+      throw new AppError('There was an error sending the email. Please try again later.', 500);
+    }
+
+    logger.info(`Student verification email resent to: ${student.email}`);
+
+    res.status(200).json({ success: true, message });
+  }
+);
+
+/**
+ * @desc    Activate an invited account by choosing a password. The link
+ *          works once.
+ * @route   POST /api/v1/students/activate/:token
+ * @access  Public
+ */
+export const activateAccount = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const hashedToken = crypto
+      .createHash('sha256')
+      .update(req.params.token)
+      .digest('hex');
+
+    const student = await Student.findOne({
+      activationToken: hashedToken,
+      activationExpires: { $gt: Date.now() },
+      status: 'invited',
+    });
+
+    if (!student) {
+      throw new AppError('Activation link is invalid or has expired', 400);
+    }
+
+    student.password = req.body.password;
+    student.status = 'active';
+    student.activationToken = undefined;
+    student.activationExpires = undefined;
+    // The link was opened from the student's inbox
+    student.isEmailVerified = true;
+    await student.save();
+
+    logger.info(`Student account activated: ${student.email}`);
+
+    createSendToken(student, 200, req, res, 'Account activated successfully');
   }
 );
 
@@ -394,82 +604,252 @@ export const getMyEvents = asyncHandler(
  */
 export const registerForEvent = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
-    const { eventId } = req.params;
-    const studentId = req.student?._id;
+    const registration = await registerParticipant(
+      req.params.eventId,
+      'Student',
+      req.student!._id,
+      req.body.answers
+    );
 
-    const event = await Event.findById(eventId);
-    if (!event) {
-      throw new AppError('Event not found', 404);
-    }
+    res.status(200).json({
+      success: true,
+      message: 'Successfully registered for the event',
+      data: {
+        registration,
+        ticketCode: registration.ticketCode,
+        qrPayload: toQrPayload(registration.ticketCode),
+      },
+    });
+  }
+);
 
-    // Check if already registered
-    const student = await Student.findById(studentId);
-    if (!student) {
-      throw new AppError('Student not found', 404);
+/**
+ * @desc    Unregister from an event
+ * @route   DELETE /api/v1/students/events/:eventId/unregister
+ * @access  Private (Student)
+ */
+export const unregisterFromEvent = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const registration = await cancelRegistration(req.params.eventId, 'Student', req.student!._id, ['confirmed']);
+
+    if (!registration) {
+      throw new AppError('You are not registered for this event', 400);
     }
 
-    if (student.registeredEvents.includes(event._id)) {
-      throw new AppError('Already registered for this event', 400);
+    res.status(200).json({
+      success: true,
+      message: 'Successfully unregistered from the event',
+    });
+  }
+);
+
+/**
+ * @desc    Join the waitlist of a full event
+ * @route   POST /api/v1/students/events/:eventId/waitlist
+ * @access  Private (Student)
+ */
+export const joinWaitlist = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const registration = await addToWaitlist(req.params.eventId, 'Student', req.student!._id, req.body.answers);
+
+    // The student may have been promoted straight away if a seat just freed up
+    if (registration.status === 'confirmed') {
+      res.status(200).json({
+        success: true,
+        message: 'A spot opened up and you have been registered for the event',
+        data: { registration },
+      });
+      return;
     }
 
-    // Check capacity
-    if (event.maxParticipants && event.registrations.length >= event.maxParticipants) {
-      throw new AppError('Event is at full capacity', 400);
+    const [position, waitlistCount] = await Promise.all([
+      getWaitlistPosition(registration),
+      EventRegistration.countDocuments({ event: registration.event, status: 'waitlisted' }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: 'Successfully joined the waitlist',
+      data: {
+        registration,
+        position,
+        waitlistCount,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Leave the waitlist of an event
+ * @route   DELETE /api/v1/students/events/:eventId/waitlist
+ * @access  Private (Student)
+ */
+export const leaveWaitlist = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const registration = await cancelRegistration(req.params.eventId, 'Student', req.student!._id, ['waitlisted']);
+
+    if (!registration) {
+      throw new AppError('You are not on the waitlist for this event', 400);
     }
 
-    // Register student
-    student.registeredEvents.push(event._id);
-    event.registrations.push(studentId!);
+    res.status(200).json({
+      success: true,
+      message: 'Successfully left the waitlist',
+    });
+  }
+);
 
-    await Promise.all([student.save(), event.save()]);
+/**
+ * @desc    Get own position on an event waitlist
+ * @route   GET /api/v1/students/events/:eventId/waitlist
+ * @access  Private (Student)
+ */
+export const getMyWaitlistPosition = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const registration = await EventRegistration.findOne({
+      event: req.params.eventId,
+      participantType: 'Student',
+      participant: req.student!._id,
+      status: 'waitlisted',
+    });
+
+    if (!registration) {
+      throw new AppError('You are not on the waitlist for this event', 404);
+    }
+
+    const [position, waitlistCount] = await Promise.all([
+      getWaitlistPosition(registration),
+      EventRegistration.countDocuments({ event: registration.event, status: 'waitlisted' }),
+    ]);
 
     res.status(200).json({
       success: true,
-      message: 'Successfully registered for the event',
+      data: {
+        position,
+        joinedAt: registration.waitlistedAt,
+        waitlistCount,
+      },
     });
   }
 );
 
 /**
- * @desc    Unregister from an event
- * @route   DELETE /api/v1/students/events/:eventId/unregister
+ * @desc    Get own ticket for a registered event
+ * @route   GET /api/v1/students/events/:eventId/ticket
  * @access  Private (Student)
  */
-export const unregisterFromEvent = asyncHandler(
+export const getMyTicket = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
     const { eventId } = req.params;
-    const studentId = req.student?._id;
 
-    const [student, event] = await Promise.all([
-      Student.findById(studentId),
-      Event.findById(eventId),
-    ]);
+    const event = await Event.findById(eventId).select('title date location');
+    if (!event) {
+      throw new AppError('Event not found', 404);
+    }
+
+    const registration = await EventRegistration.findOne({
+      event: event._id,
+      participantType: 'Student',
+      participant: req.student!._id,
+      status: { $in: SEATED_STATUSES },
+    }).select('+ticketCode');
+
+    if (!registration) {
+      throw new AppError('You are not registered for this event', 400);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        event: {
+          _id: event._id,
+          title: event.title,
+          date: event.date,
+          location: event.location,
+        },
+        status: registration.status,
+        ticketCode: registration.ticketCode,
+        qrPayload: toQrPayload(registration.ticketCode),
+        checkedInAt: registration.checkedInAt,
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Create (or rotate) own private calendar feed URL
+ * @route   POST /api/v1/students/me/calendar
+ * @access  Private (Student)
+ */
+export const createCalendarFeed = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const student = await Student.findById(req.student!._id);
 
     if (!student) {
       throw new AppError('Student not found', 404);
     }
 
-    if (!event) {
-      throw new AppError('Event not found', 404);
-    }
+    // Issuing a new token invalidates any previously shared feed URL
+    const token = student.createCalendarToken();
+    await student.save({ validateBeforeSave: false });
 
-    // Remove from both
-    student.registeredEvents = student.registeredEvents.filter(
-      (id) => id.toString() !== eventId
-    );
-    event.registrations = event.registrations.filter(
-      (id: mongoose.Types.ObjectId) => id.toString() !== studentId?.toString()
-    );
+    const feedUrl = `${req.protocol}://${req.get('host')}/api/v1/students/calendar/${token}.ics`;
 
-    await Promise.all([student.save(), event.save()]);
+    res.status(201).json({
+      success: true,
+      message: 'Calendar feed created. Keep this URL private.',
+      data: {
+        feedUrl,
+        webcalUrl: feedUrl.replace(/^https?:/, 'webcal:'),
+      },
+    });
+  }
+);
+
+/**
+ * @desc    Revoke own private calendar feed URL
+ * @route   DELETE /api/v1/students/me/calendar
+ * @access  Private (Student)
+ */
+export const revokeCalendarFeed = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    await Student.updateOne({ _id: req.student!._id }, { $unset: { calendarToken: 1 } });
 
     res.status(200).json({
       success: true,
-      message: 'Successfully unregistered from the event',
+      message: 'Calendar feed revoked',
     });
   }
 );
 
+/**
+ * @desc    Get a student's private calendar feed of registered events
+ * @route   GET /api/v1/students/calendar/:token.ics
+ * @access  Public (tokenized)
+ */
+export const getStudentCalendarFeed = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const hashedToken = crypto
+      .createHash('sha256')
+      .update(req.params.token)
+      .digest('hex');
+
+    const student = await Student.findOne({ calendarToken: hashedToken }).populate('registeredEvents');
+
+    if (!student) {
+      throw new AppError('Calendar feed not found', 404);
+    }
+
+    const events = (student.registeredEvents as unknown as IEvent[])
+      .filter(Boolean)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename=my-comes-events.ics');
+    res.send(buildCalendar(events, 'My ComES Events'));
+  }
+);
+
 /**
  * @desc    Get student portfolio by username (Public)
  * @route   GET /api/v1/students/portfolio/:username
@@ -510,15 +890,12 @@ export const deleteAccount = asyncHandler(
       throw new AppError('Student not found', 404);
     }
 
-    // Remove student from all registered events
-    await Event.updateMany(
-      { registrations: studentId },
-      { $pull: { registrations: studentId } }
-    );
-
     // Delete the student account
     await Student.findByIdAndDelete(studentId);
 
+    // Free their seats and waitlist places
+    await removeParticipantRegistrations('Student', studentId);
+
     // Clear cookies
     res.cookie('studentJwt', '', {
       expires: new Date(0),
@@ -538,6 +915,146 @@ export const deleteAccount = asyncHandler(
   }
 );
 
+/**
+ * @desc    Import students from a CSV file with registrationNo, name and
+ *          email columns. Every row is checked first; with dryRun only the
+ *          report is returned. Accounts are created as invited and each
+ *          student is emailed an activation link.
+ * @route   POST /api/v1/students/import
+ * @access  Private (Admin)
+ */
+export const importStudents = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    if (!req.file) {
+      throw new ValidationError('Validation failed', { file: 'A CSV file is required' });
+    }
+
+    const report = await checkStudentImport(parseStudentFile(req.file.buffer.toString('utf8')));
+
+    if (req.body.dryRun) {
+      res.status(200).json({
+        success: true,
+        message: `${report.valid} of ${report.total} student(s) can be imported`,
+        data: { report },
+      });
+      return;
+    }
+
+    if (report.invalid > 0) {
+      const errors: Record<string, string> = {};
+      report.rows.forEach((row) => {
+        Object.entries(row.errors || {}).forEach(([field, message]) => {
+          errors[`rows.${row.row}.${field}`] = `Row ${row.row}: ${message}`;
+        });
+      });
+
+      throw new ValidationError(`${report.invalid} of ${report.total} row(s) are invalid`, errors);
+    }
+
+    const invitations = await inviteStudents(report.rows);
+    const created = invitations.filter((i) => i.studentId).length;
+    const emailed = invitations.filter((i) => i.emailSent).length;
+
+    logger.info(`${created} student(s) imported by admin: ${req.user?.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: `${created} student(s) invited, ${emailed} activation email(s) sent`,
+      data: { report, invitations },
+    });
+  }
+);
+
+/**
+ * @desc    Send an invited student a new activation link
+ * @route   POST /api/v1/students/:id/invite
+ * @access  Private (Admin)
+ */
+export const resendInvitation = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const student = await Student.findById(req.params.id);
+
+    if (!student) {
+      throw new AppError('Student not found', 404);
+    }
+
+    if (student.status !== 'invited') {
+      throw new AppError('This student has already activated their account', 409, 'ALREADY_ACTIVE');
+    }
+
+    if (!(await sendStudentInvitation(student))) {
+      throw new AppError('There was an error sending the email. Please try again later.', 500);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Activation email sent',
+    });
+  }
+);
+
+/**
+ * @desc    Move a batch's current students on to the next semester. Those
+ *          who finished semester 8 become alumni.
+ * @route   POST /api/v1/students/batches/:batch/advance
+ * @access  Private (Admin)
+ */
+export const advanceStudentBatch = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const result = await advanceBatch(req.params.batch, req.body.graduationYear);
+
+    logger.info(
+      `Batch ${result.batch} advanced by admin ${req.user?.email}: ${result.advanced} advanced, ${result.graduated} graduated`
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `${result.advanced} student(s) advanced, ${result.graduated} graduated`,
+      data: { result },
+    });
+  }
+);
+
+/**
+ * @desc    Put a batch's current students on a semester
+ * @route   PATCH /api/v1/students/batches/:batch/semester
+ * @access  Private (Admin)
+ */
+export const setStudentBatchSemester = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const updated = await setBatchSemester(req.params.batch, req.body.semester);
+
+    res.status(200).json({
+      success: true,
+      message: `${updated} student(s) moved to semester ${req.body.semester}`,
+      data: { batch: req.params.batch, semester: req.body.semester, updated },
+    });
+  }
+);
+
+/**
+ * @desc    Set a student's semester, standing or graduation year
+ * @route   PATCH /api/v1/students/:id/academic
+ * @access  Private (Admin)
+ */
+export const updateAcademicStanding = asyncHandler(
+  async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
+    const student = await Student.findById(req.params.id);
+
+    if (!student) {
+      throw new AppError('Student not found', 404);
+    }
+
+    setAcademicStanding(student, req.body);
+    await student.save({ validateModifiedOnly: true });
+
+    res.status(200).json({
+      success: true,
+      data: { student },
+    });
+  }
+);
+
 /**
  * @desc    Delete student account by admin
  * @route   DELETE /api/v1/students/:id
@@ -553,15 +1070,12 @@ export const deleteStudentByAdmin = asyncHandler(
       throw new AppError('Student not found', 404);
     }
 
-    // Remove student from all registered events
-    await Event.updateMany(
-      { registrations: id },
-      { $pull: { registrations: id } }
-    );
-
     // Delete the student account
     await Student.findByIdAndDelete(id);
 
+    // Free their seats and waitlist places
+    await removeParticipantRegistrations('Student', id);
+
     logger.info(`Student account deleted by admin: ${id}`);
 
     res.status(200).json({
@@ -637,19 +1151,25 @@ export const sendNotificationToStudent = asyncHandler(
 );
 
 /**
- * @desc    Send notification to all students
+ * @desc    Send notification to all students, or only those of one
+ *          standing, batch or semester
  * @route   POST /api/v1/students/notify-all
  * @access  Private (Admin)
  */
 export const sendNotificationToAllStudents = asyncHandler(
   async (req: Request, res: Response, _next: NextFunction): Promise<void> => {
-    const { subject, message } = req.body;
+    const { subject, message, standing, batch, semester } = req.body;
 
     if (!subject || !message) {
       throw new AppError('Subject and message are required', 400);
     }
 
-    const students = await Student.find().select('name email');
+    // Optionally only students of one standing, batch or semester
+    const students = await Student.find({
+      ...(standing && standingFilter(standing)),
+      ...(batch && { batch }),
+      ...(semester && { semester }),
+    }).select('name email');
 
     if (students.length === 0) {
       throw new AppError('No students found to notify', 404);
@@ -186,6 +186,11 @@ export const protectStudent = asyncHandler(
         throw new AuthenticationError('The student belonging to this token no longer exists.');
       }
 
+      // Check if student changed password after the token was issued
+      if (currentStudent.changedPasswordAfter(decoded.iat)) {
+        throw new AuthenticationError('Student recently changed password. Please log in again.');
+      }
+
       // Grant access to protected route
       req.student = currentStudent;
       next();
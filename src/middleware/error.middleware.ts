@@ -6,6 +6,7 @@ import { Request, Response, NextFunction } from 'express';
 import { AppError, ValidationError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import mongoose from 'mongoose';
+import multer from 'multer';
 
 interface ErrorResponse {
   success: false;
@@ -47,6 +48,14 @@ const handleJWTExpiredError = (): AppError => {
   return new AppError('Your token has expired. Please log in again.', 401, 'TOKEN_EXPIRED');
 };
 
+// Handle file upload errors
+const handleUploadError = (err: multer.MulterError): AppError => {
+  if (err.code === 'LIMIT_FILE_SIZE') {
+    return new AppError('File is too large', 400, 'FILE_TOO_LARGE');
+  }
+  return new AppError(err.message, 400, 'UPLOAD_ERROR');
+};
+
 // Send error response in development
 const sendErrorDev = (err: AppError, res: Response): void => {
   const response: ErrorResponse = {
@@ -126,6 +135,9 @@ export const errorHandler = (
   if (err.name === 'TokenExpiredError') {
     error = handleJWTExpiredError();
   }
+  if (err instanceof multer.MulterError) {
+    error = handleUploadError(err);
+  }
 
   // Send response based on environment
   if (process.env.NODE_ENV === 'development') {
@@ -4,6 +4,7 @@
 
 export { errorHandler, notFound } from './error.middleware';
 export { protect, optionalAuth, restrictTo, ownerOrAdmin, protectStudent } from './auth.middleware';
+export { uploadSingleFile } from './upload.middleware';
 export { 
   validate, 
   commonValidations, 
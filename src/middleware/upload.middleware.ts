@@ -0,0 +1,20 @@
+// ============================================
+// ComES Backend - File Upload Middleware
+// ============================================
+
+import multer from 'multer';
+import config from '../config';
+
+// Uploads that are read and then discarded stay in memory
+const memoryUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.upload.maxFileSize,
+    files: 1,
+  },
+});
+
+/**
+ * Accept a single file in the given multipart field as req.file
+ */
+export const uploadSingleFile = (field: string) => memoryUpload.single(field);
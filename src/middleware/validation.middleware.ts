@@ -4,31 +4,52 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { validationResult, ValidationChain, body, param, query } from 'express-validator';
+import { Event, IRegistrationField } from '../models/event.model';
+import {
+  QUESTION_TYPES,
+  QUESTION_DIFFICULTIES,
+  ATTEMPT_SCORING,
+  QUIZ_PARTICIPATION,
+  TEAM_ANSWERERS,
+  SCORING_STRATEGIES,
+  MAX_CHOICES,
+  getQuestionShapeError,
+} from '../models/quiz.model';
+import { QUIZ_FILE_FORMATS } from '../utils/quizFormats';
 import { ValidationError } from '../utils/errors';
+import { asyncHandler } from '../utils/asyncHandler';
 
 /**
- * Middleware to handle validation results
+ * Run validations against a request, throwing a ValidationError on failure
  */
-export const validate = (validations: ValidationChain[]) => {
-  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    // Run all validations
-    await Promise.all(validations.map((validation) => validation.run(req)));
+export const runValidations = async (req: Request, validations: ValidationChain[]): Promise<void> => {
+  // Run all validations
+  await Promise.all(validations.map((validation) => validation.run(req)));
 
-    const errors = validationResult(req);
+  const errors = validationResult(req);
 
-    if (errors.isEmpty()) {
-      return next();
+  if (errors.isEmpty()) {
+    return;
+  }
+
+  // Format errors
+  const formattedErrors: Record<string, string> = {};
+  errors.array().forEach((error) => {
+    if (error.type === 'field') {
+      formattedErrors[error.path] = error.msg;
     }
+  });
 
-    // Format errors
-    const formattedErrors: Record<string, string> = {};
-    errors.array().forEach((error) => {
-      if (error.type === 'field') {
-        formattedErrors[error.path] = error.msg;
-      }
-    });
+  throw new ValidationError('Validation failed', formattedErrors);
+};
 
-    throw new ValidationError('Validation failed', formattedErrors);
+/**
+ * Middleware to handle validation results
+ */
+export const validate = (validations: ValidationChain[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await runValidations(req, validations);
+    next();
   };
 };
 
@@ -222,6 +243,277 @@ export const eventValidations = {
       .isIn(['upcoming', 'ongoing', 'completed', 'cancelled'])
       .withMessage('Invalid status'),
   ],
+
+  checkIn: [
+    body('ticketCode')
+      .isString()
+      .trim()
+      .notEmpty()
+      .withMessage('Ticket code is required'),
+  ],
+
+  createSession: [
+    body('title')
+      .trim()
+      .isLength({ min: 2, max: 200 })
+      .withMessage('Title must be between 2 and 200 characters'),
+    body('startTime')
+      .isISO8601()
+      .withMessage('Invalid start time'),
+    body('endTime')
+      .isISO8601()
+      .withMessage('Invalid end time'),
+  ],
+
+  updateSession: [
+    body('title')
+      .optional()
+      .trim()
+      .isLength({ min: 2, max: 200 })
+      .withMessage('Title must be between 2 and 200 characters'),
+    body('startTime')
+      .optional()
+      .isISO8601()
+      .withMessage('Invalid start time'),
+    body('endTime')
+      .optional()
+      .isISO8601()
+      .withMessage('Invalid end time'),
+  ],
+
+  session: [
+    body('type')
+      .optional()
+      .isIn(['talk', 'workshop', 'panel', 'keynote', 'break', 'other'])
+      .withMessage('Invalid session type'),
+    body('speakers')
+      .optional()
+      .isArray()
+      .withMessage('Speakers must be an array of speaker IDs'),
+    body('speakers.*')
+      .isMongoId()
+      .withMessage('Invalid speaker ID'),
+    body('capacity')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('Capacity must be a positive integer'),
+    body('requiresRegistration')
+      .optional()
+      .isBoolean()
+      .withMessage('requiresRegistration must be a boolean'),
+  ],
+
+  registrationForm: [
+    body('registrationForm')
+      .optional()
+      .isArray({ max: 50 })
+      .withMessage('Registration form must be an array of at most 50 fields'),
+    body('registrationForm.*.key')
+      .matches(/^[a-zA-Z][a-zA-Z0-9_]*$/)
+      .withMessage('Field key must start with a letter and contain only letters, digits and underscores'),
+    body('registrationForm.*.label')
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Field label must be between 1 and 200 characters'),
+    body('registrationForm.*.type')
+      .isIn(['text', 'select', 'multiselect', 'checkbox', 'number', 'file'])
+      .withMessage('Invalid field type'),
+    body('registrationForm.*.required')
+      .optional()
+      .isBoolean()
+      .withMessage('required must be a boolean'),
+    body('registrationForm.*.options')
+      .optional()
+      .isArray({ min: 1 })
+      .withMessage('Options must be a non-empty array'),
+    body('registrationForm.*.pattern')
+      .optional()
+      .custom((value) => {
+        new RegExp(value);
+        return true;
+      })
+      .withMessage('Field pattern must be a valid regular expression'),
+  ],
+};
+
+// ============================================
+// Event Registration Form Validations
+// ============================================
+
+/**
+ * Build validation chains for the answers to an event's registration form
+ */
+export const registrationFormValidations = (fields: IRegistrationField[]): ValidationChain[] => {
+  return fields.map((field) => {
+    const chain = body(`answers.${field.key}`);
+    // 0 is a valid number answer, so only null/undefined count as empty there
+    const empty = field.type === 'number' ? 'null' : 'falsy';
+
+    if (field.required) {
+      chain.exists({ values: empty }).withMessage(`${field.label} is required`).bail();
+    } else {
+      chain.optional({ values: empty });
+    }
+
+    switch (field.type) {
+      case 'text':
+        chain
+          .isString()
+          .withMessage(`${field.label} must be text`)
+          .bail()
+          .trim()
+          .isLength({ min: field.minLength ?? 0, max: field.maxLength ?? 1000 })
+          .withMessage(`${field.label} must be between ${field.minLength ?? 0} and ${field.maxLength ?? 1000} characters`);
+        if (field.pattern) {
+          chain.matches(new RegExp(field.pattern)).withMessage(`${field.label} is not in the expected format`);
+        }
+        break;
+
+      case 'number':
+        chain
+          .isFloat({ min: field.min, max: field.max })
+          .withMessage(
+            field.min !== undefined || field.max !== undefined
+              ? `${field.label} must be a number between ${field.min ?? '-∞'} and ${field.max ?? '∞'}`
+              : `${field.label} must be a number`
+          )
+          .toFloat();
+        break;
+
+      case 'select':
+        chain
+          .isIn(field.options || [])
+          .withMessage(`${field.label} must be one of: ${(field.options || []).join(', ')}`);
+        break;
+
+      case 'multiselect':
+        chain
+          .isArray({ min: field.required ? Math.max(field.min ?? 1, 1) : field.min ?? 0, max: field.max })
+          .withMessage(`${field.label} has an invalid number of selections`)
+          .bail()
+          .custom((values: unknown[]) => values.every((value) => (field.options || []).includes(value as string)))
+          .withMessage(`${field.label} must only contain: ${(field.options || []).join(', ')}`);
+        break;
+
+      case 'checkbox':
+        chain.isBoolean().withMessage(`${field.label} must be true or false`).toBoolean(true);
+        break;
+
+      case 'file':
+        chain
+          .isURL({ protocols: ['http', 'https'], require_protocol: true })
+          .withMessage(`${field.label} must be a valid file URL`);
+        break;
+    }
+
+    return chain;
+  });
+};
+
+/**
+ * Validate `req.body.answers` against the registration form of the event
+ * in the given route param, keeping only answers to fields on the form
+ */
+export const validateRegistrationForm = (paramName: string = 'id') => {
+  return asyncHandler(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const event = await Event.findById(req.params[paramName]).select('registrationForm');
+
+    // Unknown events are reported by the registration handler
+    if (!event) {
+      return next();
+    }
+
+    const fields = event.registrationForm || [];
+    const submitted = req.body.answers;
+
+    if (submitted !== undefined && (typeof submitted !== 'object' || submitted === null || Array.isArray(submitted))) {
+      throw new ValidationError('Validation failed', { answers: 'Answers must be an object keyed by field' });
+    }
+
+    await runValidations(req, registrationFormValidations(fields));
+
+    const answers: Record<string, unknown> = {};
+    for (const field of fields) {
+      const value = req.body.answers?.[field.key];
+      if (value !== undefined && value !== null && value !== '') {
+        answers[field.key] = value;
+      }
+    }
+    req.body.answers = answers;
+
+    next();
+  });
+};
+
+// ============================================
+// Feedback Survey Validations
+// ============================================
+
+export const feedbackValidations = {
+  createSurvey: [
+    body('title')
+      .trim()
+      .isLength({ min: 2, max: 200 })
+      .withMessage('Title must be between 2 and 200 characters'),
+    body('questions')
+      .isArray({ min: 1, max: 30 })
+      .withMessage('A survey must have between 1 and 30 questions'),
+  ],
+
+  updateSurvey: [
+    body('title')
+      .optional()
+      .trim()
+      .isLength({ min: 2, max: 200 })
+      .withMessage('Title must be between 2 and 200 characters'),
+    body('questions')
+      .optional()
+      .isArray({ min: 1, max: 30 })
+      .withMessage('A survey must have between 1 and 30 questions'),
+  ],
+
+  survey: [
+    body('questions.*.text')
+      .trim()
+      .isLength({ min: 2, max: 500 })
+      .withMessage('Question text must be between 2 and 500 characters'),
+    body('questions.*.type')
+      .isIn(['rating', 'nps', 'text'])
+      .withMessage('Question type must be rating, nps or text'),
+    body('questions.*.required')
+      .optional()
+      .isBoolean()
+      .withMessage('required must be a boolean'),
+    body('questions.*.scaleMax')
+      .optional()
+      .isInt({ min: 2, max: 10 })
+      .withMessage('Rating scale must have between 2 and 10 points'),
+    body('audience')
+      .optional()
+      .isIn(['registered', 'attended'])
+      .withMessage('Audience must be registered or attended'),
+    body('isAnonymous')
+      .optional()
+      .isBoolean()
+      .withMessage('isAnonymous must be a boolean'),
+    body('opensAt')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Invalid opening date'),
+    body('closesAt')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Invalid closing date'),
+  ],
+
+  submitResponse: [
+    body('answers')
+      .isArray()
+      .withMessage('Answers must be an array'),
+    body('answers.*.question')
+      .isMongoId()
+      .withMessage('Invalid question ID'),
+  ],
 };
 
 // ============================================
@@ -262,6 +554,242 @@ export const newsletterValidations = {
 // Quiz Validations
 // ============================================
 
+// Question type and the fields only some types use. The answer key each
+// type needs is checked as a whole against the quiz model's rules.
+const questionFields = [
+  body('questions.*')
+    .custom((question) => {
+      const error = getQuestionShapeError(question || {});
+      if (error) throw new Error(error);
+      return true;
+    }),
+  body('questions.*.type')
+    .optional()
+    .isIn(QUESTION_TYPES)
+    .withMessage(`Question type must be one of: ${QUESTION_TYPES.join(', ')}`),
+  body('questions.*.answers')
+    .optional()
+    .isArray({ max: MAX_CHOICES })
+    .withMessage(`A question cannot have more than ${MAX_CHOICES} answers`),
+  body('questions.*.scoring')
+    .optional()
+    .isIn(['all_or_nothing', 'partial'])
+    .withMessage('Scoring must be all_or_nothing or partial'),
+  body('questions.*.numericAnswer')
+    .optional()
+    .isFloat()
+    .withMessage('Numeric answer must be a number')
+    .toFloat(),
+  body('questions.*.tolerance')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('Tolerance must be a non-negative number')
+    .toFloat(),
+  body('questions.*.acceptedAnswers')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Accepted answers must be an array of at most 50 entries'),
+  body('questions.*.acceptedAnswers.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Accepted answers must be between 1 and 500 characters'),
+  body('questions.*.caseSensitive')
+    .optional()
+    .isBoolean()
+    .withMessage('caseSensitive must be a boolean'),
+];
+
+// Random draws from question banks and shuffling, for quizzes
+const drawFields = [
+  body('draws')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('A quiz cannot have more than 20 draws'),
+  body('draws.*.bank')
+    .isMongoId()
+    .withMessage('Invalid question bank ID'),
+  body('draws.*.count')
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Draw between 1 and 100 questions')
+    .toInt(),
+  body('draws.*.topics')
+    .optional()
+    .isArray()
+    .withMessage('Topics must be an array'),
+  body(QUESTION_DIFFICULTIES.map((d) => `draws.*.difficulty.${d}`))
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Difficulty counts must be non-negative integers')
+    .toInt(),
+  body('draws.*')
+    .custom((draw) => {
+      const mix = draw?.difficulty;
+      if (!mix) return true;
+      const total = QUESTION_DIFFICULTIES.reduce((sum, d) => sum + (Number(mix[d]) || 0), 0);
+      return total === Number(draw.count);
+    })
+    .withMessage('Difficulty mix must add up to the number of questions drawn'),
+  body(['shuffleQuestions', 'shuffleAnswers'])
+    .optional()
+    .isBoolean()
+    .withMessage('Shuffle options must be booleans'),
+];
+
+// When, how often and by whom a quiz may be attempted. null clears a setting.
+const quizAccessFields = [
+  body(['opensAt', 'closesAt'])
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('Opening and closing times must be valid dates')
+    .toDate(),
+  body('closesAt')
+    .optional({ nullable: true })
+    .custom((closesAt, { req }) => !req.body.opensAt || new Date(closesAt) > new Date(req.body.opensAt))
+    .withMessage('Closing time must be after opening time'),
+  body('maxAttempts')
+    .optional({ nullable: true })
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Max attempts must be between 1 and 100')
+    .toInt(),
+  body('attemptScoring')
+    .optional()
+    .isIn(ATTEMPT_SCORING)
+    .withMessage(`Attempt scoring must be one of: ${ATTEMPT_SCORING.join(', ')}`),
+  body('participation')
+    .optional()
+    .isIn(QUIZ_PARTICIPATION)
+    .withMessage(`Participation must be one of: ${QUIZ_PARTICIPATION.join(', ')}`),
+  body('teamAnswerers')
+    .optional()
+    .isIn(TEAM_ANSWERERS)
+    .withMessage(`Team answerers must be one of: ${TEAM_ANSWERERS.join(', ')}`),
+  body('accessCode')
+    .optional({ nullable: true })
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Access code cannot exceed 50 characters'),
+  body('eligibility.batches')
+    .optional()
+    .isArray()
+    .withMessage('Eligible batches must be an array'),
+  body('eligibility.batches.*')
+    .matches(/^\d{4}$/)
+    .withMessage('Batches are entry years, e.g. 2021'),
+  body('eligibility.semesters')
+    .optional()
+    .isArray()
+    .withMessage('Eligible semesters must be an array'),
+  body('eligibility.semesters.*')
+    .isInt({ min: 1, max: 8 })
+    .withMessage('Semesters must be between 1 and 8')
+    .toInt(),
+];
+
+// How answers are marked. Settings left out keep their current values.
+const scoringRulesFields = [
+  body('scoringRules')
+    .optional()
+    .isObject()
+    .withMessage('Scoring rules must be an object'),
+  body('scoringRules.strategy')
+    .optional()
+    .isIn(SCORING_STRATEGIES)
+    .withMessage(`Scoring strategy must be one of: ${SCORING_STRATEGIES.join(', ')}`),
+  body(['scoringRules.speedFloor', 'scoringRules.wrongAnswerPenalty', 'scoringRules.streakBonus'])
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Speed floor, wrong answer penalty and streak bonus must be between 0 and 1')
+    .toFloat(),
+  body('scoringRules.maxStreakBonus')
+    .optional()
+    .isFloat({ min: 0, max: 5 })
+    .withMessage('Max streak bonus must be between 0 and 5')
+    .toFloat(),
+];
+
+// The full content of each question, for complete question lists
+const questionContentFields = [
+  body('questions.*.questionText')
+    .trim()
+    .notEmpty()
+    .withMessage('Question text is required')
+    .isLength({ max: 1000 })
+    .withMessage('Question text cannot exceed 1000 characters'),
+  body('questions.*.imageUrl')
+    .optional()
+    .trim()
+    .isURL()
+    .withMessage('Invalid image URL'),
+  body('questions.*.answers.*.text')
+    .trim()
+    .notEmpty()
+    .withMessage('Answer text is required')
+    .isLength({ max: 500 })
+    .withMessage('Answer text cannot exceed 500 characters'),
+  body('questions.*.answers.*.isCorrect')
+    .isBoolean()
+    .withMessage('isCorrect must be a boolean'),
+  body('questions.*.timeLimitSeconds')
+    .isInt({ min: 5, max: 300 })
+    .withMessage('Time limit must be between 5 and 300 seconds'),
+  body('questions.*.marks')
+    .isInt({ min: 1 })
+    .withMessage('Marks must be at least 1'),
+  body('questions.*.explanation')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Explanation cannot exceed 2000 characters'),
+];
+
+// Questions kept from an earlier version are sent back with their _id
+const questionIdField = body('questions.*._id')
+  .optional()
+  .isMongoId()
+  .withMessage('Invalid question ID format');
+
+const accessCodeField = body('accessCode')
+  .optional()
+  .isString()
+  .isLength({ max: 50 })
+  .withMessage('Access code cannot exceed 50 characters');
+
+// Students in several active teams choose which one attempts a team quiz
+const teamIdField = body('teamId')
+  .optional()
+  .isMongoId()
+  .withMessage('Invalid team ID');
+
+// An answer to one question. Which field is required depends on the
+// question type, so that is checked when the answer is scored.
+const answerFields = (prefix = '') => [
+  body(`${prefix}selectedAnswerIndex`)
+    .optional({ nullable: true })
+    .isInt({ min: 0, max: MAX_CHOICES - 1 })
+    .withMessage(`Selected answer index must be between 0 and ${MAX_CHOICES - 1}`)
+    .toInt(),
+  body(`${prefix}selectedAnswerIndexes`)
+    .optional()
+    .isArray({ min: 1, max: MAX_CHOICES })
+    .withMessage('Selected answer indexes must be a non-empty array'),
+  body(`${prefix}selectedAnswerIndexes.*`)
+    .isInt({ min: 0, max: MAX_CHOICES - 1 })
+    .withMessage(`Selected answer indexes must be between 0 and ${MAX_CHOICES - 1}`)
+    .toInt(),
+  body(`${prefix}numericAnswer`)
+    .optional()
+    .isFloat()
+    .withMessage('Numeric answer must be a number')
+    .toFloat(),
+  body(`${prefix}textAnswer`)
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Text answer cannot exceed 500 characters'),
+];
+
 export const quizValidations = {
   create: [
     body('title')
@@ -274,37 +802,25 @@ export const quizValidations = {
       .isLength({ max: 2000 })
       .withMessage('Description cannot exceed 2000 characters'),
     body('questions')
-      .isArray({ min: 1 })
+      .custom((questions, { req }) => (questions?.length || 0) + (req.body.draws?.length || 0) > 0)
       .withMessage('Quiz must have at least one question'),
-    body('questions.*.questionText')
-      .trim()
-      .notEmpty()
-      .withMessage('Question text is required')
-      .isLength({ max: 1000 })
-      .withMessage('Question text cannot exceed 1000 characters'),
-    body('questions.*.imageUrl')
+    body('questions')
+      .optional()
+      .isArray()
+      .withMessage('Questions must be an array'),
+    ...questionFields,
+    ...drawFields,
+    ...quizAccessFields,
+    ...scoringRulesFields,
+    ...questionContentFields,
+    body('isTimed')
       .optional()
-      .trim()
-      .isURL()
-      .withMessage('Invalid image URL'),
-    body('questions.*.answers')
-      .isArray({ min: 4, max: 4 })
-      .withMessage('Each question must have exactly 4 answers'),
-    body('questions.*.answers.*.text')
-      .trim()
-      .notEmpty()
-      .withMessage('Answer text is required')
-      .isLength({ max: 500 })
-      .withMessage('Answer text cannot exceed 500 characters'),
-    body('questions.*.answers.*.isCorrect')
       .isBoolean()
-      .withMessage('isCorrect must be a boolean'),
-    body('questions.*.timeLimitSeconds')
-      .isInt({ min: 5, max: 300 })
-      .withMessage('Time limit must be between 5 and 300 seconds'),
-    body('questions.*.marks')
-      .isInt({ min: 1 })
-      .withMessage('Marks must be at least 1'),
+      .withMessage('isTimed must be a boolean'),
+    body('allowReview')
+      .optional()
+      .isBoolean()
+      .withMessage('allowReview must be a boolean'),
   ],
 
   update: [
@@ -320,8 +836,13 @@ export const quizValidations = {
       .withMessage('Description cannot exceed 2000 characters'),
     body('questions')
       .optional()
-      .isArray({ min: 1 })
-      .withMessage('Quiz must have at least one question'),
+      .isArray()
+      .withMessage('Questions must be an array'),
+    ...questionFields,
+    ...drawFields,
+    ...quizAccessFields,
+    ...scoringRulesFields,
+    questionIdField,
     body('questions.*.questionText')
       .optional()
       .trim()
@@ -334,10 +855,6 @@ export const quizValidations = {
       .trim()
       .isURL()
       .withMessage('Invalid image URL'),
-    body('questions.*.answers')
-      .optional()
-      .isArray({ min: 4, max: 4 })
-      .withMessage('Each question must have exactly 4 answers'),
     body('questions.*.answers.*.text')
       .optional()
       .trim()
@@ -357,6 +874,19 @@ export const quizValidations = {
       .optional()
       .isInt({ min: 1 })
       .withMessage('Marks must be at least 1'),
+    body('questions.*.explanation')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Explanation cannot exceed 2000 characters'),
+    body('isTimed')
+      .optional()
+      .isBoolean()
+      .withMessage('isTimed must be a boolean'),
+    body('allowReview')
+      .optional()
+      .isBoolean()
+      .withMessage('allowReview must be a boolean'),
   ],
 
   toggleVisibility: [
@@ -377,11 +907,284 @@ export const quizValidations = {
     body('responses.*.questionId')
       .isMongoId()
       .withMessage('Invalid question ID format'),
-    body('responses.*.selectedAnswerIndex')
-      .isInt({ min: 0, max: 3 })
-      .withMessage('Selected answer index must be between 0 and 3'),
+    ...answerFields('responses.*.'),
     body('responses.*.responseTimeSeconds')
+      .optional()
       .isFloat({ min: 0 })
       .withMessage('Response time must be a non-negative number'),
+    accessCodeField,
+    teamIdField,
+  ],
+
+  startAttempt: [accessCodeField, teamIdField],
+
+  // Sample responses, scored under the quiz's rules or the ones sent
+  scoringPreview: [
+    ...scoringRulesFields,
+    body('responses')
+      .isArray({ min: 1, max: 500 })
+      .withMessage('Send between 1 and 500 responses'),
+    body('responses.*.questionId')
+      .isMongoId()
+      .withMessage('Invalid question ID format'),
+    ...answerFields('responses.*.'),
+    body('responses.*.responseTimeSeconds')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Response time must be a non-negative number')
+      .toFloat(),
+  ],
+
+  answerQuestion: [
+    body('questionId')
+      .isMongoId()
+      .withMessage('Invalid question ID format'),
+    ...answerFields(),
+  ],
+
+  // Multipart fields sent with the quiz file
+  importQuiz: [
+    body('format')
+      .optional()
+      .isIn(QUIZ_FILE_FORMATS)
+      .withMessage(`Format must be one of: ${QUIZ_FILE_FORMATS.join(', ')}`),
+    body('title')
+      .optional()
+      .trim()
+      .isLength({ min: 3, max: 200 })
+      .withMessage('Title must be between 3 and 200 characters'),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Description cannot exceed 2000 characters'),
+    body('dryRun')
+      .optional()
+      .isBoolean()
+      .withMessage('dryRun must be a boolean')
+      .toBoolean(),
+    body('marks')
+      .optional()
+      .isFloat({ min: 1 })
+      .withMessage('Marks must be at least 1')
+      .toFloat(),
+    body('timeLimitSeconds')
+      .optional()
+      .isInt({ min: 5, max: 300 })
+      .withMessage('Time limit must be between 5 and 300 seconds')
+      .toInt(),
+  ],
+
+  exportQuiz: [
+    query('format')
+      .optional()
+      .isIn(QUIZ_FILE_FORMATS)
+      .withMessage(`Format must be one of: ${QUIZ_FILE_FORMATS.join(', ')}`),
+  ],
+
+  analysis: [
+    query('version')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Version must be a positive integer'),
+  ],
+
+  // Questions and draws left out are copied from the published version
+  saveDraft: [
+    body('questions')
+      .optional()
+      .isArray()
+      .withMessage('Questions must be an array'),
+    ...questionFields,
+    ...drawFields,
+    questionIdField,
+    ...questionContentFields,
+  ],
+
+  publish: [
+    body('note')
+      .optional()
+      .trim()
+      .isLength({ max: 500 })
+      .withMessage('Note cannot exceed 500 characters'),
+  ],
+
+  version: [
+    param('version')
+      .isInt({ min: 1 })
+      .withMessage('Version must be a positive integer')
+      .toInt(),
   ],
+
+  regrade: [
+    body('versions')
+      .optional()
+      .isArray({ min: 1 })
+      .withMessage('Versions must be a non-empty array'),
+    body('versions.*')
+      .isInt({ min: 1 })
+      .withMessage('Versions must be positive integers')
+      .toInt(),
+    body('dryRun')
+      .optional()
+      .isBoolean()
+      .withMessage('dryRun must be a boolean')
+      .toBoolean(),
+  ],
+};
+
+// ============================================
+// Question Bank Validations
+// ============================================
+
+const bankQuestionFields = [
+  ...questionFields,
+  body('questions.*.questionText')
+    .trim()
+    .notEmpty()
+    .withMessage('Question text is required')
+    .isLength({ max: 1000 })
+    .withMessage('Question text cannot exceed 1000 characters'),
+  body('questions.*.answers.*.text')
+    .trim()
+    .notEmpty()
+    .withMessage('Answer text is required')
+    .isLength({ max: 500 })
+    .withMessage('Answer text cannot exceed 500 characters'),
+  body('questions.*.timeLimitSeconds')
+    .isInt({ min: 5, max: 300 })
+    .withMessage('Time limit must be between 5 and 300 seconds'),
+  body('questions.*.marks')
+    .isInt({ min: 1 })
+    .withMessage('Marks must be at least 1'),
+  body('questions.*.topics')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('A question cannot have more than 20 topics'),
+  body('questions.*.topics.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Topics must be between 1 and 50 characters'),
+  body('questions.*.difficulty')
+    .optional()
+    .isIn(QUESTION_DIFFICULTIES)
+    .withMessage(`Difficulty must be one of: ${QUESTION_DIFFICULTIES.join(', ')}`),
+];
+
+export const questionBankValidations = {
+  create: [
+    body('name')
+      .trim()
+      .isLength({ min: 2, max: 200 })
+      .withMessage('Name must be between 2 and 200 characters'),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Description cannot exceed 2000 characters'),
+    body('questions')
+      .optional()
+      .isArray()
+      .withMessage('Questions must be an array'),
+    ...bankQuestionFields,
+  ],
+
+  update: [
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 2, max: 200 })
+      .withMessage('Name must be between 2 and 200 characters'),
+    body('description')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Description cannot exceed 2000 characters'),
+    body('questions')
+      .optional()
+      .isArray()
+      .withMessage('Questions must be an array'),
+    ...bankQuestionFields,
+  ],
+};
+
+// ============================================
+// Quiz Season Validations
+// ============================================
+
+const seasonFields = [
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('Description cannot exceed 2000 characters'),
+  body('quizzes')
+    .optional()
+    .isArray({ max: 100 })
+    .withMessage('Quizzes must be an array of at most 100 quiz IDs'),
+  body('quizzes.*')
+    .isMongoId()
+    .withMessage('Invalid quiz ID'),
+  body(['startsAt', 'endsAt'])
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('Season start and end must be valid dates')
+    .toDate(),
+  body('endsAt')
+    .optional({ nullable: true })
+    .custom((endsAt, { req }) => !req.body.startsAt || new Date(endsAt) > new Date(req.body.startsAt))
+    .withMessage('Season end must be after its start'),
+  body('isPublic')
+    .optional()
+    .isBoolean()
+    .withMessage('isPublic must be a boolean'),
+];
+
+export const quizSeasonValidations = {
+  create: [
+    body('name')
+      .trim()
+      .isLength({ min: 3, max: 200 })
+      .withMessage('Name must be between 3 and 200 characters'),
+    ...seasonFields,
+  ],
+
+  update: [
+    body('name')
+      .optional()
+      .trim()
+      .isLength({ min: 3, max: 200 })
+      .withMessage('Name must be between 3 and 200 characters'),
+    ...seasonFields,
+  ],
+
+  leaderboard: [
+    query('batch')
+      .optional()
+      .matches(/^\d{4}$/)
+      .withMessage('Batch must be an entry year, e.g. 2021'),
+    ...commonValidations.pagination,
+  ],
+};
+
+// ============================================
+// Live Quiz Validations
+// ============================================
+
+export const liveQuizValidations = {
+  create: [
+    body('quizId')
+      .isMongoId()
+      .withMessage('Invalid quiz ID'),
+  ],
+
+  join: [
+    body('pin')
+      .trim()
+      .matches(/^\d{6}$/)
+      .withMessage('PIN must be 6 digits'),
+  ],
+
+  answer: answerFields(),
 };
@@ -0,0 +1,106 @@
+// ============================================
+// ComES Backend - Certificate Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+import crypto from 'crypto';
+
+export interface ICertificate extends Document {
+  _id: mongoose.Types.ObjectId;
+  code: string;
+  event: mongoose.Types.ObjectId;
+  student: mongoose.Types.ObjectId;
+  registration: mongoose.Types.ObjectId;
+  // Snapshot of the certified details, so a certificate stays
+  // verifiable even if the event or student is edited later
+  studentName: string;
+  registrationNo: string;
+  eventTitle: string;
+  eventDate: Date;
+  issuedAt: Date;
+  issuedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const certificateSchema = new Schema<ICertificate>(
+  {
+    code: {
+      type: String,
+      unique: true,
+    },
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: true,
+    },
+    student: {
+      type: Schema.Types.ObjectId,
+      ref: 'Student',
+      required: true,
+    },
+    registration: {
+      type: Schema.Types.ObjectId,
+      ref: 'EventRegistration',
+      required: true,
+    },
+    studentName: {
+      type: String,
+      required: true,
+    },
+    registrationNo: {
+      type: String,
+      required: true,
+    },
+    eventTitle: {
+      type: String,
+      required: true,
+    },
+    eventDate: {
+      type: Date,
+      required: true,
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    issuedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+certificateSchema.index({ event: 1, student: 1 }, { unique: true });
+certificateSchema.index({ student: 1, issuedAt: -1 });
+
+// ============================================
+// Pre-validate Middleware
+// ============================================
+
+// Generate an unguessable, human-readable certificate ID (e.g. 9F3A-C2D1-07BE-4A6F)
+certificateSchema.pre<ICertificate>('validate', function (next) {
+  if (!this.code) {
+    this.code = crypto
+      .randomBytes(8)
+      .toString('hex')
+      .toUpperCase()
+      .match(/.{4}/g)!
+      .join('-');
+  }
+  next();
+});
+
+export const Certificate = mongoose.model<ICertificate>('Certificate', certificateSchema);
+
+export default Certificate;
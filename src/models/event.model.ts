@@ -2,9 +2,28 @@
 // ComES Backend - Event Model
 // ============================================
 
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, UpdateQuery } from 'mongoose';
 import slugify from 'slugify';
 
+export type RegistrationFieldType = 'text' | 'select' | 'multiselect' | 'checkbox' | 'number' | 'file';
+
+// A question on an event's registration form; answers are stored under `key`
+export interface IRegistrationField {
+  key: string;
+  label: string;
+  type: RegistrationFieldType;
+  required: boolean;
+  helpText?: string;
+  options?: string[];
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+export type EventStatus = 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
+
 export interface IEvent extends Document {
   _id: mongoose.Types.ObjectId;
   title: string;
@@ -15,19 +34,78 @@ export interface IEvent extends Document {
   endDate?: Date;
   location: string;
   type: 'workshop' | 'hackathon' | 'seminar' | 'competition' | 'social' | 'other';
-  status: 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
+  status: EventStatus;
   image?: string;
   icon?: string;
   maxParticipants?: number;
   registeredCount: number;
-  registrations: mongoose.Types.ObjectId[];
   tags: string[];
   isFeatured: boolean;
+  registrationForm: IRegistrationField[];
+  sequence: number;
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// ============================================
+// Sub-schemas
+// ============================================
+
+const registrationFieldSchema = new Schema<IRegistrationField>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Field key is required'],
+      match: [/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Field key must start with a letter and contain only letters, digits and underscores'],
+      maxlength: [50, 'Field key cannot exceed 50 characters'],
+    },
+    label: {
+      type: String,
+      required: [true, 'Field label is required'],
+      trim: true,
+      maxlength: [200, 'Field label cannot exceed 200 characters'],
+    },
+    // `file` answers are URLs of files uploaded elsewhere
+    type: {
+      type: String,
+      enum: ['text', 'select', 'multiselect', 'checkbox', 'number', 'file'],
+      required: [true, 'Field type is required'],
+    },
+    required: {
+      type: Boolean,
+      default: false,
+    },
+    helpText: {
+      type: String,
+      maxlength: [500, 'Help text cannot exceed 500 characters'],
+    },
+    options: {
+      type: [String],
+      default: undefined,
+    },
+    min: Number,
+    max: Number,
+    minLength: Number,
+    maxLength: Number,
+    pattern: {
+      type: String,
+      validate: {
+        validator: (value: string) => {
+          try {
+            new RegExp(value);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        message: 'Field pattern must be a valid regular expression',
+      },
+    },
+  },
+  { _id: false }
+);
+
 const eventSchema = new Schema<IEvent>(
   {
     title: {
@@ -79,19 +157,38 @@ const eventSchema = new Schema<IEvent>(
       type: Number,
       min: [1, 'Max participants must be at least 1'],
     },
+    // Confirmed participants; kept in sync atomically by the registration service
     registeredCount: {
       type: Number,
       default: 0,
+      min: 0,
     },
-    registrations: [{
-      type: Schema.Types.ObjectId,
-      ref: 'User',
-    }],
     tags: [String],
     isFeatured: {
       type: Boolean,
       default: false,
     },
+    registrationForm: {
+      type: [registrationFieldSchema],
+      default: [],
+      validate: [
+        {
+          validator: (fields: IRegistrationField[]) =>
+            new Set(fields.map((f) => f.key)).size === fields.length,
+          message: 'Registration form field keys must be unique',
+        },
+        {
+          validator: (fields: IRegistrationField[]) =>
+            fields.every((f) => !['select', 'multiselect'].includes(f.type) || (f.options && f.options.length > 0)),
+          message: 'Select fields must have at least one option',
+        },
+      ],
+    },
+    // iCalendar SEQUENCE, bumped whenever calendar-visible details change
+    sequence: {
+      type: Number,
+      default: 0,
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -148,20 +245,50 @@ eventSchema.pre<IEvent>('save', function (next) {
   next();
 });
 
+// Events without an end date are considered over this long after they start
+const DEFAULT_EVENT_DURATION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Status an event should have at `now` based on its dates.
+ * Cancelled events stay cancelled.
+ */
+export const getTimeBasedStatus = (
+  event: Pick<IEvent, 'date' | 'endDate' | 'status'>,
+  now: Date = new Date()
+): EventStatus => {
+  if (event.status === 'cancelled') return 'cancelled';
+
+  const end = event.endDate || new Date(event.date.getTime() + DEFAULT_EVENT_DURATION_MS);
+
+  if (now > end) return 'completed';
+  if (now >= event.date) return 'ongoing';
+  return 'upcoming';
+};
+
 // Auto-update status based on date
 eventSchema.pre<IEvent>('save', function (next) {
-  const now = new Date();
-  
-  if (this.status !== 'cancelled') {
-    if (this.endDate && now > this.endDate) {
-      this.status = 'completed';
-    } else if (now >= this.date && (!this.endDate || now <= this.endDate)) {
-      this.status = 'ongoing';
-    } else if (now < this.date) {
-      this.status = 'upcoming';
-    }
+  this.status = getTimeBasedStatus(this);
+  next();
+});
+
+// Fields that calendar subscribers see
+const CALENDAR_FIELDS = ['title', 'description', 'shortDescription', 'date', 'endDate', 'location', 'status'];
+
+// Bump the calendar sequence so subscribed calendars pick up changes
+eventSchema.pre<IEvent>('save', function (next) {
+  if (!this.isNew && CALENDAR_FIELDS.some((field) => this.isModified(field))) {
+    this.sequence = (this.sequence || 0) + 1;
   }
+  next();
+});
 
+eventSchema.pre('findOneAndUpdate', function (next) {
+  const update = (this.getUpdate() || {}) as UpdateQuery<IEvent>;
+  const changes = { ...update, ...(update.$set || {}) };
+
+  if (CALENDAR_FIELDS.some((field) => field in changes)) {
+    this.setUpdate({ ...update, $inc: { ...(update.$inc || {}), sequence: 1 } });
+  }
   next();
 });
 
@@ -0,0 +1,82 @@
+// ============================================
+// ComES Backend - Event Notification Model
+// ============================================
+//
+// Delivery log of scheduled event emails, one document per registration
+// and notification. The unique index makes claiming a delivery atomic, so
+// an email is never sent twice, even across restarts or server instances.
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type EventNotificationKind = 'reminder' | 'followUp' | 'cancellation';
+export type EventNotificationStatus = 'sending' | 'sent' | 'failed';
+
+export interface IEventNotification extends Document {
+  _id: mongoose.Types.ObjectId;
+  event: mongoose.Types.ObjectId;
+  registration: mongoose.Types.ObjectId;
+  kind: EventNotificationKind;
+  // Identifies the notification within its kind, e.g. "reminder:60"
+  key: string;
+  status: EventNotificationStatus;
+  attempts: number;
+  claimedAt: Date;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const eventNotificationSchema = new Schema<IEventNotification>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: true,
+    },
+    registration: {
+      type: Schema.Types.ObjectId,
+      ref: 'EventRegistration',
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: ['reminder', 'followUp', 'cancellation'],
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['sending', 'sent', 'failed'],
+      default: 'sending',
+    },
+    attempts: {
+      type: Number,
+      default: 1,
+    },
+    claimedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    sentAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+eventNotificationSchema.index({ registration: 1, key: 1 }, { unique: true });
+eventNotificationSchema.index({ event: 1, key: 1, status: 1 });
+
+export const EventNotification = mongoose.model<IEventNotification>(
+  'EventNotification',
+  eventNotificationSchema
+);
+
+export default EventNotification;
@@ -0,0 +1,116 @@
+// ============================================
+// ComES Backend - Event Registration Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { generateTicketCode } from '../utils/ticket';
+
+export type ParticipantType = 'User' | 'Student';
+export type RegistrationStatus = 'confirmed' | 'waitlisted' | 'cancelled' | 'attended';
+
+// Statuses that hold a seat at the event
+export const SEATED_STATUSES: RegistrationStatus[] = ['confirmed', 'attended'];
+
+export interface IEventRegistration extends Document {
+  _id: mongoose.Types.ObjectId;
+  event: mongoose.Types.ObjectId;
+  participantType: ParticipantType;
+  participant: mongoose.Types.ObjectId;
+  status: RegistrationStatus;
+  ticketCode: string;
+  // Answers to the event's registration form, keyed by field key
+  answers: Record<string, unknown>;
+  registeredAt: Date;
+  confirmedAt?: Date;
+  waitlistedAt?: Date;
+  cancelledAt?: Date;
+  checkedInAt?: Date;
+  checkedInBy?: mongoose.Types.ObjectId;
+  duplicateScans: number;
+  lastScannedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const eventRegistrationSchema = new Schema<IEventRegistration>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event is required'],
+    },
+    participantType: {
+      type: String,
+      enum: ['User', 'Student'],
+      required: [true, 'Participant type is required'],
+    },
+    participant: {
+      type: Schema.Types.ObjectId,
+      refPath: 'participantType',
+      required: [true, 'Participant is required'],
+    },
+    status: {
+      type: String,
+      enum: ['confirmed', 'waitlisted', 'cancelled', 'attended'],
+      default: 'confirmed',
+    },
+    ticketCode: {
+      type: String,
+      unique: true,
+      select: false,
+    },
+    answers: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    registeredAt: {
+      type: Date,
+      default: Date.now,
+    },
+    confirmedAt: Date,
+    waitlistedAt: Date,
+    cancelledAt: Date,
+    checkedInAt: Date,
+    checkedInBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    duplicateScans: {
+      type: Number,
+      default: 0,
+    },
+    lastScannedAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+eventRegistrationSchema.index({ event: 1, participantType: 1, participant: 1 }, { unique: true });
+eventRegistrationSchema.index({ participantType: 1, participant: 1, status: 1 });
+eventRegistrationSchema.index({ event: 1, status: 1, waitlistedAt: 1 });
+
+// ============================================
+// Pre-validate Middleware
+// ============================================
+
+// Issue a signed ticket code for new registrations
+eventRegistrationSchema.pre<IEventRegistration>('validate', function (next) {
+  if (!this.ticketCode) {
+    this.ticketCode = generateTicketCode(this._id.toString());
+  }
+  next();
+});
+
+export const EventRegistration = mongoose.model<IEventRegistration>(
+  'EventRegistration',
+  eventRegistrationSchema
+);
+
+export default EventRegistration;
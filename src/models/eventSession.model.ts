@@ -0,0 +1,125 @@
+// ============================================
+// ComES Backend - Event Session Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SessionType = 'talk' | 'workshop' | 'panel' | 'keynote' | 'break' | 'other';
+
+export interface IEventSession extends Document {
+  _id: mongoose.Types.ObjectId;
+  event: mongoose.Types.ObjectId;
+  title: string;
+  description?: string;
+  type: SessionType;
+  startTime: Date;
+  endTime: Date;
+  room?: string;
+  track?: string;
+  speakers: mongoose.Types.ObjectId[];
+  // Breakout sessions take their own registrations; null means open to all
+  capacity?: number;
+  requiresRegistration: boolean;
+  registeredCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const eventSessionSchema = new Schema<IEventSession>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event is required'],
+    },
+    title: {
+      type: String,
+      required: [true, 'Session title is required'],
+      trim: true,
+      maxlength: [200, 'Title cannot exceed 200 characters'],
+    },
+    description: {
+      type: String,
+      maxlength: [2000, 'Description cannot exceed 2000 characters'],
+    },
+    type: {
+      type: String,
+      enum: ['talk', 'workshop', 'panel', 'keynote', 'break', 'other'],
+      default: 'talk',
+    },
+    startTime: {
+      type: Date,
+      required: [true, 'Start time is required'],
+    },
+    endTime: {
+      type: Date,
+      required: [true, 'End time is required'],
+    },
+    room: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Room cannot exceed 100 characters'],
+    },
+    track: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Track cannot exceed 100 characters'],
+    },
+    speakers: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Speaker',
+      },
+    ],
+    capacity: {
+      type: Number,
+      min: [1, 'Capacity must be at least 1'],
+    },
+    requiresRegistration: {
+      type: Boolean,
+      default: false,
+    },
+    registeredCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+eventSessionSchema.index({ event: 1, startTime: 1 });
+eventSessionSchema.index({ room: 1, startTime: 1, endTime: 1 });
+eventSessionSchema.index({ speakers: 1 });
+
+// ============================================
+// Virtual Fields
+// ============================================
+
+eventSessionSchema.virtual('availableSpots').get(function (this: IEventSession): number | null {
+  if (!this.capacity) return null;
+  return Math.max(0, this.capacity - this.registeredCount);
+});
+
+// ============================================
+// Pre-validate Middleware
+// ============================================
+
+eventSessionSchema.pre<IEventSession>('validate', function (next) {
+  if (this.startTime && this.endTime && this.endTime <= this.startTime) {
+    this.invalidate('endTime', 'End time must be after the start time');
+  }
+  next();
+});
+
+export const EventSession = mongoose.model<IEventSession>('EventSession', eventSessionSchema);
+
+export default EventSession;
@@ -0,0 +1,86 @@
+// ============================================
+// ComES Backend - Feedback Response Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IFeedbackAnswer {
+  question: mongoose.Types.ObjectId;
+  // Rating and NPS answers
+  value?: number;
+  // Free-text answers
+  text?: string;
+}
+
+export interface IFeedbackResponse extends Document {
+  _id: mongoose.Types.ObjectId;
+  survey: mongoose.Types.ObjectId;
+  event: mongoose.Types.ObjectId;
+  // Keyed hash of survey + student: enforces one response per student
+  // without storing who answered an anonymous survey
+  respondentKey: string;
+  // Only set for surveys that are not anonymous
+  student?: mongoose.Types.ObjectId;
+  answers: IFeedbackAnswer[];
+  submittedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const feedbackAnswerSchema = new Schema<IFeedbackAnswer>(
+  {
+    question: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    value: Number,
+    text: {
+      type: String,
+      maxlength: [2000, 'Answer cannot exceed 2000 characters'],
+    },
+  },
+  { _id: false }
+);
+
+const feedbackResponseSchema = new Schema<IFeedbackResponse>(
+  {
+    survey: {
+      type: Schema.Types.ObjectId,
+      ref: 'FeedbackSurvey',
+      required: true,
+    },
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: true,
+    },
+    respondentKey: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    student: {
+      type: Schema.Types.ObjectId,
+      ref: 'Student',
+    },
+    answers: [feedbackAnswerSchema],
+    submittedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+feedbackResponseSchema.index({ survey: 1, respondentKey: 1 }, { unique: true });
+feedbackResponseSchema.index({ event: 1, submittedAt: -1 });
+
+export const FeedbackResponse = mongoose.model<IFeedbackResponse>('FeedbackResponse', feedbackResponseSchema);
+
+export default FeedbackResponse;
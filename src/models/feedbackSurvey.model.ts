@@ -0,0 +1,141 @@
+// ============================================
+// ComES Backend - Feedback Survey Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+// ============================================
+// Interfaces
+// ============================================
+
+export type SurveyQuestionType = 'rating' | 'nps' | 'text';
+export type SurveyAudience = 'registered' | 'attended';
+
+export interface ISurveyQuestion {
+  _id: mongoose.Types.ObjectId;
+  text: string;
+  type: SurveyQuestionType;
+  required: boolean;
+  // Highest value of a rating scale (1..scaleMax); NPS is always 0..10
+  scaleMax: number;
+}
+
+export interface IFeedbackSurvey extends Document {
+  _id: mongoose.Types.ObjectId;
+  event: mongoose.Types.ObjectId;
+  title: string;
+  description?: string;
+  questions: ISurveyQuestion[];
+  audience: SurveyAudience;
+  isAnonymous: boolean;
+  opensAt?: Date;
+  closesAt?: Date;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+  isOpen: boolean;
+}
+
+// ============================================
+// Sub-schemas
+// ============================================
+
+const surveyQuestionSchema = new Schema<ISurveyQuestion>({
+  text: {
+    type: String,
+    required: [true, 'Question text is required'],
+    trim: true,
+    maxlength: [500, 'Question text cannot exceed 500 characters'],
+  },
+  type: {
+    type: String,
+    enum: ['rating', 'nps', 'text'],
+    required: [true, 'Question type is required'],
+  },
+  required: {
+    type: Boolean,
+    default: true,
+  },
+  scaleMax: {
+    type: Number,
+    min: [2, 'Rating scale must have at least 2 points'],
+    max: [10, 'Rating scale cannot exceed 10 points'],
+    default: 5,
+  },
+});
+
+const feedbackSurveySchema = new Schema<IFeedbackSurvey>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: [true, 'Event is required'],
+      unique: true,
+    },
+    title: {
+      type: String,
+      required: [true, 'Survey title is required'],
+      trim: true,
+      maxlength: [200, 'Title cannot exceed 200 characters'],
+    },
+    description: {
+      type: String,
+      maxlength: [1000, 'Description cannot exceed 1000 characters'],
+    },
+    questions: {
+      type: [surveyQuestionSchema],
+      validate: {
+        validator: (val: ISurveyQuestion[]) => val.length > 0 && val.length <= 30,
+        message: 'A survey must have between 1 and 30 questions',
+      },
+    },
+    // Who may respond: everyone registered, or only checked-in attendees
+    audience: {
+      type: String,
+      enum: ['registered', 'attended'],
+      default: 'registered',
+    },
+    isAnonymous: {
+      type: Boolean,
+      default: false,
+    },
+    opensAt: Date,
+    closesAt: Date,
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// ============================================
+// Virtual Fields
+// ============================================
+
+feedbackSurveySchema.virtual('isOpen').get(function (this: IFeedbackSurvey): boolean {
+  const now = new Date();
+  if (this.opensAt && now < this.opensAt) return false;
+  if (this.closesAt && now > this.closesAt) return false;
+  return true;
+});
+
+// ============================================
+// Pre-validate Middleware
+// ============================================
+
+feedbackSurveySchema.pre('validate', function (next) {
+  if (this.opensAt && this.closesAt && this.closesAt <= this.opensAt) {
+    this.invalidate('closesAt', 'Survey must close after it opens');
+  }
+  next();
+});
+
+export const FeedbackSurvey = mongoose.model<IFeedbackSurvey>('FeedbackSurvey', feedbackSurveySchema);
+
+export default FeedbackSurvey;
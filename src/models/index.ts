@@ -3,14 +3,79 @@
 // ============================================
 
 export { User, IUser } from './user.model';
-export { Event, IEvent } from './event.model';
+export { Event, IEvent, EventStatus, IRegistrationField, RegistrationFieldType } from './event.model';
+export { EventRegistration, IEventRegistration, ParticipantType, RegistrationStatus } from './eventRegistration.model';
+export {
+  EventNotification,
+  IEventNotification,
+  EventNotificationKind,
+  EventNotificationStatus,
+} from './eventNotification.model';
+export { Certificate, ICertificate } from './certificate.model';
+export { Speaker, ISpeaker } from './speaker.model';
+export {
+  FeedbackSurvey,
+  IFeedbackSurvey,
+  ISurveyQuestion,
+  SurveyQuestionType,
+  SurveyAudience,
+} from './feedbackSurvey.model';
+export { FeedbackResponse, IFeedbackResponse, IFeedbackAnswer } from './feedbackResponse.model';
+export { EventSession, IEventSession, SessionType } from './eventSession.model';
+export { SessionRegistration, ISessionRegistration } from './sessionRegistration.model';
 export { Project, IProject } from './project.model';
 export { BlogPost, IBlogPost } from './blog.model';
 export { Contact, IContact } from './contact.model';
 export { Newsletter, INewsletter } from './newsletter.model';
 export { TeamMember, ITeamMember } from './team.model';
-export { Student, IStudent } from './student.model';
+export {
+  Student,
+  IStudent,
+  StudentStatus,
+  AcademicStanding,
+  STUDENT_STATUSES,
+  ACADEMIC_STANDINGS,
+  FINAL_SEMESTER,
+} from './student.model';
 export { CompetitionTeam, ICompetitionTeam, ICompetitionTeamMember } from './competitionTeam.model';
 export { Visitor, IVisitor, IPageView } from './analytics.model';
-export { Quiz, IQuiz, IQuestion, IAnswer } from './quiz.model';
-export { QuizAttempt, IQuizAttempt, IQuestionResponse } from './quizAttempt.model';
+export {
+  Quiz,
+  IQuiz,
+  IQuestion,
+  IAnswer,
+  IQuestionDraw,
+  QuestionType,
+  IQuizEligibility,
+  IQuizDraft,
+  QuestionDifficulty,
+  MultipleChoiceScoring,
+  AttemptScoring,
+  QuizParticipation,
+  TeamAnswerers,
+  ScoringStrategy,
+  IScoringRules,
+  QUESTION_TYPES,
+  QUESTION_DIFFICULTIES,
+  ATTEMPT_SCORING,
+  QUIZ_PARTICIPATION,
+  TEAM_ANSWERERS,
+  SCORING_STRATEGIES,
+  getQuestionShapeError,
+} from './quiz.model';
+export { QuestionBank, IQuestionBank, IBankQuestion } from './questionBank.model';
+export { QuizVersion, IQuizVersion } from './quizVersion.model';
+export { QuizRegrade, IQuizRegrade, IScoreChange } from './quizRegrade.model';
+export {
+  QuizAttempt,
+  IQuizAttempt,
+  IQuestionResponse,
+  ISubmittedAnswer,
+  IServedQuestion,
+  IVariantQuestion,
+  QuizAttemptStatus,
+} from './quizAttempt.model';
+export { QuizSeason, IQuizSeason } from './quizSeason.model';
+export { SeasonStanding, ISeasonStanding, ISeasonQuizResult } from './seasonStanding.model';
+export { LiveQuizSession, ILiveQuizSession, ILiveParticipant, LiveQuizStatus } from './liveQuizSession.model';
+export { JobRun, IJobRun, IJobRunChange, JobTrigger } from './jobRun.model';
@@ -0,0 +1,86 @@
+// ============================================
+// ComES Backend - Job Run Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type JobTrigger = 'startup' | 'schedule' | 'manual';
+
+export interface IJobRunChange {
+  event: mongoose.Types.ObjectId;
+  title: string;
+  from: string;
+  to: string;
+}
+
+export interface IJobRun extends Document {
+  _id: mongoose.Types.ObjectId;
+  job: string;
+  trigger: JobTrigger;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  success: boolean;
+  error?: string;
+  changes: IJobRunChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobRunChangeSchema = new Schema<IJobRunChange>(
+  {
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: true,
+    },
+    title: String,
+    from: String,
+    to: String,
+  },
+  { _id: false }
+);
+
+const jobRunSchema = new Schema<IJobRun>(
+  {
+    job: {
+      type: String,
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: ['startup', 'schedule', 'manual'],
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    finishedAt: Date,
+    durationMs: Number,
+    success: {
+      type: Boolean,
+      default: true,
+    },
+    error: String,
+    changes: {
+      type: [jobRunChangeSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+jobRunSchema.index({ job: 1, startedAt: -1 });
+// Run history is kept for 30 days
+jobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export const JobRun = mongoose.model<IJobRun>('JobRun', jobRunSchema);
+
+export default JobRun;
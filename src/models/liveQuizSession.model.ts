@@ -0,0 +1,125 @@
+// ============================================
+// ComES Backend - Live Quiz Session Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { IQuestionResponse, questionResponseSchema } from './quizAttempt.model';
+
+// ============================================
+// Interfaces
+// ============================================
+
+// lobby -> question <-> reveal -> finished
+export type LiveQuizStatus = 'lobby' | 'question' | 'reveal' | 'finished';
+
+export interface ILiveParticipant {
+    student: mongoose.Types.ObjectId;
+    name: string;
+    score: number;
+    responses: IQuestionResponse[];
+    joinedAt: Date;
+}
+
+export interface ILiveQuizSession extends Document {
+    _id: mongoose.Types.ObjectId;
+    quiz: mongoose.Types.ObjectId;
+    host: mongoose.Types.ObjectId;
+    // Join PIN, removed once the session finishes so it can be reused
+    pin?: string;
+    status: LiveQuizStatus;
+    currentQuestionIndex: number;
+    questionStartedAt?: Date;
+    questionEndsAt?: Date;
+    participants: ILiveParticipant[];
+    startedAt?: Date;
+    finishedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// ============================================
+// Sub-schemas
+// ============================================
+
+const liveParticipantSchema = new Schema<ILiveParticipant>(
+    {
+        student: {
+            type: Schema.Types.ObjectId,
+            ref: 'Student',
+            required: true,
+        },
+        name: {
+            type: String,
+            required: true,
+        },
+        score: {
+            type: Number,
+            default: 0,
+        },
+        responses: {
+            type: [questionResponseSchema],
+            default: [],
+        },
+        joinedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false }
+);
+
+// ============================================
+// Live Quiz Session Schema
+// ============================================
+
+const liveQuizSessionSchema = new Schema<ILiveQuizSession>(
+    {
+        quiz: {
+            type: Schema.Types.ObjectId,
+            ref: 'Quiz',
+            required: [true, 'Quiz is required'],
+        },
+        host: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        pin: {
+            type: String,
+            match: [/^\d{6}$/, 'PIN must be 6 digits'],
+        },
+        status: {
+            type: String,
+            enum: ['lobby', 'question', 'reveal', 'finished'],
+            default: 'lobby',
+        },
+        currentQuestionIndex: {
+            type: Number,
+            default: -1,
+        },
+        questionStartedAt: Date,
+        questionEndsAt: Date,
+        participants: {
+            type: [liveParticipantSchema],
+            default: [],
+        },
+        startedAt: Date,
+        finishedAt: Date,
+    },
+    {
+        timestamps: true,
+        toJSON: { virtuals: true },
+        toObject: { virtuals: true },
+    }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+liveQuizSessionSchema.index({ pin: 1 }, { unique: true, sparse: true });
+liveQuizSessionSchema.index({ quiz: 1, createdAt: -1 });
+
+export const LiveQuizSession = mongoose.model<ILiveQuizSession>('LiveQuizSession', liveQuizSessionSchema);
+
+export default LiveQuizSession;
@@ -0,0 +1,81 @@
+// ============================================
+// ComES Backend - Question Bank Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { IQuestion, QuestionDifficulty, QUESTION_DIFFICULTIES, questionSchema } from './quiz.model';
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface IBankQuestion extends IQuestion {
+  topics: string[];
+  difficulty: QuestionDifficulty;
+}
+
+export interface IQuestionBank extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  questions: IBankQuestion[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Sub-schemas
+// ============================================
+
+// Same rules as quiz questions, plus tags to draw by
+const bankQuestionSchema = questionSchema.clone() as unknown as Schema<IBankQuestion>;
+
+bankQuestionSchema.add({
+  topics: {
+    type: [{ type: String, trim: true, lowercase: true, maxlength: [50, 'Topic cannot exceed 50 characters'] }],
+    default: [],
+  },
+  difficulty: {
+    type: String,
+    enum: QUESTION_DIFFICULTIES,
+    default: 'medium',
+  },
+});
+
+// ============================================
+// Question Bank Schema
+// ============================================
+
+const questionBankSchema = new Schema<IQuestionBank>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Question bank name is required'],
+      unique: true,
+      trim: true,
+      maxlength: [200, 'Name cannot exceed 200 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Description cannot exceed 2000 characters'],
+    },
+    questions: {
+      type: [bankQuestionSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+questionBankSchema.index({ 'questions.topics': 1 });
+
+export const QuestionBank = mongoose.model<IQuestionBank>('QuestionBank', questionBankSchema);
+
+export default QuestionBank;
@@ -9,6 +9,22 @@ import slugify from 'slugify';
 // Interfaces
 // ============================================
 
+export type QuestionType = 'single' | 'multiple' | 'true_false' | 'numeric' | 'short_text';
+
+// all_or_nothing: only the exact set of correct choices scores.
+// partial: each correct choice earns its share, each wrong choice takes one away.
+export type MultipleChoiceScoring = 'all_or_nothing' | 'partial';
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+// Which of a student's attempts counts when they have several
+export type AttemptScoring = 'best' | 'latest' | 'first';
+// Team quizzes are attempted once per competition team
+export type QuizParticipation = 'individual' | 'team';
+// Which members of a team may answer for it
+export type TeamAnswerers = 'members' | 'leader';
+export type ScoringStrategy = 'flat' | 'speed' | 'negative' | 'streak';
+
 export interface IAnswer {
   text: string;
   isCorrect: boolean;
@@ -16,11 +32,58 @@ export interface IAnswer {
 
 export interface IQuestion {
   _id: mongoose.Types.ObjectId;
+  type: QuestionType;
   questionText: string;
   imageUrl?: string;
+  // Choices for single, multiple and true_false questions
   answers: IAnswer[];
+  scoring: MultipleChoiceScoring;
+  // Numeric questions: answers within +/- tolerance are correct
+  numericAnswer?: number;
+  tolerance: number;
+  // Short-text questions: any accepted variant is correct
+  acceptedAnswers: string[];
+  caseSensitive: boolean;
   timeLimitSeconds: number;
   marks: number;
+  // Shown to students reviewing a completed attempt
+  explanation?: string;
+}
+
+// Draw `count` random questions from a question bank, optionally limited to
+// some topics and split by difficulty
+export interface IQuestionDraw {
+  bank: mongoose.Types.ObjectId;
+  count: number;
+  topics: string[];
+  difficulty?: Partial<Record<QuestionDifficulty, number>>;
+}
+
+// Unpublished changes to a quiz's questions. Attempts only ever see the
+// published questions, so a draft can be edited freely.
+export interface IQuizDraft {
+  questions: IQuestion[];
+  draws: IQuestionDraw[];
+  updatedAt: Date;
+}
+
+// How each answer is marked. Only the settings of the chosen strategy apply.
+export interface IScoringRules {
+  strategy: ScoringStrategy;
+  // speed: share of the marks a correct answer earns however slow
+  speedFloor: number;
+  // negative: share of the marks taken off for a wrong answer
+  wrongAnswerPenalty: number;
+  // streak: extra share of the marks for each correct answer in a row
+  // before this one, up to maxStreakBonus
+  streakBonus: number;
+  maxStreakBonus: number;
+}
+
+// Empty lists place no restriction
+export interface IQuizEligibility {
+  batches: string[];
+  semesters: number[];
 }
 
 export interface IQuiz extends Document {
@@ -28,13 +91,98 @@ export interface IQuiz extends Document {
   title: string;
   slug: string;
   description?: string;
+  // Questions every attempt gets
   questions: IQuestion[];
+  // Questions drawn for each attempt on top of the fixed ones
+  draws: IQuestionDraw[];
+  // Published version of the questions and draws above. Each publish is
+  // kept as a QuizVersion.
+  version: number;
+  draft?: IQuizDraft;
+  scoringRules: IScoringRules;
+  shuffleQuestions: boolean;
+  shuffleAnswers: boolean;
+  // Fixed plus drawn questions; totalMarks only covers the fixed ones
+  questionCount: number;
+  // Attempts get their own selection or order of questions
+  isRandomized: boolean;
   totalMarks: number;
+  // Timed quizzes are played question by question with server-measured
+  // response times; untimed ones may be submitted in one go
+  isTimed: boolean;
+  // Let students who completed the quiz see correct answers and explanations
+  allowReview: boolean;
+  // Attempts can only be started and played inside this window
+  opensAt?: Date;
+  closesAt?: Date;
+  // Unlimited when not set. Live session attempts are not counted.
+  maxAttempts?: number;
+  attemptScoring: AttemptScoring;
+  participation: QuizParticipation;
+  teamAnswerers: TeamAnswerers;
+  accessCode?: string;
+  eligibility: IQuizEligibility;
+  isOpen: boolean;
   isVisible: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export const QUESTION_TYPES: QuestionType[] = ['single', 'multiple', 'true_false', 'numeric', 'short_text'];
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+export const ATTEMPT_SCORING: AttemptScoring[] = ['best', 'latest', 'first'];
+export const QUIZ_PARTICIPATION: QuizParticipation[] = ['individual', 'team'];
+export const TEAM_ANSWERERS: TeamAnswerers[] = ['members', 'leader'];
+export const SCORING_STRATEGIES: ScoringStrategy[] = ['flat', 'speed', 'negative', 'streak'];
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 10;
+
+/**
+ * Check that a question has what its type needs. Returns an error message,
+ * or null if the question is well-formed.
+ */
+export const getQuestionShapeError = (question: Partial<IQuestion>): string | null => {
+  const type = question.type || 'single';
+  const answers = question.answers || [];
+  const correct = answers.filter((a) => a.isCorrect).length;
+
+  switch (type) {
+    case 'single':
+    case 'multiple':
+      if (answers.length < MIN_CHOICES || answers.length > MAX_CHOICES) {
+        return `Choice questions must have between ${MIN_CHOICES} and ${MAX_CHOICES} answers`;
+      }
+      if (correct === 0) {
+        return 'Each question must have at least one correct answer';
+      }
+      return null;
+
+    case 'true_false':
+      if (answers.length !== 2 || correct !== 1) {
+        return 'True/false questions must have exactly 2 answers, one of them correct';
+      }
+      return null;
+
+    case 'numeric':
+      if (typeof question.numericAnswer !== 'number' || !Number.isFinite(question.numericAnswer)) {
+        return 'Numeric questions must have a numeric answer';
+      }
+      if (question.tolerance !== undefined && (typeof question.tolerance !== 'number' || question.tolerance < 0)) {
+        return 'Tolerance cannot be negative';
+      }
+      return null;
+
+    case 'short_text':
+      if (!question.acceptedAnswers?.some((a) => typeof a === 'string' && a.trim())) {
+        return 'Short-text questions must have at least one accepted answer';
+      }
+      return null;
+
+    default:
+      return 'Invalid question type';
+  }
+};
+
 // ============================================
 // Sub-schemas
 // ============================================
@@ -55,7 +203,12 @@ const answerSchema = new Schema<IAnswer>(
   { _id: false }
 );
 
-const questionSchema = new Schema<IQuestion>({
+export const questionSchema = new Schema<IQuestion>({
+  type: {
+    type: String,
+    enum: QUESTION_TYPES,
+    default: 'single',
+  },
   questionText: {
     type: String,
     required: [true, 'Question text is required'],
@@ -68,16 +221,26 @@ const questionSchema = new Schema<IQuestion>({
   },
   answers: {
     type: [answerSchema],
-    validate: [
-      {
-        validator: (val: IAnswer[]) => val.length === 4,
-        message: 'Each question must have exactly 4 answers',
-      },
-      {
-        validator: (val: IAnswer[]) => val.some((a) => a.isCorrect),
-        message: 'Each question must have at least one correct answer',
-      },
-    ],
+    default: [],
+  },
+  scoring: {
+    type: String,
+    enum: ['all_or_nothing', 'partial'],
+    default: 'all_or_nothing',
+  },
+  numericAnswer: Number,
+  tolerance: {
+    type: Number,
+    default: 0,
+    min: [0, 'Tolerance cannot be negative'],
+  },
+  acceptedAnswers: {
+    type: [{ type: String, trim: true, maxlength: [500, 'Accepted answer cannot exceed 500 characters'] }],
+    default: [],
+  },
+  caseSensitive: {
+    type: Boolean,
+    default: false,
   },
   timeLimitSeconds: {
     type: Number,
@@ -90,8 +253,112 @@ const questionSchema = new Schema<IQuestion>({
     required: [true, 'Marks for the question are required'],
     min: [1, 'Marks must be at least 1'],
   },
+  explanation: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Explanation cannot exceed 2000 characters'],
+  },
+});
+
+questionSchema.pre('validate', function (next) {
+  const error = getQuestionShapeError(this);
+  if (error) {
+    this.invalidate('answers', error);
+  }
+  next();
+});
+
+export const questionDrawSchema = new Schema<IQuestionDraw>(
+  {
+    bank: {
+      type: Schema.Types.ObjectId,
+      ref: 'QuestionBank',
+      required: [true, 'Question bank is required'],
+    },
+    count: {
+      type: Number,
+      required: [true, 'Number of questions to draw is required'],
+      min: [1, 'Draw at least one question'],
+      max: [100, 'Cannot draw more than 100 questions'],
+    },
+    topics: {
+      type: [{ type: String, trim: true, lowercase: true }],
+      default: [],
+    },
+    difficulty: {
+      easy: { type: Number, min: 0 },
+      medium: { type: Number, min: 0 },
+      hard: { type: Number, min: 0 },
+    },
+  },
+  { _id: false }
+);
+
+questionDrawSchema.pre('validate', function (next) {
+  const mix = this.difficulty;
+  if (mix && QUESTION_DIFFICULTIES.some((d) => mix[d] !== undefined)) {
+    const total = QUESTION_DIFFICULTIES.reduce((sum, d) => sum + (mix[d] || 0), 0);
+    if (total !== this.count) {
+      this.invalidate('difficulty', 'Difficulty mix must add up to the number of questions drawn');
+    }
+  }
+  next();
 });
 
+// Defaults keep the original marking: speed-weighted with a 10% floor
+export const scoringRulesSchema = new Schema<IScoringRules>(
+  {
+    strategy: {
+      type: String,
+      enum: SCORING_STRATEGIES,
+      default: 'speed',
+    },
+    speedFloor: {
+      type: Number,
+      min: [0, 'Speed floor must be between 0 and 1'],
+      max: [1, 'Speed floor must be between 0 and 1'],
+      default: 0.1,
+    },
+    wrongAnswerPenalty: {
+      type: Number,
+      min: [0, 'Wrong answer penalty must be between 0 and 1'],
+      max: [1, 'Wrong answer penalty must be between 0 and 1'],
+      default: 0.25,
+    },
+    streakBonus: {
+      type: Number,
+      min: [0, 'Streak bonus must be between 0 and 1'],
+      max: [1, 'Streak bonus must be between 0 and 1'],
+      default: 0.1,
+    },
+    maxStreakBonus: {
+      type: Number,
+      min: [0, 'Max streak bonus must be between 0 and 5'],
+      max: [5, 'Max streak bonus must be between 0 and 5'],
+      default: 0.5,
+    },
+  },
+  { _id: false }
+);
+
+const quizDraftSchema = new Schema<IQuizDraft>(
+  {
+    questions: {
+      type: [questionSchema],
+      default: [],
+    },
+    draws: {
+      type: [questionDrawSchema],
+      default: [],
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 // ============================================
 // Quiz Schema
 // ============================================
@@ -116,9 +383,72 @@ const quizSchema = new Schema<IQuiz>(
     },
     questions: {
       type: [questionSchema],
-      validate: {
-        validator: (val: IQuestion[]) => val.length >= 1,
-        message: 'Quiz must have at least one question',
+      default: [],
+    },
+    draws: {
+      type: [questionDrawSchema],
+      default: [],
+    },
+    version: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    draft: quizDraftSchema,
+    scoringRules: {
+      type: scoringRulesSchema,
+      default: () => ({}),
+    },
+    shuffleQuestions: {
+      type: Boolean,
+      default: false,
+    },
+    shuffleAnswers: {
+      type: Boolean,
+      default: false,
+    },
+    isTimed: {
+      type: Boolean,
+      default: true,
+    },
+    allowReview: {
+      type: Boolean,
+      default: false,
+    },
+    opensAt: Date,
+    closesAt: Date,
+    maxAttempts: {
+      type: Number,
+      min: [1, 'Max attempts must be at least 1'],
+    },
+    attemptScoring: {
+      type: String,
+      enum: ATTEMPT_SCORING,
+      default: 'best',
+    },
+    participation: {
+      type: String,
+      enum: QUIZ_PARTICIPATION,
+      default: 'individual',
+    },
+    teamAnswerers: {
+      type: String,
+      enum: TEAM_ANSWERERS,
+      default: 'members',
+    },
+    accessCode: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Access code cannot exceed 50 characters'],
+    },
+    eligibility: {
+      batches: {
+        type: [{ type: String, trim: true }],
+        default: [],
+      },
+      semesters: {
+        type: [{ type: Number, min: 1, max: 8 }],
+        default: [],
       },
     },
     isVisible: {
@@ -140,6 +470,7 @@ const quizSchema = new Schema<IQuiz>(
 quizSchema.index({ slug: 1 });
 quizSchema.index({ isVisible: 1 });
 quizSchema.index({ createdAt: -1 });
+quizSchema.index({ 'draws.bank': 1 });
 
 // ============================================
 // Virtual Fields
@@ -150,10 +481,34 @@ quizSchema.virtual('totalMarks').get(function (this: IQuiz): number {
   return this.questions.reduce((sum, q) => sum + q.marks, 0);
 });
 
+quizSchema.virtual('questionCount').get(function (this: IQuiz): number {
+  const drawn = (this.draws || []).reduce((sum, d) => sum + d.count, 0);
+  return (this.questions?.length || 0) + drawn;
+});
+
+quizSchema.virtual('isOpen').get(function (this: IQuiz): boolean {
+  const now = new Date();
+  return (!this.opensAt || this.opensAt <= now) && (!this.closesAt || this.closesAt > now);
+});
+
+quizSchema.virtual('isRandomized').get(function (this: IQuiz): boolean {
+  return (this.draws?.length || 0) > 0 || this.shuffleQuestions || this.shuffleAnswers;
+});
+
 // ============================================
 // Pre-save Middleware
 // ============================================
 
+quizSchema.pre<IQuiz>('validate', function (next) {
+  if (this.questions.length === 0 && this.draws.length === 0) {
+    this.invalidate('questions', 'Quiz must have at least one question');
+  }
+  if (this.opensAt && this.closesAt && this.closesAt <= this.opensAt) {
+    this.invalidate('closesAt', 'Closing time must be after opening time');
+  }
+  next();
+});
+
 quizSchema.pre<IQuiz>('save', function (next) {
   if (this.isModified('title')) {
     this.slug = slugify(this.title, { lower: true, strict: true });
@@ -3,29 +3,79 @@
 // ============================================
 
 import mongoose, { Document, Schema } from 'mongoose';
+import { IQuestion, questionSchema } from './quiz.model';
 
 // ============================================
 // Interfaces
 // ============================================
 
-export interface IQuestionResponse {
+// What a student answered, in the field that matches the question type.
+// All fields are empty when the question timed out without an answer.
+export interface ISubmittedAnswer {
+    // single and true_false
+    selectedAnswerIndex: number | null;
+    // multiple
+    selectedAnswerIndexes?: number[];
+    numericAnswer?: number;
+    textAnswer?: string;
+}
+
+export interface IQuestionResponse extends ISubmittedAnswer {
     questionId: mongoose.Types.ObjectId;
-    selectedAnswerIndex: number;
     responseTimeSeconds: number;
     isCorrect: boolean;
     marksAwarded: number;
 }
 
+export type QuizAttemptStatus = 'in_progress' | 'completed';
+
+// Question served to the student and not yet answered
+export interface IServedQuestion {
+    questionId: mongoose.Types.ObjectId;
+    index: number;
+    servedAt: Date;
+}
+
+// A question as it appears in one attempt. The question is copied so that
+// later edits to the quiz or bank do not change an attempt already started.
+// answerOrder[i] is the original index of the answer shown in position i;
+// responses always record original indexes.
+export interface IVariantQuestion {
+    question: IQuestion;
+    bank?: mongoose.Types.ObjectId;
+    answerOrder: number[];
+}
+
 export interface IQuizAttempt extends Document {
     _id: mongoose.Types.ObjectId;
     quizId: mongoose.Types.ObjectId;
+    // The student who started the attempt; for team attempts, the member
     studentId: mongoose.Types.ObjectId;
     participantName: string;
+    // Set on attempts at team quizzes, which any allowed member may answer
+    team?: mongoose.Types.ObjectId;
+    teamName?: string;
+    // Member who finished or submitted a team attempt
+    submittedBy?: mongoose.Types.ObjectId;
+    // Set when the attempt was played in a live, host-driven session
+    liveSession?: mongoose.Types.ObjectId;
+    // Version of the quiz the attempt was taken on. Missing on attempts
+    // from before quizzes were versioned, which count as version 1.
+    quizVersion?: number;
+    // Set once the attempt has been rescored against a corrected version
+    regradedToVersion?: number;
+    regradedAt?: Date;
+    status: QuizAttemptStatus;
+    // The questions drawn for this attempt, in the order served. Missing on
+    // attempts submitted in one go, which follow the quiz itself.
+    variant?: IVariantQuestion[];
+    currentQuestion?: IServedQuestion;
     responses: IQuestionResponse[];
     totalMarks: number;
     maxMarks: number;
     percentage: number;
-    completedAt: Date;
+    startedAt?: Date;
+    completedAt?: Date;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -34,7 +84,7 @@ export interface IQuizAttempt extends Document {
 // Sub-schemas
 // ============================================
 
-const questionResponseSchema = new Schema<IQuestionResponse>(
+export const questionResponseSchema = new Schema<IQuestionResponse>(
     {
         questionId: {
             type: Schema.Types.ObjectId,
@@ -42,9 +92,18 @@ const questionResponseSchema = new Schema<IQuestionResponse>(
         },
         selectedAnswerIndex: {
             type: Number,
-            required: [true, 'Selected answer index is required'],
-            min: [0, 'Answer index must be between 0 and 3'],
-            max: [3, 'Answer index must be between 0 and 3'],
+            default: null,
+            min: [0, 'Answer index must be between 0 and 9'],
+            max: [9, 'Answer index must be between 0 and 9'],
+        },
+        selectedAnswerIndexes: {
+            type: [Number],
+            default: undefined,
+        },
+        numericAnswer: Number,
+        textAnswer: {
+            type: String,
+            maxlength: [500, 'Answer cannot exceed 500 characters'],
         },
         responseTimeSeconds: {
             type: Number,
@@ -55,10 +114,46 @@ const questionResponseSchema = new Schema<IQuestionResponse>(
             type: Boolean,
             default: false,
         },
+        // Negative for wrong answers under negative marking
         marksAwarded: {
             type: Number,
             default: 0,
-            min: [0, 'Marks awarded cannot be negative'],
+        },
+    },
+    { _id: false }
+);
+
+const servedQuestionSchema = new Schema<IServedQuestion>(
+    {
+        questionId: {
+            type: Schema.Types.ObjectId,
+            required: true,
+        },
+        index: {
+            type: Number,
+            required: true,
+        },
+        servedAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    { _id: false }
+);
+
+const variantQuestionSchema = new Schema<IVariantQuestion>(
+    {
+        question: {
+            type: questionSchema,
+            required: true,
+        },
+        bank: {
+            type: Schema.Types.ObjectId,
+            ref: 'QuestionBank',
+        },
+        answerOrder: {
+            type: [Number],
+            default: [],
         },
     },
     { _id: false }
@@ -87,6 +182,35 @@ const quizAttemptSchema = new Schema<IQuizAttempt>(
             minlength: [2, 'Name must be at least 2 characters'],
             maxlength: [100, 'Name cannot exceed 100 characters'],
         },
+        team: {
+            type: Schema.Types.ObjectId,
+            ref: 'CompetitionTeam',
+        },
+        teamName: String,
+        submittedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'Student',
+        },
+        liveSession: {
+            type: Schema.Types.ObjectId,
+            ref: 'LiveQuizSession',
+        },
+        quizVersion: {
+            type: Number,
+            min: 1,
+        },
+        regradedToVersion: Number,
+        regradedAt: Date,
+        status: {
+            type: String,
+            enum: ['in_progress', 'completed'],
+            default: 'completed',
+        },
+        variant: {
+            type: [variantQuestionSchema],
+            default: undefined,
+        },
+        currentQuestion: servedQuestionSchema,
         responses: {
             type: [questionResponseSchema],
             required: [true, 'Responses are required'],
@@ -103,10 +227,8 @@ const quizAttemptSchema = new Schema<IQuizAttempt>(
             type: Number,
             default: 0,
         },
-        completedAt: {
-            type: Date,
-            default: Date.now,
-        },
+        startedAt: Date,
+        completedAt: Date,
     },
     {
         timestamps: true,
@@ -120,9 +242,21 @@ const quizAttemptSchema = new Schema<IQuizAttempt>(
 // ============================================
 
 quizAttemptSchema.index({ quizId: 1 });
+quizAttemptSchema.index({ quizId: 1, quizVersion: 1 });
 quizAttemptSchema.index({ studentId: 1 });
 quizAttemptSchema.index({ completedAt: -1 });
 quizAttemptSchema.index({ totalMarks: -1 });
+quizAttemptSchema.index({ liveSession: 1 }, { sparse: true });
+// At most one attempt in progress per student and quiz
+quizAttemptSchema.index(
+    { quizId: 1, studentId: 1 },
+    { unique: true, partialFilterExpression: { status: 'in_progress' } }
+);
+// One attempt per team and quiz
+quizAttemptSchema.index(
+    { quizId: 1, team: 1 },
+    { unique: true, partialFilterExpression: { team: { $exists: true } } }
+);
 
 export const QuizAttempt = mongoose.model<IQuizAttempt>('QuizAttempt', quizAttemptSchema);
 
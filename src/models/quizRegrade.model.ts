@@ -0,0 +1,119 @@
+// ============================================
+// ComES Backend - Quiz Regrade Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+// ============================================
+// Interfaces
+// ============================================
+
+// How one attempt's score changed in a regrade
+export interface IScoreChange {
+  attempt: mongoose.Types.ObjectId;
+  student: mongoose.Types.ObjectId;
+  participantName: string;
+  quizVersion: number;
+  previousMarks: number;
+  newMarks: number;
+  previousMaxMarks: number;
+  newMaxMarks: number;
+  previousPercentage: number;
+  newPercentage: number;
+  // Responses whose marks changed
+  responsesChanged: number;
+}
+
+// Audit record of rescoring a quiz's attempts against a corrected version
+export interface IQuizRegrade extends Document {
+  _id: mongoose.Types.ObjectId;
+  quiz: mongoose.Types.ObjectId;
+  toVersion: number;
+  fromVersions: number[];
+  performedBy?: mongoose.Types.ObjectId;
+  attemptsChecked: number;
+  attemptsChanged: number;
+  changes: IScoreChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Sub-schemas
+// ============================================
+
+const scoreChangeSchema = new Schema<IScoreChange>(
+  {
+    attempt: {
+      type: Schema.Types.ObjectId,
+      ref: 'QuizAttempt',
+      required: true,
+    },
+    student: {
+      type: Schema.Types.ObjectId,
+      ref: 'Student',
+      required: true,
+    },
+    participantName: String,
+    quizVersion: Number,
+    previousMarks: Number,
+    newMarks: Number,
+    previousMaxMarks: Number,
+    newMaxMarks: Number,
+    previousPercentage: Number,
+    newPercentage: Number,
+    responsesChanged: Number,
+  },
+  { _id: false }
+);
+
+// ============================================
+// Quiz Regrade Schema
+// ============================================
+
+const quizRegradeSchema = new Schema<IQuizRegrade>(
+  {
+    quiz: {
+      type: Schema.Types.ObjectId,
+      ref: 'Quiz',
+      required: [true, 'Quiz is required'],
+    },
+    toVersion: {
+      type: Number,
+      required: [true, 'Version is required'],
+    },
+    fromVersions: {
+      type: [Number],
+      default: [],
+    },
+    performedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    attemptsChecked: {
+      type: Number,
+      default: 0,
+    },
+    attemptsChanged: {
+      type: Number,
+      default: 0,
+    },
+    changes: {
+      type: [scoreChangeSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+quizRegradeSchema.index({ quiz: 1, createdAt: -1 });
+
+export const QuizRegrade = mongoose.model<IQuizRegrade>('QuizRegrade', quizRegradeSchema);
+
+export default QuizRegrade;
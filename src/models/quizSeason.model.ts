@@ -0,0 +1,92 @@
+// ============================================
+// ComES Backend - Quiz Season Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+import slugify from 'slugify';
+
+// ============================================
+// Interfaces
+// ============================================
+
+// A league over a set of quizzes, ranked on each student's best attempt at
+// every quiz in it
+export interface IQuizSeason extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  slug: string;
+  description?: string;
+  quizzes: mongoose.Types.ObjectId[];
+  // Only attempts completed inside the window count, if set
+  startsAt?: Date;
+  endsAt?: Date;
+  isPublic: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Quiz Season Schema
+// ============================================
+
+const quizSeasonSchema = new Schema<IQuizSeason>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Season name is required'],
+      trim: true,
+      minlength: [3, 'Name must be at least 3 characters'],
+      maxlength: [200, 'Name cannot exceed 200 characters'],
+    },
+    slug: {
+      type: String,
+      unique: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [2000, 'Description cannot exceed 2000 characters'],
+    },
+    quizzes: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Quiz' }],
+      default: [],
+    },
+    startsAt: Date,
+    endsAt: Date,
+    isPublic: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+quizSeasonSchema.index({ quizzes: 1 });
+
+// ============================================
+// Pre-save Middleware
+// ============================================
+
+quizSeasonSchema.pre<IQuizSeason>('validate', function (next) {
+  if (this.startsAt && this.endsAt && this.endsAt <= this.startsAt) {
+    this.invalidate('endsAt', 'Season end must be after its start');
+  }
+  next();
+});
+
+quizSeasonSchema.pre<IQuizSeason>('save', function (next) {
+  if (this.isModified('name')) {
+    this.slug = slugify(this.name, { lower: true, strict: true });
+  }
+  next();
+});
+
+export const QuizSeason = mongoose.model<IQuizSeason>('QuizSeason', quizSeasonSchema);
+
+export default QuizSeason;
@@ -0,0 +1,92 @@
+// ============================================
+// ComES Backend - Quiz Version Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+import {
+  IQuestion,
+  IQuestionDraw,
+  IScoringRules,
+  questionSchema,
+  questionDrawSchema,
+  scoringRulesSchema,
+} from './quiz.model';
+
+// ============================================
+// Interfaces
+// ============================================
+
+// The questions of a quiz, and how they are marked, as published at one
+// point. Versions are never changed, so attempts can always be traced to
+// what they were taken on.
+export interface IQuizVersion extends Document {
+  _id: mongoose.Types.ObjectId;
+  quiz: mongoose.Types.ObjectId;
+  version: number;
+  questions: IQuestion[];
+  draws: IQuestionDraw[];
+  // Missing on versions published before quizzes had scoring rules
+  scoringRules?: IScoringRules;
+  note?: string;
+  publishedBy?: mongoose.Types.ObjectId;
+  publishedAt: Date;
+}
+
+// ============================================
+// Quiz Version Schema
+// ============================================
+
+const quizVersionSchema = new Schema<IQuizVersion>({
+  quiz: {
+    type: Schema.Types.ObjectId,
+    ref: 'Quiz',
+    required: [true, 'Quiz is required'],
+    immutable: true,
+  },
+  version: {
+    type: Number,
+    required: [true, 'Version is required'],
+    min: 1,
+    immutable: true,
+  },
+  questions: {
+    type: [questionSchema],
+    default: [],
+    immutable: true,
+  },
+  draws: {
+    type: [questionDrawSchema],
+    default: [],
+    immutable: true,
+  },
+  scoringRules: {
+    type: scoringRulesSchema,
+    immutable: true,
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters'],
+    immutable: true,
+  },
+  publishedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    immutable: true,
+  },
+  publishedAt: {
+    type: Date,
+    default: Date.now,
+    immutable: true,
+  },
+});
+
+// ============================================
+// Indexes
+// ============================================
+
+quizVersionSchema.index({ quiz: 1, version: 1 }, { unique: true });
+
+export const QuizVersion = mongoose.model<IQuizVersion>('QuizVersion', quizVersionSchema);
+
+export default QuizVersion;
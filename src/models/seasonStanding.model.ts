@@ -0,0 +1,137 @@
+// ============================================
+// ComES Backend - Season Standing Model
+// ============================================
+//
+// Cached leaderboard row: a student's best attempt at each quiz of a season
+// and the totals they are ranked on. Updated as attempts complete.
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface ISeasonQuizResult {
+  quiz: mongoose.Types.ObjectId;
+  attempt: mongoose.Types.ObjectId;
+  totalMarks: number;
+  // Zero for untimed quizzes, whose response times are not measured
+  responseTimeSeconds: number;
+  completedAt: Date;
+}
+
+export interface ISeasonStanding extends Document {
+  _id: mongoose.Types.ObjectId;
+  season: mongoose.Types.ObjectId;
+  student: mongoose.Types.ObjectId;
+  participantName: string;
+  batch?: string;
+  results: ISeasonQuizResult[];
+  totalMarks: number;
+  totalResponseTimeSeconds: number;
+  quizzesPlayed: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================
+// Sub-schemas
+// ============================================
+
+const seasonQuizResultSchema = new Schema<ISeasonQuizResult>(
+  {
+    quiz: {
+      type: Schema.Types.ObjectId,
+      ref: 'Quiz',
+      required: true,
+    },
+    attempt: {
+      type: Schema.Types.ObjectId,
+      ref: 'QuizAttempt',
+      required: true,
+    },
+    totalMarks: {
+      type: Number,
+      default: 0,
+    },
+    responseTimeSeconds: {
+      type: Number,
+      default: 0,
+    },
+    completedAt: Date,
+  },
+  { _id: false }
+);
+
+// ============================================
+// Season Standing Schema
+// ============================================
+
+const seasonStandingSchema = new Schema<ISeasonStanding>(
+  {
+    season: {
+      type: Schema.Types.ObjectId,
+      ref: 'QuizSeason',
+      required: true,
+    },
+    student: {
+      type: Schema.Types.ObjectId,
+      ref: 'Student',
+      required: true,
+    },
+    participantName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    batch: String,
+    results: {
+      type: [seasonQuizResultSchema],
+      default: [],
+    },
+    totalMarks: {
+      type: Number,
+      default: 0,
+    },
+    totalResponseTimeSeconds: {
+      type: Number,
+      default: 0,
+    },
+    quizzesPlayed: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+    // Concurrent updates for one student retry instead of overwriting
+    optimisticConcurrency: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+seasonStandingSchema.index({ season: 1, student: 1 }, { unique: true });
+seasonStandingSchema.index({ season: 1, totalMarks: -1, totalResponseTimeSeconds: 1 });
+seasonStandingSchema.index({ season: 1, batch: 1, totalMarks: -1, totalResponseTimeSeconds: 1 });
+
+// ============================================
+// Pre-save Middleware
+// ============================================
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+seasonStandingSchema.pre<ISeasonStanding>('save', function (next) {
+  if (this.isModified('results')) {
+    this.totalMarks = round(this.results.reduce((sum, r) => sum + r.totalMarks, 0));
+    this.totalResponseTimeSeconds = round(this.results.reduce((sum, r) => sum + r.responseTimeSeconds, 0));
+    this.quizzesPlayed = this.results.length;
+  }
+  next();
+});
+
+export const SeasonStanding = mongoose.model<ISeasonStanding>('SeasonStanding', seasonStandingSchema);
+
+export default SeasonStanding;
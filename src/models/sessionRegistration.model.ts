@@ -0,0 +1,63 @@
+// ============================================
+// ComES Backend - Session Registration Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { ParticipantType } from './eventRegistration.model';
+
+export interface ISessionRegistration extends Document {
+  _id: mongoose.Types.ObjectId;
+  session: mongoose.Types.ObjectId;
+  event: mongoose.Types.ObjectId;
+  participantType: ParticipantType;
+  participant: mongoose.Types.ObjectId;
+  registeredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionRegistrationSchema = new Schema<ISessionRegistration>(
+  {
+    session: {
+      type: Schema.Types.ObjectId,
+      ref: 'EventSession',
+      required: true,
+    },
+    event: {
+      type: Schema.Types.ObjectId,
+      ref: 'Event',
+      required: true,
+    },
+    participantType: {
+      type: String,
+      enum: ['User', 'Student'],
+      required: true,
+    },
+    participant: {
+      type: Schema.Types.ObjectId,
+      refPath: 'participantType',
+      required: true,
+    },
+    registeredAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+sessionRegistrationSchema.index({ session: 1, participantType: 1, participant: 1 }, { unique: true });
+sessionRegistrationSchema.index({ event: 1, participantType: 1, participant: 1 });
+
+export const SessionRegistration = mongoose.model<ISessionRegistration>(
+  'SessionRegistration',
+  sessionRegistrationSchema
+);
+
+export default SessionRegistration;
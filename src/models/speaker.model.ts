@@ -0,0 +1,85 @@
+// ============================================
+// ComES Backend - Speaker Model
+// ============================================
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISpeaker extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  designation?: string;
+  organization?: string;
+  bio?: string;
+  avatar?: string;
+  email?: string;
+  linkedin?: string;
+  github?: string;
+  twitter?: string;
+  website?: string;
+  // Optional link to a site account or committee profile
+  user?: mongoose.Types.ObjectId;
+  teamMember?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const speakerSchema = new Schema<ISpeaker>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Speaker name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    designation: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Designation cannot exceed 100 characters'],
+    },
+    organization: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Organization cannot exceed 100 characters'],
+    },
+    bio: {
+      type: String,
+      maxlength: [1000, 'Bio cannot exceed 1000 characters'],
+    },
+    avatar: String,
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      select: false,
+    },
+    linkedin: String,
+    github: String,
+    twitter: String,
+    website: String,
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    teamMember: {
+      type: Schema.Types.ObjectId,
+      ref: 'TeamMember',
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// ============================================
+// Indexes
+// ============================================
+
+speakerSchema.index({ name: 1 });
+speakerSchema.index({ user: 1 }, { sparse: true });
+speakerSchema.index({ teamMember: 1 }, { sparse: true });
+
+export const Speaker = mongoose.model<ISpeaker>('Speaker', speakerSchema);
+
+export default Speaker;
@@ -6,15 +6,28 @@ import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import validator from 'validator';
 
+// Invited students were imported by an admin and have not set a password yet
+export type StudentStatus = 'invited' | 'active';
+
+// Alumni have finished semester 8 or were marked as graduated by an admin
+export type AcademicStanding = 'current' | 'alumni';
+
+export const STUDENT_STATUSES: StudentStatus[] = ['invited', 'active'];
+export const ACADEMIC_STANDINGS: AcademicStanding[] = ['current', 'alumni'];
+export const FINAL_SEMESTER = 8;
+
 export interface IStudent extends Document {
   _id: mongoose.Types.ObjectId;
   name: string;
   email: string;
   password: string;
+  status: StudentStatus;
   username: string;
   registrationNo: string;
   batch: string;
   semester?: number;
+  standing: AcademicStanding;
+  graduationYear?: number;
   contactNo?: string;
   avatar?: string;
   bio?: string;
@@ -25,14 +38,22 @@ export interface IStudent extends Document {
   isEmailVerified: boolean;
   emailVerificationToken?: string;
   emailVerificationExpires?: Date;
+  passwordChangedAt?: Date;
   passwordResetToken?: string;
   passwordResetExpires?: Date;
+  activationToken?: string;
+  activationExpires?: Date;
+  invitedAt?: Date;
+  calendarToken?: string;
   registeredEvents: mongoose.Types.ObjectId[];
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
+  changedPasswordAfter(JWTTimestamp: number): boolean;
   createEmailVerificationToken(): string;
   createPasswordResetToken(): string;
+  createActivationToken(): string;
+  createCalendarToken(): string;
 }
 
 const studentSchema = new Schema<IStudent>(
@@ -52,10 +73,20 @@ const studentSchema = new Schema<IStudent>(
     },
     password: {
       type: String,
-      required: [true, 'Please provide a password'],
+      required: [
+        function (this: IStudent) {
+          return this.status !== 'invited';
+        },
+        'Please provide a password',
+      ],
       minlength: [8, 'Password must be at least 8 characters'],
       select: false,
     },
+    status: {
+      type: String,
+      enum: STUDENT_STATUSES,
+      default: 'active',
+    },
     username: {
       type: String,
       unique: true,
@@ -82,7 +113,17 @@ const studentSchema = new Schema<IStudent>(
     semester: {
       type: Number,
       min: 1,
-      max: 8,
+      max: FINAL_SEMESTER,
+    },
+    standing: {
+      type: String,
+      enum: ACADEMIC_STANDINGS,
+      default: 'current',
+    },
+    graduationYear: {
+      type: Number,
+      min: [2000, 'Graduation year must be after 2000'],
+      max: [2100, 'Graduation year must be before 2100'],
     },
     contactNo: {
       type: String,
@@ -135,8 +176,16 @@ const studentSchema = new Schema<IStudent>(
     },
     emailVerificationToken: String,
     emailVerificationExpires: Date,
+    passwordChangedAt: Date,
     passwordResetToken: String,
     passwordResetExpires: Date,
+    activationToken: String,
+    activationExpires: Date,
+    invitedAt: Date,
+    calendarToken: {
+      type: String,
+      select: false,
+    },
     registeredEvents: [{
       type: Schema.Types.ObjectId,
       ref: 'Event',
@@ -151,8 +200,9 @@ const studentSchema = new Schema<IStudent>(
 
 // Index for better query performance
 studentSchema.index({ email: 1, registrationNo: 1 });
-studentSchema.index({ batch: 1 });
+studentSchema.index({ batch: 1, standing: 1 });
 studentSchema.index({ username: 1 });
+studentSchema.index({ calendarToken: 1 }, { sparse: true });
 
 // Pre-save middleware to hash password
 studentSchema.pre('save', async function (next) {
@@ -163,6 +213,16 @@ studentSchema.pre('save', async function (next) {
   next();
 });
 
+// Pre-save middleware to record when the password changed, which signs out
+// tokens issued before then
+studentSchema.pre('save', function (next) {
+  if (!this.isModified('password') || this.isNew) return next();
+
+  // Subtract 1 second to ensure token is created after password change
+  this.passwordChangedAt = new Date(Date.now() - 1000);
+  next();
+});
+
 // Pre-save middleware to extract batch from registration number
 studentSchema.pre('save', function (next) {
   if (this.isModified('registrationNo')) {
@@ -194,6 +254,15 @@ studentSchema.methods.comparePassword = async function (
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Method to check if password was changed after a JWT was issued
+studentSchema.methods.changedPasswordAfter = function (JWTTimestamp: number): boolean {
+  if (this.passwordChangedAt) {
+    const changedTimestamp = Math.floor(this.passwordChangedAt.getTime() / 1000);
+    return JWTTimestamp < changedTimestamp;
+  }
+  return false;
+};
+
 // Method to create email verification token
 studentSchema.methods.createEmailVerificationToken = function (): string {
   const crypto = require('crypto');
@@ -224,4 +293,32 @@ studentSchema.methods.createPasswordResetToken = function (): string {
   return token;
 };
 
+// Method to create an account activation token for invited students
+studentSchema.methods.createActivationToken = function (): string {
+  const crypto = require('crypto');
+  const token = crypto.randomBytes(32).toString('hex');
+
+  this.activationToken = crypto
+    .createHash('sha256')
+    .update(token)
+    .digest('hex');
+
+  this.activationExpires = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+
+  return token;
+};
+
+// Method to create a private calendar feed token (replaces any previous one)
+studentSchema.methods.createCalendarToken = function (): string {
+  const crypto = require('crypto');
+  const token = crypto.randomBytes(32).toString('hex');
+
+  this.calendarToken = crypto
+    .createHash('sha256')
+    .update(token)
+    .digest('hex');
+
+  return token;
+};
+
 export const Student = mongoose.model<IStudent>('Student', studentSchema);
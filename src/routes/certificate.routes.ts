@@ -0,0 +1,13 @@
+// ============================================
+// ComES Backend - Certificate Routes
+// ============================================
+
+import { Router } from 'express';
+import { verifyCertificate } from '../controllers/certificate.controller';
+
+const router = Router();
+
+// Public routes - employers verify certificates without logging in
+router.get('/:code', verifyCertificate);
+
+export default router;
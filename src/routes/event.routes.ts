@@ -13,23 +13,70 @@ import {
   deleteEvent,
   registerForEvent,
   unregisterFromEvent,
+  getEventRegistrations,
+  exportEventRegistrations,
+  getStatusSyncRuns,
+  runStatusSync,
+  removeRegistration,
+  getEventWaitlist,
+  checkInAttendee,
+  getAttendanceReport,
+  getEventsCalendarFeed,
+  getEventCalendar,
 } from '../controllers/event.controller';
+import { generateEventCertificates } from '../controllers/certificate.controller';
+import {
+  getEventAgenda,
+  createSession,
+  updateSession,
+  deleteSession,
+  getSessionRegistrations,
+  registerUserForSession,
+  unregisterUserFromSession,
+} from '../controllers/agenda.controller';
+import {
+  getEventSurvey,
+  createSurvey,
+  updateSurvey,
+  deleteSurvey,
+  getSurveyResults,
+  exportSurveyResults,
+  compareSurveys,
+} from '../controllers/feedback.controller';
 import { protect, restrictTo, optionalAuth } from '../middleware/auth.middleware';
-import { validate, eventValidations, commonValidations } from '../middleware/validation.middleware';
+import {
+  validate,
+  validateRegistrationForm,
+  eventValidations,
+  feedbackValidations,
+  commonValidations,
+} from '../middleware/validation.middleware';
 
 const router = Router();
 
+// Admin: status sync job and survey comparison (registered before /:id so the paths are not read as IDs)
+router.get('/status-sync', protect, restrictTo('admin'), getStatusSyncRuns);
+router.post('/status-sync', protect, restrictTo('admin'), runStatusSync);
+router.get('/survey-comparison', protect, restrictTo('admin'), compareSurveys);
+
 // Public routes
 router.get('/', getAllEvents);
 router.get('/featured', getFeaturedEvents);
+router.get('/calendar.ics', getEventsCalendarFeed);
 router.get('/slug/:slug', getEventBySlug);
+router.get('/slug/:slug/calendar.ics', getEventCalendar);
+router.get('/slug/:slug/agenda', getEventAgenda);
 router.get('/:id', validate(commonValidations.mongoId('id')), getEvent);
+router.get('/:id/calendar.ics', validate(commonValidations.mongoId('id')), getEventCalendar);
+router.get('/:id/agenda', validate(commonValidations.mongoId('id')), getEventAgenda);
+router.get('/:id/survey', validate(commonValidations.mongoId('id')), getEventSurvey);
 
 // Protected routes
 router.post(
   '/:id/register',
   protect,
   validate(commonValidations.mongoId('id')),
+  validateRegistrationForm('id'),
   registerForEvent
 );
 router.delete(
@@ -38,20 +85,41 @@ router.delete(
   validate(commonValidations.mongoId('id')),
   unregisterFromEvent
 );
+router.post(
+  '/:id/sessions/:sessionId/register',
+  protect,
+  validate([...commonValidations.mongoId('id'), ...commonValidations.mongoId('sessionId')]),
+  registerUserForSession
+);
+router.delete(
+  '/:id/sessions/:sessionId/register',
+  protect,
+  validate([...commonValidations.mongoId('id'), ...commonValidations.mongoId('sessionId')]),
+  unregisterUserFromSession
+);
+
+// Check-in (admins and society members volunteering at the door)
+router.post(
+  '/:id/check-in',
+  protect,
+  restrictTo('admin', 'member'),
+  validate([...commonValidations.mongoId('id'), ...eventValidations.checkIn]),
+  checkInAttendee
+);
 
 // Admin only routes
 router.post(
   '/',
   protect,
   restrictTo('admin'),
-  validate(eventValidations.create),
+  validate([...eventValidations.create, ...eventValidations.registrationForm]),
   createEvent
 );
 router.patch(
   '/:id',
   protect,
   restrictTo('admin'),
-  validate([...commonValidations.mongoId('id'), ...eventValidations.update]),
+  validate([...commonValidations.mongoId('id'), ...eventValidations.update, ...eventValidations.registrationForm]),
   updateEvent
 );
 router.delete(
@@ -61,5 +129,115 @@ router.delete(
   validate(commonValidations.mongoId('id')),
   deleteEvent
 );
+router.get(
+  '/:id/attendance',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  getAttendanceReport
+);
+router.post(
+  '/:id/certificates',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  generateEventCertificates
+);
+router.get(
+  '/:id/registrations',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  getEventRegistrations
+);
+router.get(
+  '/:id/registrations/export',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  exportEventRegistrations
+);
+router.get(
+  '/:id/waitlist',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  getEventWaitlist
+);
+router.delete(
+  '/:id/registrations/:participantId',
+  protect,
+  restrictTo('admin'),
+  validate([...commonValidations.mongoId('id'), ...commonValidations.mongoId('participantId')]),
+  removeRegistration
+);
+router.post(
+  '/:id/sessions',
+  protect,
+  restrictTo('admin'),
+  validate([...commonValidations.mongoId('id'), ...eventValidations.createSession, ...eventValidations.session]),
+  createSession
+);
+router.patch(
+  '/:id/sessions/:sessionId',
+  protect,
+  restrictTo('admin'),
+  validate([
+    ...commonValidations.mongoId('id'),
+    ...commonValidations.mongoId('sessionId'),
+    ...eventValidations.updateSession,
+    ...eventValidations.session,
+  ]),
+  updateSession
+);
+router.delete(
+  '/:id/sessions/:sessionId',
+  protect,
+  restrictTo('admin'),
+  validate([...commonValidations.mongoId('id'), ...commonValidations.mongoId('sessionId')]),
+  deleteSession
+);
+router.get(
+  '/:id/sessions/:sessionId/registrations',
+  protect,
+  restrictTo('admin'),
+  validate([...commonValidations.mongoId('id'), ...commonValidations.mongoId('sessionId')]),
+  getSessionRegistrations
+);
+router.post(
+  '/:id/survey',
+  protect,
+  restrictTo('admin'),
+  validate([...commonValidations.mongoId('id'), ...feedbackValidations.createSurvey, ...feedbackValidations.survey]),
+  createSurvey
+);
+router.patch(
+  '/:id/survey',
+  protect,
+  restrictTo('admin'),
+  validate([...commonValidations.mongoId('id'), ...feedbackValidations.updateSurvey, ...feedbackValidations.survey]),
+  updateSurvey
+);
+router.delete(
+  '/:id/survey',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  deleteSurvey
+);
+router.get(
+  '/:id/survey/results',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  getSurveyResults
+);
+router.get(
+  '/:id/survey/results/export',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  exportSurveyResults
+);
 
 export default router;
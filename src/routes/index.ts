@@ -14,3 +14,8 @@ export { default as studentRoutes } from './student.routes';
 export { default as competitionTeamRoutes } from './competitionTeam.routes';
 export { default as analyticsRoutes } from './analytics.routes';
 export { default as quizRoutes } from './quiz.routes';
+export { default as liveQuizRoutes } from './liveQuiz.routes';
+export { default as questionBankRoutes } from './questionBank.routes';
+export { default as quizSeasonRoutes } from './quizSeason.routes';
+export { default as certificateRoutes } from './certificate.routes';
+export { default as speakerRoutes } from './speaker.routes';
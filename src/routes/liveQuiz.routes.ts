@@ -0,0 +1,81 @@
+// ============================================
+// ComES Backend - Live Quiz Routes
+// ============================================
+
+import { Router } from 'express';
+import {
+    createSession,
+    getSession,
+    streamToHost,
+    nextQuestion,
+    closeQuestion,
+    finishSession,
+    joinSession,
+    streamToPlayer,
+    submitAnswer,
+} from '../controllers/liveQuiz.controller';
+import { protect, restrictTo, protectStudent } from '../middleware/auth.middleware';
+import { validate, liveQuizValidations, commonValidations } from '../middleware/validation.middleware';
+
+const router = Router();
+
+// Student routes - playing
+router.post('/join', protectStudent, validate(liveQuizValidations.join), joinSession);
+router.get(
+    '/:sessionId/stream',
+    protectStudent,
+    validate(commonValidations.mongoId('sessionId')),
+    streamToPlayer
+);
+router.post(
+    '/:sessionId/answer',
+    protectStudent,
+    validate([...commonValidations.mongoId('sessionId'), ...liveQuizValidations.answer]),
+    submitAnswer
+);
+
+// Admin only routes - hosting
+router.post(
+    '/',
+    protect,
+    restrictTo('admin'),
+    validate(liveQuizValidations.create),
+    createSession
+);
+router.get(
+    '/:sessionId',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('sessionId')),
+    getSession
+);
+router.get(
+    '/:sessionId/host-stream',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('sessionId')),
+    streamToHost
+);
+router.post(
+    '/:sessionId/next',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('sessionId')),
+    nextQuestion
+);
+router.post(
+    '/:sessionId/close-question',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('sessionId')),
+    closeQuestion
+);
+router.post(
+    '/:sessionId/finish',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('sessionId')),
+    finishSession
+);
+
+export default router;
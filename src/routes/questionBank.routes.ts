@@ -0,0 +1,31 @@
+// ============================================
+// ComES Backend - Question Bank Routes
+// ============================================
+
+import { Router } from 'express';
+import {
+    getAllQuestionBanks,
+    getQuestionBank,
+    createQuestionBank,
+    updateQuestionBank,
+    deleteQuestionBank,
+} from '../controllers/questionBank.controller';
+import { protect, restrictTo } from '../middleware/auth.middleware';
+import { validate, questionBankValidations, commonValidations } from '../middleware/validation.middleware';
+
+const router = Router();
+
+// Question banks hold correct answers, so every route is admin only
+router.use(protect, restrictTo('admin'));
+
+router.get('/', getAllQuestionBanks);
+router.get('/:id', validate(commonValidations.mongoId('id')), getQuestionBank);
+router.post('/', validate(questionBankValidations.create), createQuestionBank);
+router.patch(
+    '/:id',
+    validate([...commonValidations.mongoId('id'), ...questionBankValidations.update]),
+    updateQuestionBank
+);
+router.delete('/:id', validate(commonValidations.mongoId('id')), deleteQuestionBank);
+
+export default router;
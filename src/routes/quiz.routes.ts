@@ -12,15 +12,42 @@ import {
     toggleVisibility,
     submitQuizAttempt,
     getQuizAttempts,
+    startQuizAttempt,
+    getNextQuestion,
+    answerAttemptQuestion,
+    finishQuizAttempt,
+    reviewQuizAttempt,
+    getAttemptVariantPreview,
+    getMyQuizStatus,
+    getQuizAnalysis,
+    previewQuizScoring,
+    importQuiz,
+    exportQuiz,
+    getQuizDraft,
+    saveQuizDraft,
+    discardQuizDraft,
+    publishQuizDraft,
+    getQuizVersions,
+    getQuizVersion,
+    regradeQuizAttempts,
+    getQuizRegrades,
+    getQuizTeamLeaderboard,
 } from '../controllers/quiz.controller';
-import { protect, restrictTo, protectStudent } from '../middleware/auth.middleware';
+import { protect, restrictTo, protectStudent, optionalAuth } from '../middleware/auth.middleware';
 import { validate, quizValidations, commonValidations } from '../middleware/validation.middleware';
+import { uploadSingleFile } from '../middleware/upload.middleware';
 
 const router = Router();
 
-// Public routes - anyone can browse quizzes
-router.get('/', getAllQuizzes);
-router.get('/:id', validate(commonValidations.mongoId('id')), getQuizById);
+// Public routes - anyone can browse quizzes (admins get the full view)
+router.get('/', optionalAuth, getAllQuizzes);
+router.get('/:id', optionalAuth, validate(commonValidations.mongoId('id')), getQuizById);
+router.get(
+    '/:id/team-leaderboard',
+    optionalAuth,
+    validate([...commonValidations.mongoId('id'), ...commonValidations.pagination]),
+    getQuizTeamLeaderboard
+);
 
 // Admin only routes - quiz management
 router.post(
@@ -30,6 +57,21 @@ router.post(
     validate(quizValidations.create),
     createQuiz
 );
+router.post(
+    '/import',
+    protect,
+    restrictTo('admin'),
+    uploadSingleFile('file'),
+    validate(quizValidations.importQuiz),
+    importQuiz
+);
+router.get(
+    '/:id/export',
+    protect,
+    restrictTo('admin'),
+    validate([...commonValidations.mongoId('id'), ...quizValidations.exportQuiz]),
+    exportQuiz
+);
 router.patch(
     '/:id',
     protect,
@@ -58,6 +100,85 @@ router.get(
     validate(commonValidations.mongoId('id')),
     getQuizAttempts
 );
+router.get(
+    '/:id/analysis',
+    protect,
+    restrictTo('admin'),
+    validate([...commonValidations.mongoId('id'), ...quizValidations.analysis]),
+    getQuizAnalysis
+);
+router.post(
+    '/:id/scoring-preview',
+    protect,
+    restrictTo('admin'),
+    validate([...commonValidations.mongoId('id'), ...quizValidations.scoringPreview]),
+    previewQuizScoring
+);
+
+// Admin only routes - drafts, versions and regrades
+router.get(
+    '/:id/draft',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('id')),
+    getQuizDraft
+);
+router.put(
+    '/:id/draft',
+    protect,
+    restrictTo('admin'),
+    validate([...commonValidations.mongoId('id'), ...quizValidations.saveDraft]),
+    saveQuizDraft
+);
+router.delete(
+    '/:id/draft',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('id')),
+    discardQuizDraft
+);
+router.post(
+    '/:id/publish',
+    protect,
+    restrictTo('admin'),
+    validate([...commonValidations.mongoId('id'), ...quizValidations.publish]),
+    publishQuizDraft
+);
+router.get(
+    '/:id/versions',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('id')),
+    getQuizVersions
+);
+router.get(
+    '/:id/versions/:version',
+    protect,
+    restrictTo('admin'),
+    validate([...commonValidations.mongoId('id'), ...quizValidations.version]),
+    getQuizVersion
+);
+router.post(
+    '/:id/regrade',
+    protect,
+    restrictTo('admin'),
+    validate([...commonValidations.mongoId('id'), ...quizValidations.regrade]),
+    regradeQuizAttempts
+);
+router.get(
+    '/:id/regrades',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('id')),
+    getQuizRegrades
+);
+router.get(
+    '/attempts/:attemptId/variant',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('attemptId')),
+    getAttemptVariantPreview
+);
 
 // Student only routes - quiz taking
 router.post(
@@ -66,5 +187,41 @@ router.post(
     validate([...commonValidations.mongoId('id'), ...quizValidations.submitAttempt]),
     submitQuizAttempt
 );
+router.get(
+    '/:id/my-status',
+    protectStudent,
+    validate(commonValidations.mongoId('id')),
+    getMyQuizStatus
+);
+router.post(
+    '/:id/attempts/start',
+    protectStudent,
+    validate([...commonValidations.mongoId('id'), ...quizValidations.startAttempt]),
+    startQuizAttempt
+);
+router.post(
+    '/attempts/:attemptId/next',
+    protectStudent,
+    validate(commonValidations.mongoId('attemptId')),
+    getNextQuestion
+);
+router.post(
+    '/attempts/:attemptId/answer',
+    protectStudent,
+    validate([...commonValidations.mongoId('attemptId'), ...quizValidations.answerQuestion]),
+    answerAttemptQuestion
+);
+router.post(
+    '/attempts/:attemptId/finish',
+    protectStudent,
+    validate(commonValidations.mongoId('attemptId')),
+    finishQuizAttempt
+);
+router.get(
+    '/attempts/:attemptId/review',
+    protectStudent,
+    validate(commonValidations.mongoId('attemptId')),
+    reviewQuizAttempt
+);
 
 export default router;
@@ -0,0 +1,60 @@
+// ============================================
+// ComES Backend - Quiz Season Routes
+// ============================================
+
+import { Router } from 'express';
+import {
+    getAllSeasons,
+    getSeason,
+    getLeaderboard,
+    createSeason,
+    updateSeason,
+    deleteSeason,
+    rebuildSeason,
+} from '../controllers/quizSeason.controller';
+import { protect, restrictTo, optionalAuth } from '../middleware/auth.middleware';
+import { validate, quizSeasonValidations, commonValidations } from '../middleware/validation.middleware';
+
+const router = Router();
+
+// Public routes - anyone can follow the league (admins also see hidden seasons)
+router.get('/', optionalAuth, getAllSeasons);
+router.get('/:id', optionalAuth, validate(commonValidations.mongoId('id')), getSeason);
+router.get(
+    '/:id/leaderboard',
+    optionalAuth,
+    validate([...commonValidations.mongoId('id'), ...quizSeasonValidations.leaderboard]),
+    getLeaderboard
+);
+
+// Admin only routes - season management
+router.post(
+    '/',
+    protect,
+    restrictTo('admin'),
+    validate(quizSeasonValidations.create),
+    createSeason
+);
+router.patch(
+    '/:id',
+    protect,
+    restrictTo('admin'),
+    validate([...commonValidations.mongoId('id'), ...quizSeasonValidations.update]),
+    updateSeason
+);
+router.delete(
+    '/:id',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('id')),
+    deleteSeason
+);
+router.post(
+    '/:id/rebuild',
+    protect,
+    restrictTo('admin'),
+    validate(commonValidations.mongoId('id')),
+    rebuildSeason
+);
+
+export default router;
@@ -0,0 +1,74 @@
+// ============================================
+// ComES Backend - Speaker Routes
+// ============================================
+
+import { Router } from 'express';
+import {
+  getAllSpeakers,
+  getSpeaker,
+  createSpeaker,
+  updateSpeaker,
+  deleteSpeaker,
+} from '../controllers/speaker.controller';
+import { protect, restrictTo } from '../middleware/auth.middleware';
+import { validate, commonValidations } from '../middleware/validation.middleware';
+import { body } from 'express-validator';
+
+const router = Router();
+
+// Validation rules for speakers
+const speakerValidation = {
+  create: [
+    body('name')
+      .trim()
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Name must be between 2 and 100 characters'),
+    body('bio')
+      .optional()
+      .isLength({ max: 1000 })
+      .withMessage('Bio cannot exceed 1000 characters'),
+    body(['avatar', 'linkedin', 'github', 'twitter', 'website'])
+      .optional()
+      .trim()
+      .isURL()
+      .withMessage('Invalid URL'),
+    body('email')
+      .optional()
+      .trim()
+      .isEmail()
+      .withMessage('Invalid email address'),
+    body(['user', 'teamMember'])
+      .optional()
+      .isMongoId()
+      .withMessage('Invalid ID format'),
+  ],
+};
+
+// Public routes
+router.get('/', getAllSpeakers);
+router.get('/:id', validate(commonValidations.mongoId('id')), getSpeaker);
+
+// Admin only routes
+router.post(
+  '/',
+  protect,
+  restrictTo('admin'),
+  validate(speakerValidation.create),
+  createSpeaker
+);
+router.patch(
+  '/:id',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  updateSpeaker
+);
+router.delete(
+  '/:id',
+  protect,
+  restrictTo('admin'),
+  validate(commonValidations.mongoId('id')),
+  deleteSpeaker
+);
+
+export default router;
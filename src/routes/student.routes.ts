@@ -10,24 +10,63 @@ import {
   getProfile,
   updateProfile,
   verifyEmail,
+  forgotPassword,
+  resetPassword,
+  resendVerification,
+  activateAccount,
+  importStudents,
+  resendInvitation,
+  advanceStudentBatch,
+  setStudentBatchSemester,
+  updateAcademicStanding,
   getAllStudents,
   searchStudents,
   changePassword,
   getMyEvents,
   registerForEvent,
   unregisterFromEvent,
+  joinWaitlist,
+  leaveWaitlist,
+  getMyWaitlistPosition,
+  getMyTicket,
+  createCalendarFeed,
+  revokeCalendarFeed,
+  getStudentCalendarFeed,
   getStudentPortfolio,
   deleteAccount,
   deleteStudentByAdmin,
   sendNotificationToStudent,
   sendNotificationToAllStudents,
 } from '../controllers/student.controller';
+import { getMyCertificates, downloadMyCertificate } from '../controllers/certificate.controller';
+import { registerStudentForSession, unregisterStudentFromSession } from '../controllers/agenda.controller';
+import { getMySurveyStatus, submitSurveyResponse } from '../controllers/feedback.controller';
 import { protect, restrictTo, protectStudent } from '../middleware/auth.middleware';
-import { validate } from '../middleware/validation.middleware';
-import { body } from 'express-validator';
+import {
+  validate,
+  validateRegistrationForm,
+  feedbackValidations,
+  commonValidations,
+} from '../middleware/validation.middleware';
+import { uploadSingleFile } from '../middleware/upload.middleware';
+import { body, param, query } from 'express-validator';
+import { ACADEMIC_STANDINGS, FINAL_SEMESTER } from '../models/student.model';
 
 const router = Router();
 
+const batchParam = param('batch')
+  .matches(/^\d{4}$/)
+  .withMessage('Batches are entry years, e.g. 2021');
+
+const semesterMessage = `Semester must be between 1 and ${FINAL_SEMESTER}`;
+const standingMessage = `Standing must be one of: ${ACADEMIC_STANDINGS.join(', ')}`;
+
+const graduationYearField = body('graduationYear')
+  .optional()
+  .isInt({ min: 2000, max: 2100 })
+  .withMessage('Graduation year must be between 2000 and 2100')
+  .toInt();
+
 // Validation rules
 const studentValidation = {
   register: [
@@ -58,6 +97,75 @@ const studentValidation = {
       .notEmpty()
       .withMessage('Password is required'),
   ],
+  email: [
+    body('email')
+      .isEmail()
+      .normalizeEmail()
+      .withMessage('Please provide a valid email'),
+  ],
+  resetPassword: [
+    body('password')
+      .isLength({ min: 8 })
+      .withMessage('Password must be at least 8 characters'),
+    body('passwordConfirm')
+      .custom((value, { req }) => value === req.body.password)
+      .withMessage('Passwords do not match'),
+  ],
+  // Current students or alumni
+  list: [
+    query('standing')
+      .optional()
+      .isIn(ACADEMIC_STANDINGS)
+      .withMessage(standingMessage),
+    query('semester')
+      .optional()
+      .isInt({ min: 1, max: FINAL_SEMESTER })
+      .withMessage(semesterMessage),
+  ],
+  notifyAll: [
+    body('standing')
+      .optional()
+      .isIn(ACADEMIC_STANDINGS)
+      .withMessage(standingMessage),
+    body('batch')
+      .optional()
+      .matches(/^\d{4}$/)
+      .withMessage('Batches are entry years, e.g. 2021'),
+    body('semester')
+      .optional()
+      .isInt({ min: 1, max: FINAL_SEMESTER })
+      .withMessage(semesterMessage)
+      .toInt(),
+  ],
+  advanceBatch: [batchParam, graduationYearField],
+  batchSemester: [
+    batchParam,
+    body('semester')
+      .isInt({ min: 1, max: FINAL_SEMESTER })
+      .withMessage(semesterMessage)
+      .toInt(),
+  ],
+  academic: [
+    ...commonValidations.mongoId('id'),
+    body('semester')
+      .optional()
+      .isInt({ min: 1, max: FINAL_SEMESTER })
+      .withMessage(semesterMessage)
+      .toInt(),
+    body('standing')
+      .optional()
+      .isIn(ACADEMIC_STANDINGS)
+      .withMessage(standingMessage),
+    graduationYearField,
+  ],
+  // Multipart fields sent with the CSV file
+  import: [
+    body('dryRun')
+      .optional()
+      .isBoolean()
+      .withMessage('dryRun must be a boolean')
+      .toBoolean(),
+  ],
 };
 
 // Public routes
@@ -65,13 +173,48 @@ router.post('/register', validate(studentValidation.register), register);
 router.post('/login', validate(studentValidation.login), login);
 router.post('/refresh-token', refreshStudentToken);
 router.get('/verify-email/:token', verifyEmail);
+router.post('/resend-verification', validate(studentValidation.email), resendVerification);
+router.post('/forgot-password', validate(studentValidation.email), forgotPassword);
+router.patch('/reset-password/:token', validate(studentValidation.resetPassword), resetPassword);
+router.post('/activate/:token', validate(studentValidation.resetPassword), activateAccount);
 router.get('/portfolio/:username', getStudentPortfolio);
+router.get('/calendar/:token.ics', getStudentCalendarFeed);
 
 // Admin routes (must be before protectStudent middleware)
-router.get('/', protect, restrictTo('admin'), getAllStudents);
+router.get('/', protect, restrictTo('admin'), validate(studentValidation.list), getAllStudents);
+router.post(
+  '/import',
+  protect,
+  restrictTo('admin'),
+  uploadSingleFile('file'),
+  validate(studentValidation.import),
+  importStudents
+);
+router.post('/:id/invite', protect, restrictTo('admin'), validate(commonValidations.mongoId('id')), resendInvitation);
+router.patch('/:id/academic', protect, restrictTo('admin'), validate(studentValidation.academic), updateAcademicStanding);
+router.post(
+  '/batches/:batch/advance',
+  protect,
+  restrictTo('admin'),
+  validate(studentValidation.advanceBatch),
+  advanceStudentBatch
+);
+router.patch(
+  '/batches/:batch/semester',
+  protect,
+  restrictTo('admin'),
+  validate(studentValidation.batchSemester),
+  setStudentBatchSemester
+);
 router.delete('/:id', protect, restrictTo('admin'), deleteStudentByAdmin);
 router.post('/notify', protect, restrictTo('admin'), sendNotificationToStudent);
-router.post('/notify-all', protect, restrictTo('admin'), sendNotificationToAllStudents);
+router.post(
+  '/notify-all',
+  protect,
+  restrictTo('admin'),
+  validate(studentValidation.notifyAll),
+  sendNotificationToAllStudents
+);
 
 // Student authenticated routes
 router.use(protectStudent);
@@ -79,10 +222,22 @@ router.use(protectStudent);
 router.get('/me', getProfile);
 router.patch('/me', updateProfile);
 router.delete('/me', deleteAccount);
+router.post('/me/calendar', createCalendarFeed);
+router.delete('/me/calendar', revokeCalendarFeed);
+router.get('/me/certificates', getMyCertificates);
+router.get('/me/certificates/:code', downloadMyCertificate);
 router.post('/change-password', changePassword);
 router.get('/my-events', getMyEvents);
-router.post('/events/:eventId/register', registerForEvent);
+router.post('/events/:eventId/register', validateRegistrationForm('eventId'), registerForEvent);
 router.delete('/events/:eventId/unregister', unregisterFromEvent);
-router.get('/search', searchStudents);
+router.get('/events/:eventId/waitlist', getMyWaitlistPosition);
+router.post('/events/:eventId/waitlist', validateRegistrationForm('eventId'), joinWaitlist);
+router.delete('/events/:eventId/waitlist', leaveWaitlist);
+router.post('/events/:eventId/sessions/:sessionId/register', registerStudentForSession);
+router.delete('/events/:eventId/sessions/:sessionId/register', unregisterStudentFromSession);
+router.get('/events/:eventId/survey', getMySurveyStatus);
+router.post('/events/:eventId/survey', validate(feedbackValidations.submitResponse), submitSurveyResponse);
+router.get('/events/:eventId/ticket', getMyTicket);
+router.get('/search', validate(studentValidation.list), searchStudents);
 
 export default router;
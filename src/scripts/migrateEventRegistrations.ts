@@ -0,0 +1,109 @@
+// ============================================
+// ComES Backend - Event Registration Migration
+// ============================================
+//
+// One-off migration to the unified EventRegistration collection:
+//   1. converts student tickets (`student` field) to participant records
+//   2. creates records for the legacy Event.registrations / Event.waitlist arrays
+//   3. recomputes Event.registeredCount and drops the legacy arrays
+//
+// Safe to run more than once. Usage: npm run migrate:registrations
+
+import dotenv from 'dotenv';
+import path from 'path';
+
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+import mongoose from 'mongoose';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { Event, EventRegistration, Student } from '../models';
+import { SEATED_STATUSES } from '../utils/registration';
+import { logger } from '../utils/logger';
+
+interface LegacyEvent {
+  _id: mongoose.Types.ObjectId;
+  registrations?: mongoose.Types.ObjectId[];
+  waitlist?: { student: mongoose.Types.ObjectId; joinedAt: Date }[];
+}
+
+const convertStudentTickets = async (): Promise<void> => {
+  const result = await EventRegistration.collection.updateMany({ student: { $exists: true } }, [
+    {
+      $set: {
+        participantType: 'Student',
+        participant: '$student',
+        status: { $cond: [{ $ifNull: ['$checkedInAt', false] }, 'attended', 'confirmed'] },
+        confirmedAt: '$registeredAt',
+      },
+    },
+    { $unset: 'student' },
+  ]);
+  logger.info(`Converted ${result.modifiedCount} student ticket(s)`);
+
+  // The old unique index on { event, student } would reject new participant records
+  const indexes = await EventRegistration.collection.indexes();
+  if (indexes.some((index) => index.name === 'event_1_student_1')) {
+    await EventRegistration.collection.dropIndex('event_1_student_1');
+  }
+  await EventRegistration.syncIndexes();
+};
+
+const upsertRegistration = async (
+  eventId: mongoose.Types.ObjectId,
+  participantId: mongoose.Types.ObjectId,
+  fields: Record<string, unknown>
+): Promise<void> => {
+  const participantType = (await Student.exists({ _id: participantId })) ? 'Student' : 'User';
+
+  const exists = await EventRegistration.exists({ event: eventId, participantType, participant: participantId });
+  if (exists) return;
+
+  // create() runs the validate hook that issues the ticket code
+  await EventRegistration.create({ event: eventId, participantType, participant: participantId, ...fields });
+};
+
+const migrateLegacyArrays = async (): Promise<void> => {
+  const events = await Event.collection
+    .find<LegacyEvent>({ $or: [{ registrations: { $exists: true } }, { waitlist: { $exists: true } }] })
+    .project<LegacyEvent>({ registrations: 1, waitlist: 1 })
+    .toArray();
+
+  for (const event of events) {
+    for (const participantId of event.registrations || []) {
+      await upsertRegistration(event._id, participantId, { status: 'confirmed', confirmedAt: new Date() });
+    }
+
+    for (const entry of event.waitlist || []) {
+      await upsertRegistration(event._id, entry.student, { status: 'waitlisted', waitlistedAt: entry.joinedAt });
+    }
+
+    const registeredCount = await EventRegistration.countDocuments({
+      event: event._id,
+      status: { $in: SEATED_STATUSES },
+    });
+
+    await Event.collection.updateOne(
+      { _id: event._id },
+      { $set: { registeredCount }, $unset: { registrations: '', waitlist: '' } }
+    );
+  }
+
+  logger.info(`Migrated registrations of ${events.length} event(s)`);
+};
+
+const run = async (): Promise<void> => {
+  await connectDatabase();
+
+  try {
+    await convertStudentTickets();
+    await migrateLegacyArrays();
+    logger.info('Event registration migration complete');
+  } finally {
+    await disconnectDatabase();
+  }
+};
+
+run().catch((error) => {
+  logger.error('Event registration migration failed:', error);
+  process.exit(1);
+});
@@ -11,6 +11,11 @@ dotenv.config({ path: path.join(__dirname, '../.env') });
 import app from './app';
 import { connectDatabase } from './config/database';
 import { logger } from './utils/logger';
+import { scheduleJob, stopScheduler } from './utils/scheduler';
+import { processEventNotifications } from './utils/eventNotifications';
+import { syncEventStatuses } from './utils/eventStatus';
+import { closeLiveStreams } from './utils/liveQuiz';
+import config from './config';
 
 const PORT = process.env.PORT || 5000;
 
@@ -80,6 +85,15 @@ if (process.env.VERCEL !== '1') {
         logger.info(`❤️  Health check at http://localhost:${PORT}/api/v1/health`);
       });
 
+      // Background jobs
+      if (config.scheduler.enabled) {
+        // Catch up on status changes missed while the server was down
+        syncEventStatuses('startup').catch((error) => logger.error('Startup event status sweep failed:', error));
+
+        scheduleJob('event-status-sync', config.scheduler.intervalMs, () => syncEventStatuses('schedule'));
+        scheduleJob('event-notifications', config.scheduler.intervalMs, processEventNotifications);
+      }
+
       // Handle unhandled promise rejections
       process.on('unhandledRejection', (err: Error) => {
         logger.error('UNHANDLED REJECTION! 💥 Shutting down...');
@@ -92,6 +106,8 @@ if (process.env.VERCEL !== '1') {
       // Graceful shutdown
       process.on('SIGTERM', () => {
         logger.info('👋 SIGTERM RECEIVED. Shutting down gracefully');
+        stopScheduler();
+        closeLiveStreams();
         server.close(() => {
           logger.info('💤 Process terminated!');
         });
@@ -99,6 +115,8 @@ if (process.env.VERCEL !== '1') {
 
       process.on('SIGINT', () => {
         logger.info('👋 SIGINT RECEIVED. Shutting down gracefully');
+        stopScheduler();
+        closeLiveStreams();
         server.close(() => {
           logger.info('💤 Process terminated!');
         });
@@ -0,0 +1,153 @@
+import { Quiz, IQuestion, IScoringRules } from '../../models/quiz.model';
+import { ValidationError } from '../errors';
+import { DEFAULT_SCORING_RULES, scoreAnswer, scoreResponses, totalScore, previewScoring } from '../quizScoring';
+
+// Four single-choice questions of 10 marks and 20 seconds; answer 0 is correct
+const questions: IQuestion[] = new Quiz({
+  title: 'Scoring',
+  questions: Array.from({ length: 4 }, (_v, i) => ({
+    questionText: `Question ${i + 1}`,
+    answers: [
+      { text: 'Right', isCorrect: true },
+      { text: 'Wrong', isCorrect: false },
+    ],
+    timeLimitSeconds: 20,
+    marks: 10,
+  })),
+}).questions;
+
+const rules = (overrides: Partial<IScoringRules>): IScoringRules => ({ ...DEFAULT_SCORING_RULES, ...overrides });
+
+const right = { selectedAnswerIndex: 0 };
+const wrong = { selectedAnswerIndex: 1 };
+const unanswered = { selectedAnswerIndex: null };
+const noContext = { responseTimeSeconds: 0, streak: 0 };
+
+const responsesTo = (answers: { selectedAnswerIndex: number | null }[], responseTimeSeconds = 0) =>
+  answers.map((answer, i) => ({ questionId: questions[i]._id, responseTimeSeconds, ...answer }));
+
+describe('flat strategy', () => {
+  const flat = rules({ strategy: 'flat' });
+
+  it('awards full marks however long the answer took', () => {
+    expect(scoreAnswer(questions[0], right, { responseTimeSeconds: 19, streak: 0 }, flat)).toEqual({
+      isCorrect: true,
+      marksAwarded: 10,
+    });
+  });
+
+  it('awards nothing for wrong answers', () => {
+    expect(scoreAnswer(questions[0], wrong, noContext, flat)).toEqual({ isCorrect: false, marksAwarded: 0 });
+  });
+});
+
+describe('speed strategy', () => {
+  it('awards marks in proportion to the time left', () => {
+    expect(scoreAnswer(questions[0], right, { responseTimeSeconds: 5, streak: 0 }, rules({})).marksAwarded).toBe(7.5);
+  });
+
+  it('never awards less than the floor for a correct answer', () => {
+    const late = { responseTimeSeconds: 20, streak: 0 };
+
+    expect(scoreAnswer(questions[0], right, late, rules({ speedFloor: 0.1 })).marksAwarded).toBe(1);
+    expect(scoreAnswer(questions[0], right, late, rules({ speedFloor: 0.4 })).marksAwarded).toBe(4);
+  });
+
+  it('awards nothing for an answer at the time limit with a zero floor', () => {
+    const late = { responseTimeSeconds: 25, streak: 0 };
+
+    expect(scoreAnswer(questions[0], right, late, rules({ speedFloor: 0 }))).toEqual({
+      isCorrect: true,
+      marksAwarded: 0,
+    });
+  });
+
+  it('ignores response times on untimed quizzes', () => {
+    const [scored] = scoreResponses(questions, responsesTo([right], 15), rules({}), { isTimed: false });
+
+    expect(scored.marksAwarded).toBe(10);
+  });
+});
+
+describe('negative strategy', () => {
+  const negative = rules({ strategy: 'negative', wrongAnswerPenalty: 0.25 });
+
+  it('takes the penalty off for wrong answers', () => {
+    expect(scoreAnswer(questions[0], wrong, noContext, negative).marksAwarded).toBe(-2.5);
+  });
+
+  it('does not penalize questions left unanswered', () => {
+    expect(scoreAnswer(questions[0], unanswered, noContext, negative).marksAwarded).toBe(0);
+  });
+
+  it('never totals below zero', () => {
+    const scored = scoreResponses(questions, responsesTo([wrong, wrong, right, wrong]), negative, { isTimed: false });
+
+    expect(scored.map((r) => r.marksAwarded)).toEqual([-2.5, -2.5, 10, -2.5]);
+    expect(totalScore(scored, questions).totalMarks).toBe(2.5);
+
+    const allWrong = scoreResponses(questions, responsesTo([wrong, wrong, wrong, wrong]), negative, {
+      isTimed: false,
+    });
+    expect(totalScore(allWrong, questions)).toEqual({ totalMarks: 0, maxMarks: 40, percentage: 0 });
+  });
+});
+
+describe('streak strategy', () => {
+  const streak = rules({ strategy: 'streak', streakBonus: 0.2, maxStreakBonus: 0.3 });
+
+  it('adds a bonus for each correct answer in a row, up to the maximum', () => {
+    const scored = scoreResponses(questions, responsesTo([right, right, right, right]), streak, { isTimed: false });
+
+    expect(scored.map((r) => r.marksAwarded)).toEqual([10, 12, 13, 13]);
+    expect(totalScore(scored, questions)).toEqual({ totalMarks: 48, maxMarks: 40, percentage: 120 });
+  });
+
+  it('starts again after a wrong answer', () => {
+    const scored = scoreResponses(questions, responsesTo([right, wrong, right, right]), streak, { isTimed: false });
+
+    expect(scored.map((r) => r.marksAwarded)).toEqual([10, 0, 10, 12]);
+  });
+
+  it('follows the order of the questions, not of the responses', () => {
+    const responses = responsesTo([right, right]).reverse();
+    const scored = scoreResponses(questions, responses, streak, { isTimed: false });
+
+    expect(scored.map((r) => r.marksAwarded)).toEqual([12, 10]);
+  });
+});
+
+describe('scoreResponses', () => {
+  it('scores only the first response to a question', () => {
+    const responses = [...responsesTo([right]), ...responsesTo([right]), ...responsesTo([right])];
+    const scored = scoreResponses(questions, responses, rules({ strategy: 'flat' }), { isTimed: false });
+
+    expect(scored.map((r) => r.marksAwarded)).toEqual([10, 0, 0]);
+    expect(totalScore(scored, questions).totalMarks).toBe(10);
+  });
+});
+
+describe('previewScoring', () => {
+  const samples = [
+    { questionId: questions[0]._id.toString(), selectedAnswerIndex: 0 },
+    { questionId: questions[1]._id.toString(), selectedAnswerIndex: 1 },
+  ];
+
+  it('scores the samples under the rules and totals them under every strategy', () => {
+    const preview = previewScoring(questions, samples, rules({ strategy: 'negative' }), { isTimed: true });
+
+    expect(preview).toMatchObject({ totalMarks: 7.5, maxMarks: 40, percentage: 18.75 });
+    expect(preview.strategies).toEqual(
+      expect.arrayContaining([
+        { strategy: 'flat', totalMarks: 10, percentage: 25 },
+        { strategy: 'negative', totalMarks: 7.5, percentage: 18.75 },
+      ])
+    );
+  });
+
+  it('rejects a question answered twice', () => {
+    expect(() => previewScoring(questions, [samples[0], samples[0]], rules({}), { isTimed: true })).toThrow(
+      ValidationError
+    );
+  });
+});
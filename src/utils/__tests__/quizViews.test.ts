@@ -0,0 +1,136 @@
+import mongoose from 'mongoose';
+import { Quiz, IQuiz } from '../../models/quiz.model';
+import { QuizAttempt } from '../../models/quizAttempt.model';
+import { toStudentQuiz, toStudentQuestion, toStudentAttempt, toAttemptReview } from '../quizViews';
+
+// Every key anywhere in a response body, as it would be sent
+const keysOf = (value: unknown): string[] => {
+  const keys: string[] = [];
+  const walk = (node: unknown) => {
+    if (Array.isArray(node)) node.forEach(walk);
+    else if (node && typeof node === 'object') {
+      Object.entries(node).forEach(([key, child]) => {
+        keys.push(key);
+        walk(child);
+      });
+    }
+  };
+  walk(JSON.parse(JSON.stringify(value)));
+  return keys;
+};
+
+const buildQuiz = (overrides: Record<string, unknown> = {}): IQuiz =>
+  new Quiz({
+    title: 'Circuits',
+    isTimed: false,
+    questions: [
+      {
+        questionText: 'Unit of resistance?',
+        answers: [
+          { text: 'Ohm', isCorrect: true },
+          { text: 'Volt', isCorrect: false },
+        ],
+        timeLimitSeconds: 30,
+        marks: 2,
+        explanation: 'Named after Georg Ohm',
+      },
+      {
+        type: 'numeric',
+        questionText: 'V = IR with I = 2 and R = 3?',
+        numericAnswer: 6,
+        timeLimitSeconds: 30,
+        marks: 1,
+        explanation: '2 x 3',
+      },
+    ],
+    ...overrides,
+  });
+
+describe('toStudentQuestion', () => {
+  it('shows answer texts without correctness or explanations', () => {
+    const [question] = buildQuiz().questions;
+    const view = toStudentQuestion(question);
+
+    expect(view.answers).toEqual([{ text: 'Ohm' }, { text: 'Volt' }]);
+    expect(keysOf(view)).not.toContain('isCorrect');
+    expect(keysOf(view)).not.toContain('explanation');
+  });
+
+  it('keeps the answer key of numeric questions out', () => {
+    const [, question] = buildQuiz().questions;
+
+    expect(keysOf(toStudentQuestion(question))).not.toContain('numericAnswer');
+  });
+
+  it('orders answers as shown in the attempt', () => {
+    const [question] = buildQuiz().questions;
+
+    expect(toStudentQuestion(question, [1, 0]).answers).toEqual([{ text: 'Volt' }, { text: 'Ohm' }]);
+  });
+});
+
+describe('toStudentQuiz', () => {
+  it('lists the questions of untimed quizzes without correctness or explanations', () => {
+    const view = toStudentQuiz(buildQuiz());
+
+    expect(view.questions).toHaveLength(2);
+    expect(keysOf(view)).not.toContain('isCorrect');
+    expect(keysOf(view)).not.toContain('explanation');
+    expect(keysOf(view)).not.toContain('accessCode');
+  });
+
+  it('lists no questions of timed quizzes', () => {
+    expect(toStudentQuiz(buildQuiz({ isTimed: true })).questions).toEqual([]);
+  });
+
+  it('lists no questions of randomized quizzes', () => {
+    expect(toStudentQuiz(buildQuiz({ shuffleQuestions: true })).questions).toEqual([]);
+  });
+});
+
+describe('attempt views', () => {
+  const quiz = buildQuiz();
+  const [choice, numeric] = quiz.questions;
+  const attempt = new QuizAttempt({
+    quizId: quiz._id,
+    studentId: new mongoose.Types.ObjectId(),
+    participantName: 'Student',
+    status: 'completed',
+    responses: [
+      { questionId: choice._id, selectedAnswerIndex: 1, responseTimeSeconds: 0, isCorrect: false, marksAwarded: 0 },
+      { questionId: numeric._id, numericAnswer: 6, responseTimeSeconds: 0, isCorrect: true, marksAwarded: 1 },
+    ],
+    totalMarks: 1,
+    maxMarks: 3,
+    percentage: 33.33,
+  });
+
+  it('summarizes an attempt without per-question correctness', () => {
+    const view = toStudentAttempt(attempt);
+
+    expect(view).toMatchObject({ answered: 2, totalMarks: 1, maxMarks: 3 });
+    expect(keysOf(view)).not.toContain('isCorrect');
+    expect(keysOf(view)).not.toContain('explanation');
+  });
+
+  it('reviews a completed attempt with answers, explanations and the student\'s own answers', () => {
+    const { questions } = toAttemptReview(quiz, attempt);
+
+    expect(questions[0]).toMatchObject({
+      answers: [
+        { text: 'Ohm', isCorrect: true },
+        { text: 'Volt', isCorrect: false },
+      ],
+      answerKey: { type: 'single', correctAnswerIndexes: [0] },
+      explanation: 'Named after Georg Ohm',
+      selectedAnswerIndex: 1,
+      isCorrect: false,
+    });
+    expect(questions[1]).toMatchObject({
+      answerKey: { type: 'numeric', numericAnswer: 6 },
+      numericAnswer: 6,
+      isCorrect: true,
+      marksAwarded: 1,
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { Student } from '../../models/student.model';
+import { AppError } from '../errors';
+import { parseStudentFile, checkStudentImport } from '../studentImport';
+
+// Existing accounts, as found by the import check
+const mockExisting = (accounts: { email: string; registrationNo: string }[]) =>
+  jest.spyOn(Student, 'find').mockReturnValue({ select: () => Promise.resolve(accounts) } as never);
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('parseStudentFile', () => {
+  it('reads the columns in any order, under any accepted header', () => {
+    const rows = parseStudentFile(
+      '\uFEFFEmail Address,Full Name,Reg No\r\n' +
+        'Nimal@Example.com , Nimal Perera ,EG/2024/0001\r\n' +
+        '\r\n' +
+        'kamal@example.com,Kamal Silva,EG/2024/0002\r\n'
+    );
+
+    expect(rows).toEqual([
+      { row: 2, registrationNo: 'EG/2024/0001', name: 'Nimal Perera', email: 'nimal@example.com' },
+      { row: 4, registrationNo: 'EG/2024/0002', name: 'Kamal Silva', email: 'kamal@example.com' },
+    ]);
+  });
+
+  it('rejects a file missing a column', () => {
+    expect(() => parseStudentFile('name,email\nNimal,nimal@example.com\n')).toThrow(
+      expect.objectContaining({ code: 'INVALID_STUDENT_FILE', message: expect.stringContaining('registrationNo') })
+    );
+  });
+
+  it('rejects an empty file and a file with no students', () => {
+    expect(() => parseStudentFile('')).toThrow(AppError);
+    expect(() => parseStudentFile('registrationNo,name,email\n,,\n')).toThrow(
+      expect.objectContaining({ code: 'INVALID_STUDENT_FILE' })
+    );
+  });
+
+  it('rejects more than 1000 students', () => {
+    const rows = Array.from({ length: 1001 }, (_v, i) => `EG/2024/${i},Student ${i},s${i}@example.com`);
+
+    expect(() => parseStudentFile(['registrationNo,name,email', ...rows].join('\n'))).toThrow(
+      expect.objectContaining({ code: 'INVALID_STUDENT_FILE' })
+    );
+  });
+});
+
+describe('checkStudentImport', () => {
+  const row = (n: number, registrationNo: string, email: string) => ({
+    row: n,
+    registrationNo,
+    name: `Student ${n}`,
+    email,
+  });
+
+  it('accepts valid rows', async () => {
+    mockExisting([]);
+
+    const report = await checkStudentImport([row(2, 'EG/2024/0001', 'a@example.com')]);
+
+    expect(report).toMatchObject({ total: 1, valid: 1, invalid: 0 });
+    expect(report.rows[0].errors).toBeUndefined();
+  });
+
+  it('rejects registration numbers not in the EG/20XX/XXXX format and invalid emails', async () => {
+    mockExisting([]);
+
+    const report = await checkStudentImport([
+      row(2, 'EG/24/0001', 'a@example.com'),
+      row(3, 'eg/2024/0002', 'b@example.com'),
+      row(4, 'EG/2024/0003', 'not-an-email'),
+    ]);
+
+    expect(report).toMatchObject({ total: 3, valid: 0, invalid: 3 });
+    expect(report.rows[0].errors).toHaveProperty('registrationNo');
+    expect(report.rows[1].errors).toHaveProperty('registrationNo');
+    expect(report.rows[2].errors).toHaveProperty('email');
+  });
+
+  it('rejects emails and registration numbers repeated within the file', async () => {
+    mockExisting([]);
+
+    const report = await checkStudentImport([
+      row(2, 'EG/2024/0001', 'a@example.com'),
+      row(3, 'EG/2024/0002', 'a@example.com'),
+      row(4, 'EG/2024/0001', 'c@example.com'),
+    ]);
+
+    expect(report.rows[0].errors).toBeUndefined();
+    expect(report.rows[1].errors).toEqual({ email: 'Same as row 2' });
+    expect(report.rows[2].errors).toEqual({ registrationNo: 'Same as row 2' });
+  });
+
+  it('rejects emails and registration numbers that already have an account', async () => {
+    mockExisting([{ email: 'taken@example.com', registrationNo: 'EG/2023/0009' }]);
+
+    const report = await checkStudentImport([
+      row(2, 'EG/2024/0001', 'taken@example.com'),
+      row(3, 'EG/2023/0009', 'b@example.com'),
+    ]);
+
+    expect(report.invalid).toBe(2);
+    expect(report.rows[0].errors?.email).toMatch(/already exists/);
+    expect(report.rows[1].errors?.registrationNo).toMatch(/already exists/);
+  });
+});
@@ -0,0 +1,34 @@
+import { generateTicketCode, verifyTicketCode, toQrPayload } from '../ticket';
+
+const registrationId = '65f1c2a9e4b0a1b2c3d4e5f6';
+
+describe('verifyTicketCode', () => {
+  it('returns the registration id of a genuine ticket, typed or scanned', () => {
+    const code = generateTicketCode(registrationId);
+
+    expect(verifyTicketCode(code)).toBe(registrationId);
+    expect(verifyTicketCode(` ${toQrPayload(code)} `)).toBe(registrationId);
+  });
+
+  it('rejects a ticket with a changed signature or registration', () => {
+    const [, nonce, signature] = generateTicketCode(registrationId).split('.');
+    const forged = `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`;
+
+    expect(verifyTicketCode(`${registrationId}.${nonce}.${forged}`)).toBeNull();
+    expect(verifyTicketCode(`65f1c2a9e4b0a1b2c3d4e5f7.${nonce}.${signature}`)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTicketCode('')).toBeNull();
+    expect(verifyTicketCode(`${registrationId}.only-two-parts`)).toBeNull();
+  });
+
+  it('rejects a 32-character signature with multibyte characters', () => {
+    const [, nonce] = generateTicketCode(registrationId).split('.');
+    const signature = 'é'.repeat(32);
+
+    expect(signature).toHaveLength(32);
+    expect(() => verifyTicketCode(`${registrationId}.${nonce}.${signature}`)).not.toThrow();
+    expect(verifyTicketCode(`${registrationId}.${nonce}.${signature}`)).toBeNull();
+  });
+});
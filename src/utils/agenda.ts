@@ -0,0 +1,222 @@
+// ============================================
+// ComES Backend - Event Agenda Utility
+// ============================================
+
+import mongoose from 'mongoose';
+import { Event, IEvent } from '../models/event.model';
+import { EventSession, IEventSession } from '../models/eventSession.model';
+import { SessionRegistration, ISessionRegistration } from '../models/sessionRegistration.model';
+import { EventRegistration, ParticipantType, SEATED_STATUSES } from '../models/eventRegistration.model';
+import { AppError, NotFoundError } from './errors';
+import config from '../config';
+
+type Id = mongoose.Types.ObjectId | string;
+
+export interface AgendaTrack {
+  track: string | null;
+  sessions: IEventSession[];
+}
+
+export interface AgendaDay {
+  date: string;
+  tracks: AgendaTrack[];
+}
+
+// Calendar day of a date in the events' time zone, e.g. 2024-03-15
+const toLocalDay = (date: Date): string => {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: config.timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+};
+
+/**
+ * Group sessions by local day, then by track, both in chronological order
+ */
+export const groupAgenda = (sessions: IEventSession[]): AgendaDay[] => {
+  const sorted = [...sessions].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const days = new Map<string, Map<string | null, IEventSession[]>>();
+
+  for (const session of sorted) {
+    const day = toLocalDay(session.startTime);
+    if (!days.has(day)) days.set(day, new Map());
+
+    const tracks = days.get(day)!;
+    const track = session.track || null;
+    if (!tracks.has(track)) tracks.set(track, []);
+    tracks.get(track)!.push(session);
+  }
+
+  return [...days.entries()].map(([date, tracks]) => ({
+    date,
+    tracks: [...tracks.entries()].map(([track, trackSessions]) => ({ track, sessions: trackSessions })),
+  }));
+};
+
+/**
+ * Ensure a session takes place within its event's dates
+ */
+export const assertWithinEvent = (event: IEvent, session: Pick<IEventSession, 'startTime' | 'endTime'>): void => {
+  if (session.startTime < event.date || (event.endDate && session.endTime > event.endDate)) {
+    throw new AppError('Sessions must take place between the start and end of the event', 400, 'SESSION_OUTSIDE_EVENT');
+  }
+};
+
+/**
+ * Ensure no other session (of any event that is not cancelled) is booked
+ * in the same room at an overlapping time
+ */
+export const assertRoomAvailable = async (
+  session: Pick<IEventSession, 'room' | 'startTime' | 'endTime'> & { _id?: mongoose.Types.ObjectId }
+): Promise<void> => {
+  if (!session.room) return;
+
+  const cancelledEvents = await Event.find({ status: 'cancelled' }).distinct('_id');
+
+  const clash = await EventSession.findOne({
+    _id: { $ne: session._id },
+    event: { $nin: cancelledEvents },
+    room: session.room,
+    startTime: { $lt: session.endTime },
+    endTime: { $gt: session.startTime },
+  })
+    // Room names are matched case-insensitively
+    .collation({ locale: 'en', strength: 2 });
+
+  if (clash) {
+    throw new AppError(
+      `${session.room} is already booked for "${clash.title}" from ${clash.startTime.toISOString()} to ${clash.endTime.toISOString()}`,
+      409,
+      'ROOM_UNAVAILABLE'
+    );
+  }
+};
+
+const releaseSessionSeat = (sessionId: Id) => {
+  return EventSession.updateOne({ _id: sessionId, registeredCount: { $gt: 0 } }, { $inc: { registeredCount: -1 } });
+};
+
+/**
+ * Register a participant of an event for one of its breakout sessions,
+ * claiming a seat atomically
+ */
+export const registerForSession = async (
+  sessionId: Id,
+  participantType: ParticipantType,
+  participantId: Id
+): Promise<ISessionRegistration> => {
+  const session = await EventSession.findById(sessionId);
+
+  if (!session) {
+    throw new NotFoundError('Session');
+  }
+
+  if (!session.requiresRegistration) {
+    throw new AppError('This session is open to all participants and does not take registrations', 400, 'REGISTRATION_NOT_REQUIRED');
+  }
+
+  if (session.startTime <= new Date()) {
+    throw new AppError('This session has already started', 400, 'SESSION_STARTED');
+  }
+
+  const registeredForEvent = await EventRegistration.exists({
+    event: session.event,
+    participantType,
+    participant: participantId,
+    status: { $in: SEATED_STATUSES },
+  });
+
+  if (!registeredForEvent) {
+    throw new AppError('Register for the event before registering for its sessions', 400, 'NOT_REGISTERED_FOR_EVENT');
+  }
+
+  // Participants cannot be in two places at once
+  const mySessions = await SessionRegistration.find({
+    event: session.event,
+    participantType,
+    participant: participantId,
+  }).distinct('session');
+
+  const clash = await EventSession.findOne({
+    _id: { $in: mySessions },
+    startTime: { $lt: session.endTime },
+    endTime: { $gt: session.startTime },
+  });
+
+  if (clash) {
+    const message = clash._id.equals(session._id)
+      ? 'You are already registered for this session'
+      : `This session overlaps with "${clash.title}", which you are registered for`;
+    throw new AppError(message, 409, clash._id.equals(session._id) ? 'ALREADY_REGISTERED' : 'SESSION_CLASH');
+  }
+
+  const claimed = await EventSession.findOneAndUpdate(
+    {
+      _id: session._id,
+      $or: [{ capacity: null }, { $expr: { $lt: ['$registeredCount', '$capacity'] } }],
+    },
+    { $inc: { registeredCount: 1 } }
+  );
+
+  if (!claimed) {
+    throw new AppError('This session is full', 400, 'SESSION_FULL');
+  }
+
+  try {
+    return await SessionRegistration.create({
+      session: session._id,
+      event: session.event,
+      participantType,
+      participant: participantId,
+    });
+  } catch (error) {
+    await releaseSessionSeat(session._id);
+    if ((error as { code?: number }).code === 11000) {
+      throw new AppError('You are already registered for this session', 409, 'ALREADY_REGISTERED');
+    }
+    throw error;
+  }
+};
+
+/**
+ * Cancel a participant's session registration. Resolves to false if they
+ * were not registered.
+ */
+export const cancelSessionRegistration = async (
+  sessionId: Id,
+  participantType: ParticipantType,
+  participantId: Id
+): Promise<boolean> => {
+  const registration = await SessionRegistration.findOneAndDelete({
+    session: sessionId,
+    participantType,
+    participant: participantId,
+  });
+
+  if (!registration) return false;
+
+  await releaseSessionSeat(sessionId);
+  return true;
+};
+
+/**
+ * Drop a participant from every session of an event (e.g. when they
+ * cancel their event registration)
+ */
+export const releaseSessionSeats = async (
+  eventId: Id,
+  participantType: ParticipantType,
+  participantId: Id
+): Promise<void> => {
+  const sessions = await SessionRegistration.find({
+    event: eventId,
+    participantType,
+    participant: participantId,
+  }).distinct('session');
+
+  for (const sessionId of sessions) {
+    await cancelSessionRegistration(sessionId, participantType, participantId);
+  }
+};
@@ -0,0 +1,96 @@
+// ============================================
+// ComES Backend - Certificate PDF Utility
+// ============================================
+
+import PDFDocument from 'pdfkit';
+import { ICertificate } from '../models/certificate.model';
+import config from '../config';
+
+/**
+ * Public URL where anyone can verify a certificate by its ID
+ */
+export const getCertificateVerificationUrl = (code: string): string => {
+  return `${config.frontendUrl}/certificates/${code}`;
+};
+
+/**
+ * Render a participation certificate as an A4 landscape PDF
+ */
+export const renderCertificatePdf = (certificate: ICertificate): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { width, height } = doc.page;
+
+    // Border
+    doc
+      .lineWidth(4)
+      .strokeColor('#003366')
+      .rect(25, 25, width - 50, height - 50)
+      .stroke();
+
+    doc
+      .fillColor('#003366')
+      .font('Helvetica-Bold')
+      .fontSize(16)
+      .text('Computer Engineering Society - University of Ruhuna', 50, 70, { align: 'center' });
+
+    doc
+      .moveDown(1.5)
+      .fontSize(36)
+      .text('Certificate of Participation', { align: 'center' });
+
+    doc
+      .moveDown(1)
+      .fillColor('#333333')
+      .font('Helvetica')
+      .fontSize(14)
+      .text('This is to certify that', { align: 'center' });
+
+    doc
+      .moveDown(0.5)
+      .fillColor('#000000')
+      .font('Helvetica-Bold')
+      .fontSize(28)
+      .text(certificate.studentName, { align: 'center' });
+
+    doc
+      .font('Helvetica')
+      .fontSize(14)
+      .fillColor('#333333')
+      .text(`(${certificate.registrationNo})`, { align: 'center' });
+
+    doc
+      .moveDown(1)
+      .text('participated in', { align: 'center' });
+
+    doc
+      .moveDown(0.5)
+      .fillColor('#003366')
+      .font('Helvetica-Bold')
+      .fontSize(22)
+      .text(certificate.eventTitle, { align: 'center' });
+
+    doc
+      .moveDown(0.5)
+      .fillColor('#333333')
+      .font('Helvetica')
+      .fontSize(14)
+      .text(`held on ${certificate.eventDate.toDateString()}`, { align: 'center' });
+
+    // Footer with verification details
+    doc
+      .fontSize(10)
+      .fillColor('#666666')
+      .text(`Certificate ID: ${certificate.code}`, 50, height - 100, { align: 'center' })
+      .text(`Verify at ${getCertificateVerificationUrl(certificate.code)}`, { align: 'center' })
+      .text(`Issued on ${certificate.issuedAt.toDateString()}`, { align: 'center' });
+
+    doc.end();
+  });
+};
@@ -0,0 +1,65 @@
+// ============================================
+// ComES Backend - Domain Events
+// ============================================
+//
+// In-process publish/subscribe for things that happened in the domain, so
+// features can react to each other without importing one another.
+
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import { EventStatus } from '../models/event.model';
+import { logger } from './logger';
+
+export interface DomainEventMap {
+  'event.statusChanged': {
+    eventId: mongoose.Types.ObjectId;
+    title: string;
+    from: EventStatus;
+    to: EventStatus;
+    at: Date;
+  };
+  'quizAttempt.completed': {
+    attemptId: mongoose.Types.ObjectId;
+    quizId: mongoose.Types.ObjectId;
+    studentId: mongoose.Types.ObjectId;
+    participantName: string;
+    // Set for attempts at team quizzes
+    teamId?: mongoose.Types.ObjectId;
+    totalMarks: number;
+    // Zero for untimed quizzes
+    responseTimeSeconds: number;
+    completedAt: Date;
+  };
+  'quiz.regraded': {
+    quizId: mongoose.Types.ObjectId;
+    version: number;
+    // Attempts whose score changed
+    attemptIds: mongoose.Types.ObjectId[];
+  };
+}
+
+export type DomainEventName = keyof DomainEventMap;
+
+const emitter = new EventEmitter();
+
+/**
+ * Subscribe to a domain event. Handler errors are logged, never thrown
+ * back at the publisher.
+ */
+export const onDomainEvent = <K extends DomainEventName>(
+  name: K,
+  handler: (payload: DomainEventMap[K]) => void | Promise<void>
+): void => {
+  emitter.on(name, (payload: DomainEventMap[K]) => {
+    Promise.resolve()
+      .then(() => handler(payload))
+      .catch((error) => logger.error(`Handler for domain event "${name}" failed:`, error));
+  });
+};
+
+/**
+ * Publish a domain event to all subscribers
+ */
+export const emitDomainEvent = <K extends DomainEventName>(name: K, payload: DomainEventMap[K]): void => {
+  emitter.emit(name, payload);
+};
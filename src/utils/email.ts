@@ -13,7 +13,7 @@ interface EmailOptions {
   html?: string;
 }
 
-interface EmailTemplate {
+export interface EmailTemplate {
   subject: string;
   html: string;
   text: string;
@@ -149,6 +149,86 @@ export const emailTemplates = {
     text: `Hi ${name},\n\nYou requested a password reset. Visit this link to reset your password: ${resetUrl}\n\nThis link is valid for 10 minutes.\n\nIf you didn't request this, please ignore this email.\n\nBest regards,\nComES Team`,
   }),
 
+  emailVerification: (name: string, verifyUrl: string): EmailTemplate => ({
+    subject: 'Verify your email - ComES',
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #003366; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+            .btn { display: inline-block; padding: 12px 24px; background: #003366; color: white; text-decoration: none; border-radius: 5px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Verify Your Email</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${name},</p>
+              <p>Please confirm that this is your email address for your ComES student account.</p>
+              <p>Click the button below to verify it. This link is valid for 24 hours.</p>
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${verifyUrl}" class="btn">Verify Email</a>
+              </p>
+              <p>If you didn't create an account, please ignore this email.</p>
+            </div>
+            <div class="footer">
+              <p>Computer Engineering Society - University of Ruhuna</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Hi ${name},\n\nPlease confirm that this is your email address for your ComES student account: ${verifyUrl}\n\nThis link is valid for 24 hours.\n\nIf you didn't create an account, please ignore this email.\n\nBest regards,\nComES Team`,
+  }),
+
+  studentInvitation: (name: string, activateUrl: string): EmailTemplate => ({
+    subject: 'Activate your ComES student account',
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #003366; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+            .btn { display: inline-block; padding: 12px 24px; background: #003366; color: white; text-decoration: none; border-radius: 5px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Welcome to ComES!</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${name},</p>
+              <p>A student account has been created for you at the Computer Engineering Society.</p>
+              <p>Click the button below to choose your password and activate it. This link can be used once and is valid for 7 days.</p>
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${activateUrl}" class="btn">Activate Account</a>
+              </p>
+              <p>If you weren't expecting this, please ignore this email.</p>
+            </div>
+            <div class="footer">
+              <p>Computer Engineering Society - University of Ruhuna</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Hi ${name},\n\nA student account has been created for you at the Computer Engineering Society. Choose your password to activate it: ${activateUrl}\n\nThis link can be used once and is valid for 7 days.\n\nIf you weren't expecting this, please ignore this email.\n\nBest regards,\nComES Team`,
+  }),
+
   contactConfirmation: (name: string): EmailTemplate => ({
     subject: 'We received your message - ComES',
     html: `
@@ -224,6 +304,160 @@ export const emailTemplates = {
     `,
     text: `Thank you for subscribing to the ComES newsletter!\n\nYou'll now receive updates about upcoming events, projects, and opportunities.\n\nBest regards,\nComES Team`,
   }),
+
+  waitlistPromotion: (name: string, eventTitle: string, eventDate: Date, eventUrl: string): EmailTemplate => ({
+    subject: `You're in! A spot opened up for ${eventTitle} - ComES`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #003366; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+            .btn { display: inline-block; padding: 12px 24px; background: #003366; color: white; text-decoration: none; border-radius: 5px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>You're Registered!</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${name},</p>
+              <p>Good news! A spot has opened up for <strong>${eventTitle}</strong> on ${eventDate.toDateString()}, and you have been moved from the waitlist to the list of registered participants.</p>
+              <p>If you can no longer attend, please unregister so the next person on the waitlist can take your place.</p>
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${eventUrl}" class="btn">View Event</a>
+              </p>
+            </div>
+            <div class="footer">
+              <p>Computer Engineering Society - University of Ruhuna</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Hi ${name},\n\nGood news! A spot has opened up for ${eventTitle} on ${eventDate.toDateString()}, and you have been moved from the waitlist to the list of registered participants.\n\nView the event: ${eventUrl}\n\nIf you can no longer attend, please unregister so the next person on the waitlist can take your place.\n\nBest regards,\nComES Team`,
+  }),
+  eventReminder: (name: string, eventTitle: string, eventDate: Date, location: string, startsIn: string, eventUrl: string): EmailTemplate => ({
+    subject: `Reminder: ${eventTitle} starts in ${startsIn} - ComES`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #003366; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+            .btn { display: inline-block; padding: 12px 24px; background: #003366; color: white; text-decoration: none; border-radius: 5px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Event Reminder</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${name},</p>
+              <p>This is a reminder that <strong>${eventTitle}</strong> starts in ${startsIn}.</p>
+              <p><strong>When:</strong> ${eventDate.toUTCString()}<br><strong>Where:</strong> ${location}</p>
+              <p>Please have your ticket QR code ready for check-in.</p>
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${eventUrl}" class="btn">View Event</a>
+              </p>
+            </div>
+            <div class="footer">
+              <p>Computer Engineering Society - University of Ruhuna</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Hi ${name},\n\nThis is a reminder that ${eventTitle} starts in ${startsIn}.\n\nWhen: ${eventDate.toUTCString()}\nWhere: ${location}\n\nPlease have your ticket QR code ready for check-in.\n\nView the event: ${eventUrl}\n\nBest regards,\nComES Team`,
+  }),
+  eventFollowUp: (name: string, eventTitle: string, feedbackUrl: string): EmailTemplate => ({
+    subject: `Thanks for joining ${eventTitle} - ComES`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #003366; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+            .btn { display: inline-block; padding: 12px 24px; background: #003366; color: white; text-decoration: none; border-radius: 5px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Thank You!</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${name},</p>
+              <p>Thank you for being part of <strong>${eventTitle}</strong>. We hope you enjoyed it!</p>
+              <p>We would love to hear what you thought. Your feedback helps us make future events even better.</p>
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${feedbackUrl}" class="btn">Share Feedback</a>
+              </p>
+            </div>
+            <div class="footer">
+              <p>Computer Engineering Society - University of Ruhuna</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Hi ${name},\n\nThank you for being part of ${eventTitle}. We hope you enjoyed it!\n\nWe would love to hear what you thought. Share your feedback: ${feedbackUrl}\n\nBest regards,\nComES Team`,
+  }),
+  eventCancelled: (name: string, eventTitle: string, eventDate: Date, eventsUrl: string): EmailTemplate => ({
+    subject: `Cancelled: ${eventTitle} - ComES`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #003366; color: white; padding: 20px; text-align: center; }
+            .content { padding: 20px; background: #f9f9f9; }
+            .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
+            .btn { display: inline-block; padding: 12px 24px; background: #003366; color: white; text-decoration: none; border-radius: 5px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>Event Cancelled</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${name},</p>
+              <p>We are sorry to let you know that <strong>${eventTitle}</strong>, scheduled for ${eventDate.toDateString()}, has been cancelled.</p>
+              <p>Your registration has been closed and no further action is needed. Take a look at our other upcoming events.</p>
+              <p style="text-align: center; margin: 30px 0;">
+                <a href="${eventsUrl}" class="btn">Browse Events</a>
+              </p>
+            </div>
+            <div class="footer">
+              <p>Computer Engineering Society - University of Ruhuna</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `Hi ${name},\n\nWe are sorry to let you know that ${eventTitle}, scheduled for ${eventDate.toDateString()}, has been cancelled.\n\nYour registration has been closed and no further action is needed.\n\nSee our other upcoming events: ${eventsUrl}\n\nBest regards,\nComES Team`,
+  }),
 };
 
 export default { sendEmail, emailTemplates };
@@ -0,0 +1,219 @@
+// ============================================
+// ComES Backend - Event Notifications Utility
+// ============================================
+//
+// Scheduled emails to event registrants: reminders before an event starts,
+// a follow-up with a feedback link after it ends, and a notice when it is
+// cancelled. Each delivery is claimed in EventNotification before the email
+// goes out, so concurrent runs never email the same registrant twice.
+
+import mongoose from 'mongoose';
+import { Event, IEvent } from '../models/event.model';
+import { EventRegistration, RegistrationStatus } from '../models/eventRegistration.model';
+import { EventNotification, EventNotificationKind } from '../models/eventNotification.model';
+import { SEATED_STATUSES } from './registration';
+import { sendEmail, emailTemplates, EmailTemplate } from './email';
+import { logger } from './logger';
+import config from '../config';
+
+// Failed sends are retried on later runs up to this many attempts
+const MAX_ATTEMPTS = 3;
+
+const MINUTE = 60 * 1000;
+
+export interface EventNotificationRunResult {
+  reminders: number;
+  followUps: number;
+  cancellations: number;
+}
+
+interface Delivery {
+  event: IEvent;
+  kind: EventNotificationKind;
+  key: string;
+  statuses: RegistrationStatus[];
+  // Extra conditions on the registrations to notify
+  filter?: Record<string, unknown>;
+  template: (name: string) => EmailTemplate;
+}
+
+// Human-readable offset, e.g. 1440 -> "24 hours"
+const formatOffset = (minutes: number): string => {
+  if (minutes % 1440 === 0 && minutes >= 2880) return `${minutes / 1440} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? '1 hour' : `${minutes / 60} hours`;
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+};
+
+const getEventUrl = (event: IEvent): string => `${config.frontendUrl}/events/${event.slug}`;
+
+/**
+ * Claim the right to send a notification to a registration. Only one
+ * caller can win a claim; failed deliveries can be claimed again until
+ * they run out of attempts.
+ */
+const claimDelivery = async (
+  eventId: mongoose.Types.ObjectId,
+  registrationId: mongoose.Types.ObjectId,
+  kind: EventNotificationKind,
+  key: string
+): Promise<boolean> => {
+  try {
+    await EventNotification.create({ event: eventId, registration: registrationId, kind, key });
+    return true;
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) throw error;
+  }
+
+  const retry = await EventNotification.findOneAndUpdate(
+    { registration: registrationId, key, status: 'failed', attempts: { $lt: MAX_ATTEMPTS } },
+    { $set: { status: 'sending', claimedAt: new Date() }, $inc: { attempts: 1 } }
+  );
+
+  return !!retry;
+};
+
+const deliver = async ({ event, kind, key, statuses, filter, template }: Delivery): Promise<number> => {
+  // Registrations already notified (or given up on) are skipped up front
+  const done = await EventNotification.find({
+    event: event._id,
+    key,
+    $or: [{ status: { $in: ['sending', 'sent'] } }, { attempts: { $gte: MAX_ATTEMPTS } }],
+  }).distinct('registration');
+
+  const registrations = await EventRegistration.find({
+    event: event._id,
+    status: { $in: statuses },
+    _id: { $nin: done },
+    ...filter,
+  }).populate<{ participant: { name: string; email: string } | null }>('participant', 'name email');
+
+  let sent = 0;
+
+  for (const registration of registrations) {
+    if (!registration.participant) continue;
+    if (!(await claimDelivery(event._id, registration._id, kind, key))) continue;
+
+    const email = template(registration.participant.name);
+    const delivered = await sendEmail({
+      to: registration.participant.email,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    });
+
+    await EventNotification.updateOne(
+      { registration: registration._id, key },
+      { $set: delivered ? { status: 'sent', sentAt: new Date() } : { status: 'failed' } }
+    );
+
+    if (delivered) sent++;
+  }
+
+  if (sent > 0) {
+    logger.info(`Sent ${sent} ${key} email(s) for event ${event._id}`);
+  }
+
+  return sent;
+};
+
+const sendReminders = async (now: Date): Promise<number> => {
+  const offsets = [...config.eventNotifications.reminderOffsetsMinutes].sort((a, b) => a - b);
+  if (offsets.length === 0) return 0;
+
+  const events = await Event.find({
+    status: 'upcoming',
+    date: { $gt: now, $lte: new Date(now.getTime() + offsets[offsets.length - 1] * MINUTE) },
+  });
+
+  let sent = 0;
+
+  for (const event of events) {
+    // Only the most imminent reminder that is due, so a late run (e.g. after
+    // downtime) does not send the 24 hour and 1 hour reminders back to back
+    const offset = offsets.find((minutes) => now.getTime() >= event.date.getTime() - minutes * MINUTE);
+    if (offset === undefined) continue;
+
+    const remindAt = new Date(event.date.getTime() - offset * MINUTE);
+
+    sent += await deliver({
+      event,
+      kind: 'reminder',
+      key: `reminder:${offset}`,
+      statuses: ['confirmed'],
+      // Anyone who registered after the reminder time has just had their confirmation
+      filter: { $or: [{ confirmedAt: { $lte: remindAt } }, { confirmedAt: { $exists: false } }] },
+      template: (name) =>
+        emailTemplates.eventReminder(name, event.title, event.date, event.location, formatOffset(offset), getEventUrl(event)),
+    });
+  }
+
+  return sent;
+};
+
+const sendFollowUps = async (now: Date): Promise<number> => {
+  const endedBefore = new Date(now.getTime() - config.eventNotifications.followUpDelayMinutes * MINUTE);
+  const endedAfter = new Date(now.getTime() - config.eventNotifications.lookbackDays * 24 * 60 * MINUTE);
+
+  const events = await Event.find({
+    status: { $ne: 'cancelled' },
+    $or: [
+      { endDate: { $gte: endedAfter, $lte: endedBefore } },
+      { endDate: null, date: { $gte: endedAfter, $lte: endedBefore } },
+    ],
+  });
+
+  let sent = 0;
+
+  for (const event of events) {
+    sent += await deliver({
+      event,
+      kind: 'followUp',
+      key: 'followUp',
+      statuses: SEATED_STATUSES,
+      template: (name) => emailTemplates.eventFollowUp(name, event.title, `${getEventUrl(event)}/feedback`),
+    });
+  }
+
+  return sent;
+};
+
+const notifyCancellation = (event: IEvent): Promise<number> => {
+  return deliver({
+    event,
+    kind: 'cancellation',
+    key: 'cancellation',
+    statuses: ['confirmed', 'waitlisted'],
+    template: (name) => emailTemplates.eventCancelled(name, event.title, event.date, `${config.frontendUrl}/events`),
+  });
+};
+
+const sendCancellations = async (now: Date): Promise<number> => {
+  const since = new Date(now.getTime() - config.eventNotifications.lookbackDays * 24 * 60 * MINUTE);
+  const events = await Event.find({ status: 'cancelled', updatedAt: { $gte: since } });
+
+  let sent = 0;
+  for (const event of events) {
+    sent += await notifyCancellation(event);
+  }
+  return sent;
+};
+
+/**
+ * Send every reminder, follow-up and cancellation notice that is due
+ */
+export const processEventNotifications = async (now: Date = new Date()): Promise<EventNotificationRunResult> => {
+  return {
+    reminders: await sendReminders(now),
+    followUps: await sendFollowUps(now),
+    cancellations: await sendCancellations(now),
+  };
+};
+
+/**
+ * Notify registrants of a cancelled event straight away, instead of
+ * waiting for the next scheduled run
+ */
+export const sendCancellationNotices = async (eventId: mongoose.Types.ObjectId | string): Promise<number> => {
+  const event = await Event.findOne({ _id: eventId, status: 'cancelled' });
+  return event ? notifyCancellation(event) : 0;
+};
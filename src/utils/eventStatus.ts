@@ -0,0 +1,71 @@
+// ============================================
+// ComES Backend - Event Status Sync
+// ============================================
+//
+// Moves events along upcoming -> ongoing -> completed as time passes. The
+// pre-save hook only runs when an event is edited, so this job catches up
+// on every event nobody touched.
+
+import { Event, getTimeBasedStatus } from '../models/event.model';
+import { JobRun, IJobRun, IJobRunChange, JobTrigger } from '../models/jobRun.model';
+import { emitDomainEvent } from './domainEvents';
+import { logger } from './logger';
+
+export const EVENT_STATUS_JOB = 'event-status-sync';
+
+/**
+ * Transition every event whose status is behind the clock, emitting an
+ * `event.statusChanged` domain event for each transition. Safe to run on
+ * several instances at once: each transition is a conditional update, so
+ * only one run wins it.
+ */
+export const syncEventStatuses = async (trigger: JobTrigger = 'schedule'): Promise<IJobRun> => {
+  const startedAt = new Date();
+  const changes: IJobRunChange[] = [];
+  let error: string | undefined;
+
+  try {
+    const candidates = await Event.find({
+      status: { $in: ['upcoming', 'ongoing'] },
+      date: { $lte: startedAt },
+    }).select('title date endDate status');
+
+    for (const event of candidates) {
+      const from = event.status;
+      const to = getTimeBasedStatus(event, startedAt);
+      if (to === from) continue;
+
+      const result = await Event.updateOne({ _id: event._id, status: from }, { $set: { status: to } });
+      if (result.modifiedCount === 0) continue;
+
+      changes.push({ event: event._id, title: event.title, from, to });
+      emitDomainEvent('event.statusChanged', {
+        eventId: event._id,
+        title: event.title,
+        from,
+        to,
+        at: startedAt,
+      });
+    }
+  } catch (err) {
+    error = (err as Error).message;
+    logger.error('Event status sync failed:', err);
+  }
+
+  const finishedAt = new Date();
+
+  if (changes.length > 0) {
+    logger.info(`Event status sync moved ${changes.length} event(s)`);
+  }
+
+  return JobRun.create({
+    job: EVENT_STATUS_JOB,
+    trigger,
+    startedAt,
+    finishedAt,
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    success: !error,
+    error,
+    changes,
+  });
+};
@@ -0,0 +1,176 @@
+// ============================================
+// ComES Backend - Feedback Survey Utility
+// ============================================
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { IFeedbackSurvey, ISurveyQuestion } from '../models/feedbackSurvey.model';
+import { IFeedbackAnswer, IFeedbackResponse } from '../models/feedbackResponse.model';
+import { ValidationError } from './errors';
+import config from '../config';
+
+export interface SubmittedAnswer {
+  question: string;
+  value?: number;
+  text?: string;
+}
+
+export interface QuestionResult {
+  questionId: mongoose.Types.ObjectId;
+  text: string;
+  type: ISurveyQuestion['type'];
+  responses: number;
+  average?: number;
+  // Count of each value on the scale, e.g. { "1": 0, ..., "5": 12 }
+  distribution?: Record<string, number>;
+  nps?: { score: number; promoters: number; passives: number; detractors: number };
+  answers?: string[];
+}
+
+export interface SurveySummary {
+  responses: number;
+  // Mean of all rating answers, rescaled to a 5-point scale
+  averageRating: number | null;
+  npsScore: number | null;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Key that identifies a student's response to a survey without revealing
+ * the student (HMAC of survey and student IDs)
+ */
+export const getRespondentKey = (surveyId: mongoose.Types.ObjectId | string, studentId: mongoose.Types.ObjectId | string): string => {
+  return crypto.createHmac('sha256', config.jwt.secret).update(`${surveyId}:${studentId}`).digest('hex');
+};
+
+/**
+ * Check submitted answers against a survey's questions, returning the
+ * answers to store. Throws a ValidationError keyed by question ID.
+ */
+export const validateSurveyAnswers = (survey: IFeedbackSurvey, submitted: SubmittedAnswer[] = []): IFeedbackAnswer[] => {
+  const byQuestion = new Map(submitted.map((answer) => [String(answer.question), answer]));
+  const errors: Record<string, string> = {};
+  const answers: IFeedbackAnswer[] = [];
+
+  for (const question of survey.questions) {
+    const id = question._id.toString();
+    const answer = byQuestion.get(id);
+    const path = `answers.${id}`;
+
+    if (question.type === 'text') {
+      const text = typeof answer?.text === 'string' ? answer.text.trim() : '';
+      if (!text) {
+        if (question.required) errors[path] = 'This question is required';
+        continue;
+      }
+      if (text.length > 2000) {
+        errors[path] = 'Answer cannot exceed 2000 characters';
+        continue;
+      }
+      answers.push({ question: question._id, text });
+      continue;
+    }
+
+    if (answer?.value === undefined || answer.value === null) {
+      if (question.required) errors[path] = 'This question is required';
+      continue;
+    }
+
+    const [min, max] = question.type === 'nps' ? [0, 10] : [1, question.scaleMax];
+    const value = Number(answer.value);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      errors[path] = `Answer must be a whole number from ${min} to ${max}`;
+      continue;
+    }
+
+    answers.push({ question: question._id, value });
+  }
+
+  const known = new Set(survey.questions.map((q) => q._id.toString()));
+  submitted.forEach((answer) => {
+    if (!known.has(String(answer.question))) {
+      errors[`answers.${answer.question}`] = 'Unknown question';
+    }
+  });
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Validation failed', errors);
+  }
+
+  return answers;
+};
+
+const npsBreakdown = (values: number[]) => {
+  const promoters = values.filter((v) => v >= 9).length;
+  const detractors = values.filter((v) => v <= 6).length;
+  const passives = values.length - promoters - detractors;
+  const score = values.length ? Math.round(((promoters - detractors) / values.length) * 100) : 0;
+  return { score, promoters, passives, detractors };
+};
+
+const valuesFor = (responses: IFeedbackResponse[], questionId: mongoose.Types.ObjectId): number[] => {
+  return responses
+    .map((r) => r.answers.find((a) => a.question.equals(questionId))?.value)
+    .filter((v): v is number => typeof v === 'number');
+};
+
+/**
+ * Per-question aggregates of a survey's responses
+ */
+export const aggregateSurvey = (survey: IFeedbackSurvey, responses: IFeedbackResponse[]): QuestionResult[] => {
+  return survey.questions.map((question) => {
+    if (question.type === 'text') {
+      const answers = responses
+        .map((r) => r.answers.find((a) => a.question.equals(question._id))?.text)
+        .filter((t): t is string => !!t);
+
+      return { questionId: question._id, text: question.text, type: question.type, responses: answers.length, answers };
+    }
+
+    const values = valuesFor(responses, question._id);
+    const [min, max] = question.type === 'nps' ? [0, 10] : [1, question.scaleMax];
+
+    const distribution: Record<string, number> = {};
+    for (let v = min; v <= max; v++) distribution[v] = 0;
+    values.forEach((v) => distribution[v]++);
+
+    const result: QuestionResult = {
+      questionId: question._id,
+      text: question.text,
+      type: question.type,
+      responses: values.length,
+      average: values.length ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : undefined,
+      distribution,
+    };
+
+    if (question.type === 'nps') {
+      result.nps = npsBreakdown(values);
+    }
+
+    return result;
+  });
+};
+
+/**
+ * Headline numbers of a survey, comparable across events
+ */
+export const summarizeSurvey = (survey: IFeedbackSurvey, responses: IFeedbackResponse[]): SurveySummary => {
+  const ratings: number[] = [];
+  const nps: number[] = [];
+
+  for (const question of survey.questions) {
+    const values = valuesFor(responses, question._id);
+    if (question.type === 'rating') {
+      ratings.push(...values.map((v) => (v / question.scaleMax) * 5));
+    } else if (question.type === 'nps') {
+      nps.push(...values);
+    }
+  }
+
+  return {
+    responses: responses.length,
+    averageRating: ratings.length ? round(ratings.reduce((sum, v) => sum + v, 0) / ratings.length) : null,
+    npsScore: nps.length ? npsBreakdown(nps).score : null,
+  };
+};
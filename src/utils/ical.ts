@@ -0,0 +1,105 @@
+// ============================================
+// ComES Backend - iCalendar Utility
+// ============================================
+
+import { IEvent } from '../models/event.model';
+import config from '../config';
+
+// Domain part of event UIDs; must never change or subscribers will see duplicates
+const UID_DOMAIN = 'comes.lk';
+
+// Format a date as an iCalendar UTC date-time (e.g. 20240131T143000Z)
+const formatDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Escape TEXT values as per RFC 5545 section 3.3.11
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Fold content lines longer than 75 octets as per RFC 5545 section 3.1
+const foldLine = (line: string): string => {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  // The first line holds 75 octets, continuation lines 74 plus the leading space
+  let limit = 75;
+
+  for (const char of line) {
+    const charLength = Buffer.byteLength(char, 'utf8');
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+      limit = 74;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Stable UID of an event, shared by every feed it appears in
+ */
+export const getEventUid = (event: IEvent): string => `event-${event._id}@${UID_DOMAIN}`;
+
+const buildEvent = (event: IEvent): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event)}`,
+    `SEQUENCE:${event.sequence || 0}`,
+    `DTSTAMP:${formatDate(event.updatedAt || new Date())}`,
+    `LAST-MODIFIED:${formatDate(event.updatedAt || new Date())}`,
+    `CREATED:${formatDate(event.createdAt || new Date())}`,
+    `DTSTART:${formatDate(event.date)}`,
+  ];
+
+  // Without DTEND a date-time event ends when it starts (RFC 5545 section 3.6.1)
+  if (event.endDate && event.endDate > event.date) {
+    lines.push(`DTEND:${formatDate(event.endDate)}`);
+  }
+
+  lines.push(
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(event.shortDescription || event.description)}`,
+    `LOCATION:${escapeText(event.location)}`,
+    `URL:${config.frontendUrl}/events/${event.slug}`,
+    `CATEGORIES:${[event.type, ...(event.tags || [])].map(escapeText).join(',')}`,
+    `STATUS:${event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT'
+  );
+
+  return lines;
+};
+
+/**
+ * Build an iCalendar (.ics) document containing the given events
+ */
+export const buildCalendar = (events: IEvent[], name: string): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ComES University of Ruhuna//ComES Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:UTC',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+    ...events.flatMap(buildEvent),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -6,3 +6,124 @@ export { logger } from './logger';
 export { AppError, ValidationError, AuthenticationError, AuthorizationError, NotFoundError, ConflictError, RateLimitError, InternalServerError } from './errors';
 export { asyncHandler } from './asyncHandler';
 export { sendEmail, emailTemplates } from './email';
+export {
+  SEATED_STATUSES,
+  registerParticipant,
+  joinWaitlist,
+  getWaitlistPosition,
+  cancelRegistration,
+  promoteFromWaitlist,
+  removeParticipantRegistrations,
+  closeWaitlist,
+} from './registration';
+export { generateTicketCode, verifyTicketCode, toQrPayload } from './ticket';
+export { toCsv, parseCsv } from './csv';
+export { scheduleJob, stopScheduler } from './scheduler';
+export { processEventNotifications, sendCancellationNotices } from './eventNotifications';
+export { onDomainEvent, emitDomainEvent, DomainEventMap, DomainEventName } from './domainEvents';
+export { syncEventStatuses, EVENT_STATUS_JOB } from './eventStatus';
+export {
+  groupAgenda,
+  assertWithinEvent,
+  assertRoomAvailable,
+  registerForSession,
+  cancelSessionRegistration,
+  releaseSessionSeats,
+} from './agenda';
+export { getRespondentKey, validateSurveyAnswers, aggregateSurvey, summarizeSurvey } from './feedback';
+export {
+  DEFAULT_SCORING_RULES,
+  parseAnswer,
+  isAnswered,
+  answerCredit,
+  scoreAnswer,
+  currentStreak,
+  scoreResponses,
+  totalScore,
+  previewScoring,
+} from './quizScoring';
+export {
+  openLiveStream,
+  closeLiveStreams,
+  getLeaderboard,
+  getLiveState,
+  findLiveSession,
+  findLiveQuiz,
+  createLiveSession,
+  joinLiveSession,
+  advanceLiveSession,
+  closeLiveQuestion,
+  finishLiveSession,
+  submitLiveAnswer,
+} from './liveQuiz';
+export {
+  publishCompletedAttempt,
+  findAttemptInProgress,
+  startAttempt,
+  serveNextQuestion,
+  answerQuestion,
+  finishAttempt,
+} from './quizAttempt';
+export {
+  toStudentQuestion,
+  toAnswerKey,
+  toStudentQuiz,
+  toAdminQuiz,
+  toStudentAttempt,
+  toAttemptReview,
+  toAttemptVariant,
+} from './quizViews';
+export { drawQuestions, buildVariant, getAttemptVariant, orderAnswers, toOriginalAnswer } from './quizVariant';
+export {
+  ATTEMPT_SCORING_SORT,
+  assertQuizOpen,
+  isEligible,
+  assertEligible,
+  assertAccessCode,
+  countUsedAttempts,
+  assertCanAttempt,
+  countedAttemptsPipeline,
+} from './quizAccess';
+export {
+  recordSeasonAttempt,
+  rebuildSeasonStandings,
+  removeQuizFromSeasons,
+  getSeasonLeaderboard,
+  toPublicStanding,
+} from './quizSeason';
+export { analyzeQuiz, scoreHistogram } from './quizAnalysis';
+export {
+  QUIZ_FILE_FORMATS,
+  DEFAULT_IMPORT,
+  detectQuizFileFormat,
+  parseQuizFile,
+  prepareQuizImport,
+  exportQuizFile,
+} from './quizFormats';
+export {
+  attemptVersionFilter,
+  recordQuizVersion,
+  publishQuizVersion,
+  quizAtVersion,
+  quizForAttempt,
+  regradeQuiz,
+} from './quizVersion';
+export {
+  isTeamMember,
+  teamMemberNames,
+  findStudentTeam,
+  assertTeamAnswerer,
+  assertTeamCanAttempt,
+  isAttemptParticipant,
+  assertAttemptAnswerer,
+  getTeamQuizStatus,
+  getTeamLeaderboard,
+} from './quizTeams';
+export { parseStudentFile, checkStudentImport, sendStudentInvitation, inviteStudents } from './studentImport';
+export { standingFilter, advanceBatch, setBatchSemester, setAcademicStanding } from './studentStanding';
+export type { QuizFileFormat, ImportReport } from './quizFormats';
+export type { ItemFlag, ItemAnalysis, QuizAnalysis } from './quizAnalysis';
+export type { TeamLeaderboardEntry } from './quizTeams';
+export type { ScoredAnswer, AnswerContext, SampleResponse, ScoringPreview } from './quizScoring';
+export type { StudentImportRow, StudentImportReport, StudentInvitation } from './studentImport';
+export type { BatchAdvance } from './studentStanding';
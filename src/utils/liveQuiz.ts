@@ -0,0 +1,552 @@
+// ============================================
+// ComES Backend - Live Quiz Sessions
+// ============================================
+//
+// Host-driven quiz sessions: the host opens questions one at a time,
+// students answer while a question is open, and every change is pushed to
+// connected clients over Server-Sent Events.
+//
+// Session state lives in MongoDB and every transition is a conditional
+// update, but SSE connections and question timers are held in this
+// process, so a session must be served by a single instance.
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Response } from 'express';
+import { Quiz, IQuiz } from '../models/quiz.model';
+import { QuizAttempt, IQuizAttempt, ISubmittedAnswer } from '../models/quizAttempt.model';
+import { LiveQuizSession, ILiveQuizSession, ILiveParticipant } from '../models/liveQuizSession.model';
+import { IStudent } from '../models/student.model';
+import { AppError, NotFoundError } from './errors';
+import { currentStreak, parseAnswer, scoreAnswer, totalScore } from './quizScoring';
+import { logger } from './logger';
+import { toStudentQuestion, toAnswerKey } from './quizViews';
+import { assertEligible } from './quizAccess';
+import { publishCompletedAttempt } from './quizAttempt';
+
+type Id = mongoose.Types.ObjectId | string;
+
+export type LiveAudience = 'host' | 'player';
+
+interface LiveStream {
+  res: Response;
+  audience: LiveAudience;
+  studentId?: string;
+  heartbeat: NodeJS.Timeout;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  student: mongoose.Types.ObjectId;
+  name: string;
+  score: number;
+  correct: number;
+}
+
+const HEARTBEAT_MS = 25 * 1000;
+const LEADERBOARD_SIZE = 10;
+
+const streams = new Map<string, Set<LiveStream>>();
+const timers = new Map<string, NodeJS.Timeout[]>();
+
+// ============================================
+// Streaming
+// ============================================
+
+const write = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const broadcast = (sessionId: Id, event: string, data: unknown, audience?: LiveAudience): void => {
+  streams.get(String(sessionId))?.forEach((stream) => {
+    if (!audience || stream.audience === audience) write(stream.res, event, data);
+  });
+};
+
+const sendToStudent = (sessionId: Id, studentId: Id, event: string, data: unknown): void => {
+  streams.get(String(sessionId))?.forEach((stream) => {
+    if (stream.studentId === String(studentId)) write(stream.res, event, data);
+  });
+};
+
+const endStreams = (sessionId: Id): void => {
+  streams.get(String(sessionId))?.forEach((stream) => {
+    clearInterval(stream.heartbeat);
+    stream.res.end();
+  });
+  streams.delete(String(sessionId));
+};
+
+/**
+ * Turn a response into an SSE stream for a session and send the initial
+ * `state` event
+ */
+export const openLiveStream = (
+  sessionId: Id,
+  res: Response,
+  audience: LiveAudience,
+  initialState: unknown,
+  studentId?: Id
+): void => {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    // no-transform keeps the compression middleware from buffering events
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write('retry: 3000\n\n');
+
+  const key = String(sessionId);
+  const stream: LiveStream = {
+    res,
+    audience,
+    studentId: studentId ? String(studentId) : undefined,
+    heartbeat: setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS),
+  };
+
+  if (!streams.has(key)) streams.set(key, new Set());
+  streams.get(key)!.add(stream);
+
+  res.on('close', () => {
+    clearInterval(stream.heartbeat);
+    streams.get(key)?.delete(stream);
+    if (streams.get(key)?.size === 0) streams.delete(key);
+  });
+
+  write(res, 'state', initialState);
+};
+
+/**
+ * End every open stream and stop every question timer (e.g. on shutdown)
+ */
+export const closeLiveStreams = (): void => {
+  [...timers.keys()].forEach(clearTimers);
+  [...streams.keys()].forEach(endStreams);
+};
+
+const clearTimers = (sessionId: Id): void => {
+  const key = String(sessionId);
+  timers.get(key)?.forEach((timer) => {
+    clearTimeout(timer);
+    clearInterval(timer);
+  });
+  timers.delete(key);
+};
+
+// ============================================
+// Views
+// ============================================
+
+const correctCount = (participant: ILiveParticipant): number => {
+  return participant.responses.filter((r) => r.isCorrect).length;
+};
+
+const correctTime = (participant: ILiveParticipant): number => {
+  return participant.responses
+    .filter((r) => r.isCorrect)
+    .reduce((sum, r) => sum + r.responseTimeSeconds, 0);
+};
+
+/**
+ * Participants ranked by score; ties go to whoever answered correctly faster
+ */
+export const getLeaderboard = (session: ILiveQuizSession, limit?: number): LeaderboardEntry[] => {
+  return [...session.participants]
+    .sort((a, b) => b.score - a.score || correctTime(a) - correctTime(b))
+    .slice(0, limit)
+    .map((participant, index) => ({
+      rank: index + 1,
+      student: participant.student,
+      name: participant.name,
+      score: participant.score,
+      correct: correctCount(participant),
+    }));
+};
+
+const getRank = (session: ILiveQuizSession, studentId: Id): number | null => {
+  const entry = getLeaderboard(session).find((e) => e.student.equals(studentId));
+  return entry ? entry.rank : null;
+};
+
+/**
+ * Snapshot of a session for a newly connected client. Hosts also see the
+ * PIN, the participants and the current question's correct answers.
+ */
+export const getLiveState = (session: ILiveQuizSession, quiz: IQuiz, audience: LiveAudience, studentId?: Id) => {
+  const question = session.status === 'lobby' ? undefined : quiz.questions[session.currentQuestionIndex];
+  const participant = studentId ? session.participants.find((p) => p.student.equals(studentId)) : undefined;
+
+  return {
+    sessionId: session._id,
+    quiz: { _id: quiz._id, title: quiz.title },
+    status: session.status,
+    questionIndex: session.currentQuestionIndex,
+    totalQuestions: quiz.questions.length,
+    question: question && (audience === 'host' ? question : toStudentQuestion(question)),
+    questionEndsAt: session.status === 'question' ? session.questionEndsAt : undefined,
+    participantCount: session.participants.length,
+    leaderboard: getLeaderboard(session, LEADERBOARD_SIZE),
+    ...(audience === 'host' && {
+      pin: session.pin,
+      participants: session.participants.map((p) => ({ student: p.student, name: p.name, joinedAt: p.joinedAt })),
+    }),
+    ...(participant && {
+      me: {
+        score: participant.score,
+        rank: getRank(session, participant.student),
+        answeredCurrent: !!question && participant.responses.some((r) => r.questionId.equals(question._id)),
+      },
+    }),
+  };
+};
+
+// ============================================
+// Lifecycle
+// ============================================
+
+export const findLiveSession = async (sessionId: Id): Promise<ILiveQuizSession> => {
+  const session = await LiveQuizSession.findById(sessionId);
+
+  if (!session) {
+    throw new NotFoundError('Live session');
+  }
+
+  return session;
+};
+
+export const findLiveQuiz = async (session: ILiveQuizSession): Promise<IQuiz> => {
+  const quiz = await Quiz.findById(session.quiz);
+
+  if (!quiz) {
+    throw new NotFoundError('Quiz');
+  }
+
+  return quiz;
+};
+
+/**
+ * Open a session for a quiz with a fresh 6-digit join PIN
+ */
+export const createLiveSession = async (quizId: Id, hostId: Id): Promise<ILiveQuizSession> => {
+  const quiz = await Quiz.findById(quizId);
+
+  if (!quiz) {
+    throw new NotFoundError('Quiz');
+  }
+
+  // Everyone in a live session plays the same questions
+  if (quiz.draws.length > 0) {
+    throw new AppError('Quizzes that draw from question banks cannot be played live', 400, 'QUIZ_IS_RANDOMIZED');
+  }
+
+  // Live sessions are played by students, not teams
+  if (quiz.participation === 'team') {
+    throw new AppError('Team quizzes cannot be played live', 400, 'TEAM_QUIZ');
+  }
+
+  // PINs are unique among sessions that have not finished
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const pin = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+    try {
+      return await LiveQuizSession.create({ quiz: quiz._id, host: hostId, pin });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+  }
+
+  throw new AppError('Could not generate a join PIN, please try again', 503);
+};
+
+/**
+ * Add a student to the session with the given PIN. Joining again (e.g.
+ * after a page reload) is a no-op.
+ */
+export const joinLiveSession = async (pin: string, student: IStudent): Promise<ILiveQuizSession> => {
+  const session = await LiveQuizSession.findOne({ pin, status: { $ne: 'finished' } });
+
+  if (!session) {
+    throw new AppError('No live quiz is running with that PIN', 404, 'INVALID_PIN');
+  }
+
+  // The PIN stands in for the access code, but batch and semester rules apply
+  assertEligible(await findLiveQuiz(session), student);
+
+  const updated = await LiveQuizSession.findOneAndUpdate(
+    { _id: session._id, status: { $ne: 'finished' }, 'participants.student': { $ne: student._id } },
+    { $push: { participants: { student: student._id, name: student.name } } },
+    { new: true }
+  );
+
+  if (!updated) {
+    return findLiveSession(session._id);
+  }
+
+  broadcast(updated._id, 'participantJoined', {
+    name: student.name,
+    participantCount: updated.participants.length,
+  });
+
+  return updated;
+};
+
+/**
+ * Close the open question: reveal the correct answers and the leaderboard
+ * to everyone, and each player's own result to them. Resolves to null if
+ * the question was already closed.
+ */
+export const closeLiveQuestion = async (sessionId: Id, questionIndex?: number): Promise<ILiveQuizSession | null> => {
+  const session = await LiveQuizSession.findOneAndUpdate(
+    {
+      _id: sessionId,
+      status: 'question',
+      ...(questionIndex !== undefined && { currentQuestionIndex: questionIndex }),
+    },
+    { $set: { status: 'reveal' } },
+    { new: true }
+  );
+
+  if (!session) return null;
+
+  clearTimers(session._id);
+
+  const quiz = await findLiveQuiz(session);
+  const index = session.currentQuestionIndex;
+  const question = quiz.questions[index];
+  if (!question) return session;
+
+  const responses = session.participants
+    .map((p) => ({ participant: p, response: p.responses.find((r) => r.questionId.equals(question._id)) }));
+
+  const answerCounts = question.answers.map(
+    (_answer, i) =>
+      responses.filter(
+        ({ response }) => response?.selectedAnswerIndex === i || response?.selectedAnswerIndexes?.includes(i)
+      ).length
+  );
+  const answerKey = toAnswerKey(question);
+
+  broadcast(session._id, 'questionClosed', {
+    questionIndex: index,
+    correctAnswerIndexes: answerKey.correctAnswerIndexes,
+    answerKey,
+    answerCounts,
+    leaderboard: getLeaderboard(session, LEADERBOARD_SIZE),
+  });
+
+  const ranks = getLeaderboard(session);
+  responses.forEach(({ participant, response }) => {
+    sendToStudent(session._id, participant.student, 'result', {
+      questionIndex: index,
+      answered: !!response,
+      isCorrect: response?.isCorrect || false,
+      marksAwarded: response?.marksAwarded || 0,
+      score: participant.score,
+      rank: ranks.find((e) => e.student.equals(participant.student))?.rank,
+    });
+  });
+
+  return session;
+};
+
+/**
+ * Finish the session and save every participant's result as a QuizAttempt
+ */
+export const finishLiveSession = async (
+  sessionId: Id
+): Promise<{ session: ILiveQuizSession; attempts: IQuizAttempt[] }> => {
+  const session = await LiveQuizSession.findOneAndUpdate(
+    { _id: sessionId, status: { $ne: 'finished' } },
+    { $set: { status: 'finished', finishedAt: new Date() }, $unset: { pin: 1 } },
+    { new: true }
+  );
+
+  if (!session) {
+    throw new AppError('This session has already finished', 400, 'SESSION_FINISHED');
+  }
+
+  clearTimers(session._id);
+
+  const quiz = await Quiz.findById(session.quiz);
+  const attempts = await QuizAttempt.insertMany(
+    session.participants.map((participant) => ({
+      quizId: session.quiz,
+      studentId: participant.student,
+      participantName: participant.name,
+      liveSession: session._id,
+      quizVersion: quiz?.version,
+      responses: participant.responses,
+      ...totalScore(participant.responses, quiz?.questions || []),
+      completedAt: session.finishedAt,
+    }))
+  );
+
+  broadcast(session._id, 'finished', {
+    leaderboard: getLeaderboard(session),
+  });
+  endStreams(session._id);
+
+  if (quiz) {
+    attempts.forEach((attempt) => publishCompletedAttempt(attempt as unknown as IQuizAttempt, quiz));
+  }
+
+  return { session, attempts: attempts as unknown as IQuizAttempt[] };
+};
+
+/**
+ * Open the next question, closing the current one first. After the last
+ * question, the session finishes.
+ */
+export const advanceLiveSession = async (sessionId: Id): Promise<ILiveQuizSession> => {
+  let session = await findLiveSession(sessionId);
+
+  if (session.status === 'finished') {
+    throw new AppError('This session has already finished', 400, 'SESSION_FINISHED');
+  }
+
+  if (session.status === 'question') {
+    session = (await closeLiveQuestion(session._id, session.currentQuestionIndex)) || (await findLiveSession(sessionId));
+  }
+
+  const quiz = await findLiveQuiz(session);
+  const index = session.currentQuestionIndex + 1;
+
+  if (index >= quiz.questions.length) {
+    return (await finishLiveSession(session._id)).session;
+  }
+
+  const question = quiz.questions[index];
+  const startedAt = new Date();
+  const endsAt = new Date(startedAt.getTime() + question.timeLimitSeconds * 1000);
+
+  const updated = await LiveQuizSession.findOneAndUpdate(
+    {
+      _id: session._id,
+      status: { $in: ['lobby', 'reveal'] },
+      currentQuestionIndex: session.currentQuestionIndex,
+    },
+    {
+      $set: {
+        status: 'question',
+        currentQuestionIndex: index,
+        questionStartedAt: startedAt,
+        questionEndsAt: endsAt,
+        ...(session.status === 'lobby' && { startedAt }),
+      },
+    },
+    { new: true }
+  );
+
+  if (!updated) {
+    throw new AppError('The session was updated by another request, please retry', 409, 'SESSION_CHANGED');
+  }
+
+  clearTimers(updated._id);
+  timers.set(String(updated._id), [
+    setTimeout(() => {
+      closeLiveQuestion(updated._id, index).catch((error) => logger.error('Closing live quiz question failed:', error));
+    }, endsAt.getTime() - startedAt.getTime()),
+    setInterval(() => {
+      broadcast(updated._id, 'timer', {
+        questionIndex: index,
+        remainingSeconds: Math.max(0, Math.ceil((endsAt.getTime() - Date.now()) / 1000)),
+      });
+    }, 1000),
+  ]);
+
+  broadcast(updated._id, 'question', {
+    questionIndex: index,
+    totalQuestions: quiz.questions.length,
+    question: toStudentQuestion(question),
+    startedAt,
+    endsAt,
+  });
+
+  return updated;
+};
+
+/**
+ * Record a player's answer to the open question. Response time is measured
+ * by the server from when the question opened. Once everyone has answered,
+ * the question closes early.
+ */
+export const submitLiveAnswer = async (
+  sessionId: Id,
+  studentId: Id,
+  submitted: Partial<ISubmittedAnswer>
+): Promise<{ questionIndex: number }> => {
+  const session = await findLiveSession(sessionId);
+  const now = new Date();
+
+  if (session.status !== 'question' || !session.questionEndsAt || now >= session.questionEndsAt) {
+    throw new AppError('This question is closed', 400, 'QUESTION_CLOSED');
+  }
+
+  const participant = session.participants.find((p) => p.student.equals(studentId));
+  if (!participant) {
+    throw new AppError('Join the session before answering', 403, 'NOT_JOINED');
+  }
+
+  const quiz = await findLiveQuiz(session);
+  const index = session.currentQuestionIndex;
+  const question = quiz.questions[index];
+
+  const answer = parseAnswer(question, submitted);
+  const responseTimeSeconds = Math.round(((now.getTime() - session.questionStartedAt!.getTime()) / 1000) * 100) / 100;
+  // Questions the player let pass break their streak
+  const streak = currentStreak(
+    quiz.questions.slice(0, index).map((q) => participant.responses.find((r) => r.questionId.equals(q._id)))
+  );
+  const { isCorrect, marksAwarded } = scoreAnswer(question, answer, { responseTimeSeconds, streak }, quiz.scoringRules);
+
+  const updated = await LiveQuizSession.findOneAndUpdate(
+    {
+      _id: session._id,
+      status: 'question',
+      currentQuestionIndex: index,
+      questionEndsAt: { $gt: now },
+      participants: { $elemMatch: { student: studentId, 'responses.questionId': { $ne: question._id } } },
+    },
+    {
+      $push: {
+        'participants.$.responses': {
+          questionId: question._id,
+          ...answer,
+          responseTimeSeconds,
+          isCorrect,
+          marksAwarded,
+        },
+      },
+      $inc: { 'participants.$.score': marksAwarded },
+    },
+    { new: true }
+  );
+
+  const hasAnswered = (p: ILiveParticipant) => p.responses.some((r) => r.questionId.equals(question._id));
+
+  if (!updated) {
+    const current = await findLiveSession(sessionId);
+    const me = current.participants.find((p) => p.student.equals(studentId));
+
+    if (me && hasAnswered(me)) {
+      throw new AppError('You have already answered this question', 409, 'ALREADY_ANSWERED');
+    }
+    throw new AppError('This question is closed', 400, 'QUESTION_CLOSED');
+  }
+
+  const answered = updated.participants.filter(hasAnswered).length;
+
+  broadcast(updated._id, 'answerCount', {
+    questionIndex: index,
+    answered,
+    participantCount: updated.participants.length,
+  }, 'host');
+
+  if (answered === updated.participants.length) {
+    await closeLiveQuestion(updated._id, index);
+  }
+
+  return { questionIndex: index };
+};
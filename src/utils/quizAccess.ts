@@ -0,0 +1,112 @@
+// ============================================
+// ComES Backend - Quiz Access Rules
+// ============================================
+//
+// Who may attempt a quiz, when, and how often. Checked when an attempt
+// starts or is submitted, and again while a timed attempt is played.
+
+import crypto from 'crypto';
+import { PipelineStage } from 'mongoose';
+import { IQuiz, AttemptScoring } from '../models/quiz.model';
+import { QuizAttempt } from '../models/quizAttempt.model';
+import { IStudent } from '../models/student.model';
+import { AppError } from './errors';
+
+// Order a student's completed attempts so the one that counts comes first
+export const ATTEMPT_SCORING_SORT: Record<AttemptScoring, Record<string, 1 | -1>> = {
+  best: { totalMarks: -1, completedAt: 1 },
+  latest: { completedAt: -1 },
+  first: { completedAt: 1 },
+};
+
+/**
+ * Reject attempts outside the quiz's opening window
+ */
+export const assertQuizOpen = (quiz: IQuiz, now: Date = new Date()): void => {
+  if (quiz.opensAt && now < quiz.opensAt) {
+    throw new AppError(`This quiz opens at ${quiz.opensAt.toISOString()}`, 403, 'QUIZ_NOT_OPEN');
+  }
+
+  if (quiz.closesAt && now >= quiz.closesAt) {
+    throw new AppError('This quiz has closed', 403, 'QUIZ_CLOSED');
+  }
+};
+
+/**
+ * Whether a student's batch and semester meet the quiz's eligibility rules.
+ * Semester rules are for current students, so alumni never meet them.
+ */
+export const isEligible = (quiz: IQuiz, student: IStudent): boolean => {
+  const { batches = [], semesters = [] } = quiz.eligibility || {};
+
+  if (batches.length > 0 && !batches.includes(student.batch)) return false;
+  if (semesters.length > 0) {
+    if (student.standing === 'alumni' || !student.semester || !semesters.includes(student.semester)) return false;
+  }
+
+  return true;
+};
+
+export const assertEligible = (quiz: IQuiz, student: IStudent): void => {
+  if (!isEligible(quiz, student)) {
+    throw new AppError('This quiz is not open to your batch or semester', 403, 'NOT_ELIGIBLE');
+  }
+};
+
+/**
+ * Check the access code of a quiz that has one
+ */
+export const assertAccessCode = (quiz: IQuiz, accessCode?: string): void => {
+  if (!quiz.accessCode) return;
+
+  if (!accessCode) {
+    throw new AppError('An access code is required for this quiz', 403, 'ACCESS_CODE_REQUIRED');
+  }
+
+  const expected = Buffer.from(quiz.accessCode);
+  const given = Buffer.from(accessCode.trim());
+
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    throw new AppError('Invalid access code', 403, 'INVALID_ACCESS_CODE');
+  }
+};
+
+/**
+ * Attempts a student has used towards the quiz's limit: every attempt
+ * outside live sessions, including one in progress
+ */
+export const countUsedAttempts = (quiz: IQuiz, student: IStudent): Promise<number> => {
+  return QuizAttempt.countDocuments({
+    quizId: quiz._id,
+    studentId: student._id,
+    liveSession: { $exists: false },
+  });
+};
+
+/**
+ * Check every rule for starting a new attempt
+ */
+export const assertCanAttempt = async (quiz: IQuiz, student: IStudent, accessCode?: string): Promise<void> => {
+  assertQuizOpen(quiz);
+  assertEligible(quiz, student);
+  assertAccessCode(quiz, accessCode);
+
+  if (quiz.maxAttempts && (await countUsedAttempts(quiz, student)) >= quiz.maxAttempts) {
+    throw new AppError(
+      `You have used all ${quiz.maxAttempts} attempt(s) at this quiz`,
+      403,
+      'MAX_ATTEMPTS_REACHED'
+    );
+  }
+};
+
+/**
+ * Aggregation stages that reduce a quiz's completed attempts to the one
+ * that counts for each student (or team), with how many attempts they made
+ */
+export const countedAttemptsPipeline = (quiz: IQuiz): PipelineStage[] => [
+  { $match: { quizId: quiz._id, status: 'completed' } },
+  { $sort: { ...ATTEMPT_SCORING_SORT[quiz.attemptScoring || 'best'], _id: 1 } },
+  { $group: { _id: { $ifNull: ['$team', '$studentId'] }, attempt: { $first: '$$ROOT' }, attemptCount: { $sum: 1 } } },
+  { $replaceRoot: { newRoot: { $mergeObjects: ['$attempt', { attemptCount: '$attemptCount' }] } } },
+];
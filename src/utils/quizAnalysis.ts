@@ -0,0 +1,268 @@
+// ============================================
+// ComES Backend - Quiz Item Analysis
+// ============================================
+//
+// Per-question statistics over a quiz's completed attempts, to help quiz
+// authors find questions that are too easy, too hard or broken.
+
+import { IQuestion, IQuiz, QuestionType } from '../models/quiz.model';
+import { IQuestionResponse, IQuizAttempt } from '../models/quizAttempt.model';
+import { isAnswered } from './quizScoring';
+import { getAttemptVariant } from './quizVariant';
+
+export type ItemFlag =
+  | 'wrong_option_preferred'
+  | 'too_easy'
+  | 'too_hard'
+  | 'low_discrimination'
+  | 'negative_discrimination';
+
+export interface AnswerChoiceCount {
+  index: number;
+  text: string;
+  isCorrect: boolean;
+  count: number;
+  percentage: number;
+}
+
+export interface GivenAnswerCount {
+  answer: string | number;
+  isCorrect: boolean;
+  count: number;
+}
+
+export interface ItemAnalysis {
+  questionId: string;
+  questionText: string;
+  type: QuestionType;
+  marks: number;
+  responses: number;
+  answered: number;
+  correct: number;
+  percentCorrect: number;
+  averageMarks: number;
+  averageResponseTimeSeconds: number;
+  // Choice questions: how often each answer was picked
+  distribution?: AnswerChoiceCount[];
+  // Numeric and short text questions: the most common answers given
+  commonAnswers?: GivenAnswerCount[];
+  // Share correct among top scorers minus among bottom scorers, from -1 to 1
+  discriminationIndex: number | null;
+  flags: ItemFlag[];
+}
+
+export interface ScoreBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface QuizAnalysis {
+  attempts: number;
+  averagePercentage: number;
+  medianPercentage: number;
+  highestPercentage: number;
+  lowestPercentage: number;
+  histogram: ScoreBucket[];
+  questions: ItemAnalysis[];
+}
+
+type AnalysedAttempt = Pick<IQuizAttempt, 'responses' | 'percentage' | 'variant'>;
+
+interface ItemResponses {
+  question: IQuestion;
+  responses: IQuestionResponse[];
+  upper: IQuestionResponse[];
+  lower: IQuestionResponse[];
+}
+
+// Share of attempts in each of the top and bottom scoring groups
+const GROUP_SHARE = 0.27;
+// Below these, statistics are too noisy to flag a question on
+const MIN_RESPONSES_TO_FLAG = 5;
+const MIN_ATTEMPTS_FOR_DISCRIMINATION = 10;
+const TOO_EASY_PERCENT = 90;
+const TOO_HARD_PERCENT = 20;
+const LOW_DISCRIMINATION = 0.2;
+const HISTOGRAM_BUCKET = 10;
+const COMMON_ANSWERS_LIMIT = 10;
+
+const CHOICE_TYPES: QuestionType[] = ['single', 'multiple', 'true_false'];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const percent = (part: number, whole: number): number => (whole > 0 ? round((part / whole) * 100) : 0);
+
+const average = (values: number[]): number =>
+  values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0;
+
+const median = (sorted: number[]): number => {
+  if (sorted.length === 0) return 0;
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : round((sorted[middle - 1] + sorted[middle]) / 2);
+};
+
+const selectedChoices = (response: IQuestionResponse): number[] => {
+  if (response.selectedAnswerIndexes?.length) return response.selectedAnswerIndexes;
+  if (response.selectedAnswerIndex !== null && response.selectedAnswerIndex !== undefined) {
+    return [response.selectedAnswerIndex];
+  }
+  return [];
+};
+
+/**
+ * Count of 0-100% scores in buckets of 10 points. The last bucket includes
+ * 100%.
+ */
+export const scoreHistogram = (percentages: number[]): ScoreBucket[] => {
+  const buckets: ScoreBucket[] = [];
+  for (let from = 0; from < 100; from += HISTOGRAM_BUCKET) {
+    buckets.push({ from, to: from + HISTOGRAM_BUCKET, count: 0 });
+  }
+
+  percentages.forEach((p) => {
+    const index = Math.min(buckets.length - 1, Math.max(0, Math.floor(p / HISTOGRAM_BUCKET)));
+    buckets[index].count++;
+  });
+
+  return buckets;
+};
+
+const choiceDistribution = (question: IQuestion, responses: IQuestionResponse[]): AnswerChoiceCount[] => {
+  const counts = question.answers.map(() => 0);
+  responses.forEach((r) => {
+    selectedChoices(r).forEach((index) => {
+      if (index in counts) counts[index]++;
+    });
+  });
+
+  return question.answers.map((answer, index) => ({
+    index,
+    text: answer.text,
+    isCorrect: answer.isCorrect,
+    count: counts[index],
+    percentage: percent(counts[index], responses.length),
+  }));
+};
+
+const commonAnswers = (question: IQuestion, responses: IQuestionResponse[]): GivenAnswerCount[] => {
+  const counts = new Map<string | number, GivenAnswerCount>();
+
+  responses.forEach((r) => {
+    const given =
+      question.type === 'numeric'
+        ? r.numericAnswer
+        : question.caseSensitive
+          ? r.textAnswer?.trim()
+          : r.textAnswer?.trim().toLowerCase();
+    if (given === undefined || given === '') return;
+
+    const entry = counts.get(given) || { answer: given, isCorrect: r.isCorrect, count: 0 };
+    entry.count++;
+    counts.set(given, entry);
+  });
+
+  return [...counts.values()].sort((a, b) => b.count - a.count).slice(0, COMMON_ANSWERS_LIMIT);
+};
+
+// A wrong answer picked more often than a correct one
+const prefersWrongOption = (distribution: AnswerChoiceCount[]): boolean => {
+  const correct = distribution.filter((d) => d.isCorrect);
+  if (correct.length === 0) return false;
+
+  const leastPickedCorrect = Math.min(...correct.map((d) => d.count));
+  return distribution.some((d) => !d.isCorrect && d.count > leastPickedCorrect);
+};
+
+/**
+ * Analyse the completed attempts at a quiz question by question. Questions
+ * drawn from banks are analysed across every attempt they appeared in.
+ */
+export const analyzeQuiz = (quiz: IQuiz, attempts: AnalysedAttempt[]): QuizAnalysis => {
+  const percentages = attempts.map((a) => a.percentage).sort((a, b) => a - b);
+
+  // Top and bottom scoring groups for discrimination
+  const ranked = [...attempts].sort((a, b) => b.percentage - a.percentage);
+  const groupSize = Math.max(1, Math.round(attempts.length * GROUP_SHARE));
+  const upper = new Set(ranked.slice(0, groupSize));
+  const lower = new Set(ranked.slice(-groupSize));
+
+  // Fixed questions first, in quiz order, then drawn ones as first seen
+  const items = new Map<string, ItemResponses>();
+  quiz.questions.forEach((question) => {
+    items.set(question._id.toString(), { question, responses: [], upper: [], lower: [] });
+  });
+
+  attempts.forEach((attempt) => {
+    const questions = new Map(
+      getAttemptVariant(quiz, attempt as IQuizAttempt).map(({ question }) => [question._id.toString(), question])
+    );
+
+    attempt.responses.forEach((response) => {
+      const id = response.questionId.toString();
+      const question = questions.get(id);
+      // The question was removed from the quiz since
+      if (!question) return;
+
+      if (!items.has(id)) {
+        items.set(id, { question, responses: [], upper: [], lower: [] });
+      }
+      const item = items.get(id)!;
+      item.responses.push(response);
+      if (upper.has(attempt)) item.upper.push(response);
+      if (lower.has(attempt)) item.lower.push(response);
+    });
+  });
+
+  const questions = [...items.entries()].map(([questionId, { question, responses, ...groups }]): ItemAnalysis => {
+    const type = question.type || 'single';
+    const correct = responses.filter((r) => r.isCorrect).length;
+    const percentCorrect = percent(correct, responses.length);
+
+    const shareCorrect = (group: IQuestionResponse[]) => group.filter((r) => r.isCorrect).length / group.length;
+    const discriminationIndex =
+      attempts.length >= MIN_ATTEMPTS_FOR_DISCRIMINATION && groups.upper.length > 0 && groups.lower.length > 0
+        ? round(shareCorrect(groups.upper) - shareCorrect(groups.lower))
+        : null;
+
+    const isChoice = CHOICE_TYPES.includes(type);
+    const distribution = isChoice ? choiceDistribution(question, responses) : undefined;
+
+    const flags: ItemFlag[] = [];
+    if (responses.length >= MIN_RESPONSES_TO_FLAG) {
+      if (distribution && prefersWrongOption(distribution)) flags.push('wrong_option_preferred');
+      if (percentCorrect >= TOO_EASY_PERCENT) flags.push('too_easy');
+      if (percentCorrect <= TOO_HARD_PERCENT) flags.push('too_hard');
+    }
+    if (discriminationIndex !== null) {
+      if (discriminationIndex < 0) flags.push('negative_discrimination');
+      else if (discriminationIndex < LOW_DISCRIMINATION) flags.push('low_discrimination');
+    }
+
+    return {
+      questionId,
+      questionText: question.questionText,
+      type,
+      marks: question.marks,
+      responses: responses.length,
+      answered: responses.filter(isAnswered).length,
+      correct,
+      percentCorrect,
+      averageMarks: average(responses.map((r) => r.marksAwarded)),
+      averageResponseTimeSeconds: average(responses.map((r) => r.responseTimeSeconds)),
+      ...(isChoice ? { distribution } : { commonAnswers: commonAnswers(question, responses) }),
+      discriminationIndex,
+      flags,
+    };
+  });
+
+  return {
+    attempts: attempts.length,
+    averagePercentage: average(percentages),
+    medianPercentage: median(percentages),
+    highestPercentage: percentages[percentages.length - 1] ?? 0,
+    lowestPercentage: percentages[0] ?? 0,
+    histogram: scoreHistogram(percentages),
+    questions,
+  };
+};
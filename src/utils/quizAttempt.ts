@@ -0,0 +1,353 @@
+// ============================================
+// ComES Backend - Timed Quiz Attempts
+// ============================================
+//
+// Attempts at timed quizzes are played one question at a time. The server
+// records when each question is served and measures the response time
+// itself, so clients cannot claim to have answered instantly.
+
+import mongoose from 'mongoose';
+import { Quiz, IQuiz, IQuestion } from '../models/quiz.model';
+import { QuizAttempt, IQuizAttempt, IQuestionResponse, ISubmittedAnswer, IVariantQuestion } from '../models/quizAttempt.model';
+import { IStudent } from '../models/student.model';
+import { AppError, NotFoundError } from './errors';
+import { currentStreak, parseAnswer, scoreAnswer, totalScore } from './quizScoring';
+import { toStudentQuestion } from './quizViews';
+import { buildVariant, getAttemptVariant, toOriginalAnswer } from './quizVariant';
+import { assertCanAttempt, assertQuizOpen } from './quizAccess';
+import { assertAttemptAnswerer, assertTeamAnswerer, assertTeamCanAttempt, findStudentTeam } from './quizTeams';
+import { emitDomainEvent } from './domainEvents';
+
+type Id = mongoose.Types.ObjectId | string;
+
+// Allowance for network latency between the deadline and the answer arriving
+const ANSWER_GRACE_SECONDS = 2;
+
+const secondsSince = (date: Date, now: Date): number => {
+  return Math.round(((now.getTime() - date.getTime()) / 1000) * 100) / 100;
+};
+
+const missedResponse = (question: IQuestion): IQuestionResponse => ({
+  questionId: question._id,
+  selectedAnswerIndex: null,
+  responseTimeSeconds: question.timeLimitSeconds,
+  isCorrect: false,
+  marksAwarded: 0,
+});
+
+const isExpired = (quiz: IQuiz, question: IQuestion, servedAt: Date, now: Date): boolean => {
+  return quiz.isTimed && secondsSince(servedAt, now) > question.timeLimitSeconds + ANSWER_GRACE_SECONDS;
+};
+
+/**
+ * Let other features know an attempt has been scored
+ */
+export const publishCompletedAttempt = (attempt: IQuizAttempt, quiz: IQuiz): void => {
+  const responseTimeSeconds = quiz.isTimed
+    ? Math.round(attempt.responses.reduce((sum, r) => sum + r.responseTimeSeconds, 0) * 100) / 100
+    : 0;
+
+  emitDomainEvent('quizAttempt.completed', {
+    attemptId: attempt._id,
+    quizId: attempt.quizId,
+    studentId: attempt.studentId,
+    participantName: attempt.participantName,
+    teamId: attempt.team,
+    totalMarks: attempt.totalMarks,
+    responseTimeSeconds,
+    completedAt: attempt.completedAt || new Date(),
+  });
+};
+
+/**
+ * Load an attempt in progress that the student may answer, with its quiz:
+ * their own, or their team's
+ */
+export const findAttemptInProgress = async (
+  attemptId: Id,
+  studentId: Id
+): Promise<{ attempt: IQuizAttempt; quiz: IQuiz }> => {
+  const attempt = await QuizAttempt.findById(attemptId);
+
+  if (!attempt) {
+    throw new NotFoundError('Attempt');
+  }
+
+  const quiz = await Quiz.findById(attempt.quizId);
+
+  if (!quiz) {
+    throw new NotFoundError('Quiz');
+  }
+
+  await assertAttemptAnswerer(attempt, quiz, studentId);
+
+  if (attempt.status !== 'in_progress') {
+    throw new AppError('This attempt has already been finished', 400, 'ATTEMPT_FINISHED');
+  }
+
+  return { attempt, quiz };
+};
+
+/**
+ * Record the question currently served as missed
+ */
+const closeCurrentQuestion = async (attempt: IQuizAttempt, quiz: IQuiz): Promise<void> => {
+  const questionId = attempt.currentQuestion!.questionId;
+  const question = getAttemptVariant(quiz, attempt).find((v) => v.question._id.equals(questionId))?.question;
+
+  const closed = await QuizAttempt.updateOne(
+    { _id: attempt._id, 'currentQuestion.questionId': questionId },
+    {
+      $unset: { currentQuestion: 1 },
+      ...(question && { $push: { responses: missedResponse(question) } }),
+    }
+  );
+
+  if (closed.modifiedCount === 0) {
+    throw new AppError('The attempt was updated by another request, please retry', 409, 'ATTEMPT_CHANGED');
+  }
+
+  if (question) attempt.responses.push(missedResponse(question));
+  attempt.currentQuestion = undefined;
+};
+
+const newAttempt = async (quiz: IQuiz, student: IStudent) => {
+  const variant = await buildVariant(quiz);
+
+  return {
+    quizId: quiz._id,
+    studentId: student._id,
+    participantName: student.name,
+    quizVersion: quiz.version,
+    status: 'in_progress',
+    variant,
+    responses: [],
+    maxMarks: totalScore([], variant.map((v) => v.question)).maxMarks,
+    startedAt: new Date(),
+  };
+};
+
+// A team quiz has one attempt per team, shared by the members who answer
+const startTeamAttempt = async (
+  quiz: IQuiz,
+  student: IStudent,
+  accessCode?: string,
+  teamId?: Id
+): Promise<IQuizAttempt> => {
+  const team = await findStudentTeam(student, teamId);
+
+  const existing = await QuizAttempt.findOne({ quizId: quiz._id, team: team._id, status: 'in_progress' });
+  if (existing) {
+    assertTeamAnswerer(quiz, team, student._id);
+    return existing;
+  }
+
+  await assertTeamCanAttempt(quiz, team, student, accessCode);
+
+  try {
+    return await QuizAttempt.create({ ...(await newAttempt(quiz, student)), team: team._id, teamName: team.name });
+  } catch (error) {
+    // Started concurrently by another member
+    if ((error as { code?: number }).code === 11000) {
+      const started = await QuizAttempt.findOne({ quizId: quiz._id, team: team._id, status: 'in_progress' });
+      if (started) return started;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Start an attempt at a quiz, or resume the student's attempt in progress
+ * (for team quizzes, their team's). New attempts must pass the quiz's
+ * access rules and get their own variant of the quiz.
+ */
+export const startAttempt = async (
+  quiz: IQuiz,
+  student: IStudent,
+  accessCode?: string,
+  teamId?: Id
+): Promise<IQuizAttempt> => {
+  if (quiz.participation === 'team') {
+    return startTeamAttempt(quiz, student, accessCode, teamId);
+  }
+
+  const existing = await QuizAttempt.findOne({ quizId: quiz._id, studentId: student._id, status: 'in_progress' });
+  if (existing) return existing;
+
+  await assertCanAttempt(quiz, student, accessCode);
+
+  try {
+    return await QuizAttempt.create(await newAttempt(quiz, student));
+  } catch (error) {
+    // Started concurrently from another tab
+    if ((error as { code?: number }).code === 11000) {
+      return (await QuizAttempt.findOne({ quizId: quiz._id, studentId: student._id, status: 'in_progress' }))!;
+    }
+    throw error;
+  }
+};
+
+// A served question as shown to the student, with its deadline
+const present = (quiz: IQuiz, variant: IVariantQuestion[], index: number, servedAt: Date) => {
+  const { question, answerOrder } = variant[index];
+
+  return {
+    questionIndex: index,
+    totalQuestions: variant.length,
+    question: toStudentQuestion(question, answerOrder),
+    servedAt,
+    deadline: quiz.isTimed ? new Date(servedAt.getTime() + question.timeLimitSeconds * 1000) : undefined,
+  };
+};
+
+/**
+ * Serve the next question of an attempt. While the current question is
+ * still open it is served again with its original start time, so reloading
+ * does not reset the timer. A question that ran out of time is recorded as
+ * unanswered first. Resolves to null once every question has been served.
+ */
+export const serveNextQuestion = async (attemptId: Id, studentId: Id) => {
+  const { attempt, quiz } = await findAttemptInProgress(attemptId, studentId);
+  const variant = getAttemptVariant(quiz, attempt);
+  const now = new Date();
+
+  assertQuizOpen(quiz, now);
+
+  if (attempt.currentQuestion) {
+    const { questionId, servedAt, index } = attempt.currentQuestion;
+    const question = variant[index]?.question;
+
+    if (question?._id.equals(questionId) && !isExpired(quiz, question, servedAt, now)) {
+      return present(quiz, variant, index, servedAt);
+    }
+
+    // Timed out: record the miss and move on
+    await closeCurrentQuestion(attempt, quiz);
+  }
+
+  const answered = new Set(attempt.responses.map((r) => r.questionId.toString()));
+  const index = variant.findIndex((v) => !answered.has(v.question._id.toString()));
+
+  if (index === -1) return null;
+
+  const { question } = variant[index];
+  const served = await QuizAttempt.findOneAndUpdate(
+    { _id: attempt._id, status: 'in_progress', currentQuestion: { $exists: false } },
+    { $set: { currentQuestion: { questionId: question._id, index, servedAt: now } } },
+    { new: true }
+  );
+
+  if (!served?.currentQuestion) {
+    throw new AppError('The attempt was updated by another request, please retry', 409, 'ATTEMPT_CHANGED');
+  }
+
+  return present(quiz, variant, index, served.currentQuestion.servedAt);
+};
+
+/**
+ * Answer the question currently served. The response time is measured from
+ * when it was served; answers after the time limit are recorded as missed
+ * and rejected. Answer positions are those shown to the student.
+ */
+export const answerQuestion = async (
+  attemptId: Id,
+  studentId: Id,
+  questionId: string,
+  submitted: Partial<ISubmittedAnswer>
+): Promise<IQuestionResponse> => {
+  const { attempt, quiz } = await findAttemptInProgress(attemptId, studentId);
+  const now = new Date();
+  const current = attempt.currentQuestion;
+
+  // Answers after the quiz closes are not accepted; finishing still is
+  assertQuizOpen(quiz, now);
+
+  if (!current || !current.questionId.equals(questionId)) {
+    throw new AppError('This question is not the one currently served', 400, 'QUESTION_NOT_SERVED');
+  }
+
+  const entry = getAttemptVariant(quiz, attempt).find((v) => v.question._id.equals(current.questionId));
+  if (!entry) {
+    throw new NotFoundError('Question');
+  }
+
+  const { question } = entry;
+  const answer = toOriginalAnswer(parseAnswer(question, submitted), entry.answerOrder);
+  const late = isExpired(quiz, question, current.servedAt, now);
+  const responseTimeSeconds = Math.min(secondsSince(current.servedAt, now), question.timeLimitSeconds);
+
+  // Untimed quizzes score as if answered instantly. Responses are kept in
+  // the order questions were served, so the streak is the last ones.
+  const response: IQuestionResponse = late
+    ? missedResponse(question)
+    : {
+        questionId: question._id,
+        ...answer,
+        responseTimeSeconds,
+        ...scoreAnswer(
+          question,
+          answer,
+          {
+            responseTimeSeconds: quiz.isTimed ? responseTimeSeconds : 0,
+            streak: currentStreak(attempt.responses),
+          },
+          quiz.scoringRules
+        ),
+      };
+
+  const updated = await QuizAttempt.updateOne(
+    { _id: attempt._id, status: 'in_progress', 'currentQuestion.questionId': question._id },
+    { $push: { responses: response }, $unset: { currentQuestion: 1 } }
+  );
+
+  if (updated.modifiedCount === 0) {
+    throw new AppError('This question has already been answered', 409, 'ALREADY_ANSWERED');
+  }
+
+  if (late) {
+    throw new AppError('Time is up for this question', 400, 'ANSWER_TOO_LATE');
+  }
+
+  return response;
+};
+
+/**
+ * Finish an attempt and compute its score. Questions never answered score
+ * nothing.
+ */
+export const finishAttempt = async (attemptId: Id, studentId: Id): Promise<IQuizAttempt> => {
+  const { attempt, quiz } = await findAttemptInProgress(attemptId, studentId);
+  const now = new Date();
+
+  // A question left open counts as missed
+  if (attempt.currentQuestion) {
+    await closeCurrentQuestion(attempt, quiz);
+  }
+
+  // Only finish if no answer landed in the meantime
+  const finished = await QuizAttempt.findOneAndUpdate(
+    {
+      _id: attempt._id,
+      status: 'in_progress',
+      currentQuestion: { $exists: false },
+      responses: { $size: attempt.responses.length },
+    },
+    {
+      $set: {
+        status: 'completed',
+        ...totalScore(attempt.responses, getAttemptVariant(quiz, attempt).map((v) => v.question)),
+        ...(attempt.team && { submittedBy: studentId }),
+        completedAt: now,
+      },
+    },
+    { new: true }
+  );
+
+  if (!finished) {
+    throw new AppError('The attempt was updated by another request, please retry', 409, 'ATTEMPT_CHANGED');
+  }
+
+  publishCompletedAttempt(finished, quiz);
+
+  return finished;
+};
@@ -0,0 +1,912 @@
+// ============================================
+// ComES Backend - Quiz Import/Export Formats
+// ============================================
+//
+// Reads and writes quiz questions as Moodle XML, GIFT and CSV so that
+// question sets can move between ComES, Moodle and spreadsheets. Each
+// format carries less than a ComES question: what a file leaves out
+// (marks, time limits) comes from import defaults.
+
+import mongoose from 'mongoose';
+import { IQuestion, IQuiz, Quiz, QUESTION_TYPES, QuestionType } from '../models/quiz.model';
+import { parseCsv, toCsv } from './csv';
+import { AppError } from './errors';
+
+export type QuizFileFormat = 'moodle_xml' | 'gift' | 'csv';
+
+export const QUIZ_FILE_FORMATS: QuizFileFormat[] = ['moodle_xml', 'gift', 'csv'];
+
+export type QuestionInput = Partial<Omit<IQuestion, '_id'>>;
+
+// One question read from a file. Questions that could not be read carry
+// errors instead.
+export interface ImportedQuestion {
+  location: string;
+  question?: QuestionInput;
+  errors?: Record<string, string>;
+}
+
+export interface ParsedQuizFile {
+  title?: string;
+  questions: ImportedQuestion[];
+}
+
+export interface ImportDefaults {
+  marks: number;
+  timeLimitSeconds: number;
+}
+
+export interface ImportReport {
+  format: QuizFileFormat;
+  title?: string;
+  total: number;
+  valid: number;
+  invalid: number;
+  // Errors with the quiz as a whole, e.g. its title
+  errors?: Record<string, string>;
+  questions: {
+    index: number;
+    location: string;
+    type?: QuestionType;
+    questionText?: string;
+    errors?: Record<string, string>;
+  }[];
+}
+
+export interface QuizFile {
+  content: string;
+  contentType: string;
+  extension: string;
+}
+
+export const DEFAULT_IMPORT: ImportDefaults = { marks: 1, timeLimitSeconds: 30 };
+
+const invalidFile = (message: string): AppError => new AppError(message, 400, 'INVALID_QUIZ_FILE');
+
+const toNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value.trim());
+  return Number.isFinite(number) ? number : NaN;
+};
+
+// Decimal string without float noise, e.g. 33.33333 rather than 33.333333333333336
+const formatNumber = (value: number): string => Number(value.toFixed(5)).toString();
+
+// Last part of a Moodle category path such as "$course$/top/Algebra".
+// Slashes inside a category name are doubled.
+const categoryName = (path: string): string | undefined =>
+  path
+    .split(/(?<!\/)\/(?!\/)/)
+    .map((part) => part.replace(/\/\//g, '/').trim())
+    .filter((part) => part && !/^\$\w+\$$/.test(part))
+    .pop();
+
+/**
+ * Tell a file's format from its name
+ */
+export const detectQuizFileFormat = (filename: string): QuizFileFormat | undefined => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'xml') return 'moodle_xml';
+  if (extension === 'gift' || extension === 'txt') return 'gift';
+  if (extension === 'csv') return 'csv';
+  return undefined;
+};
+
+// ============================================
+// Moodle XML
+// ============================================
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: '\'', nbsp: '\u00a0' };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Parse an XML document into a tree of elements. Enough for Moodle's
+ * question export: comments, declarations and processing instructions are
+ * skipped and namespaces are not resolved.
+ */
+const parseXml = (xml: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const token = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+
+  while ((match = token.exec(xml))) {
+    if (match.index !== consumed) break;
+    consumed = token.lastIndex;
+
+    const [, cdata, closing, opening, attributeList, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    } else if (closing) {
+      if (stack.length === 1 || current.name !== closing) {
+        throw invalidFile(`Invalid XML: unexpected </${closing}>`);
+      }
+      stack.pop();
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      const attribute = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let pair: RegExpExecArray | null;
+      while ((pair = attribute.exec(attributeList))) {
+        attributes[pair[1]] = decodeEntities(pair[2] ?? pair[3]);
+      }
+
+      const element: XmlElement = { name: opening, attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (consumed !== xml.length) {
+    throw invalidFile('Invalid XML: malformed markup');
+  }
+  if (stack.length > 1) {
+    throw invalidFile(`Invalid XML: <${stack[stack.length - 1].name}> is not closed`);
+  }
+
+  return root;
+};
+
+const child = (element: XmlElement | undefined, name: string): XmlElement | undefined =>
+  element?.children.find((c) => c.name === name);
+
+const childText = (element: XmlElement | undefined, name: string): string | undefined => {
+  const found = child(element, name);
+  return found && found.text.trim();
+};
+
+// Plain text of an HTML fragment, keeping paragraph and line breaks
+const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+  )
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+
+// The <text> of a Moodle text field, converted from HTML when marked as such
+const moodleText = (field: XmlElement | undefined): string | undefined => {
+  const text = child(field, 'text');
+  if (!text) return undefined;
+  return field?.attributes.format === 'plain_text' || field?.attributes.format === 'markdown'
+    ? text.text.trim()
+    : htmlToText(text.text);
+};
+
+const moodleAnswers = (question: XmlElement) =>
+  question.children
+    .filter((c) => c.name === 'answer')
+    .map((answer) => ({
+      text: moodleText(answer) ?? '',
+      fraction: Number(answer.attributes.fraction) || 0,
+      tolerance: childText(answer, 'tolerance'),
+    }));
+
+const parseMoodleQuestion = (element: XmlElement, defaults: ImportDefaults): QuestionInput | string => {
+  const type = element.attributes.type;
+  const answers = moodleAnswers(element);
+  const question: QuestionInput = {
+    questionText: moodleText(child(element, 'questiontext')),
+    explanation: moodleText(child(element, 'generalfeedback')) || undefined,
+    marks: toNumber(childText(element, 'defaultgrade')) ?? defaults.marks,
+    timeLimitSeconds: defaults.timeLimitSeconds,
+  };
+
+  switch (type) {
+    case 'multichoice': {
+      const single = childText(element, 'single');
+      const isSingle = single === 'true' || single === '1';
+      return {
+        ...question,
+        type: isSingle ? 'single' : 'multiple',
+        ...(!isSingle && { scoring: 'partial' as const }),
+        answers: answers.map((a) => ({ text: a.text, isCorrect: a.fraction > 0 })),
+      };
+    }
+
+    case 'truefalse': {
+      const isTrue = answers.find((a) => a.text.toLowerCase() === 'true')?.fraction === 100;
+      return {
+        ...question,
+        type: 'true_false',
+        answers: [
+          { text: 'True', isCorrect: isTrue },
+          { text: 'False', isCorrect: !isTrue },
+        ],
+      };
+    }
+
+    case 'shortanswer':
+      return {
+        ...question,
+        type: 'short_text',
+        caseSensitive: childText(element, 'usecase') === '1',
+        acceptedAnswers: answers.filter((a) => a.fraction === 100).map((a) => a.text),
+      };
+
+    case 'numerical': {
+      const answer = answers.find((a) => a.fraction === 100);
+      return {
+        ...question,
+        type: 'numeric',
+        numericAnswer: toNumber(answer?.text),
+        tolerance: toNumber(answer?.tolerance) ?? 0,
+      };
+    }
+
+    default:
+      return `Unsupported question type "${type}"`;
+  }
+};
+
+/**
+ * Read the questions of a Moodle XML question export. Categories name the
+ * quiz; description items are skipped.
+ */
+export const parseMoodleXml = (xml: string, defaults: ImportDefaults): ParsedQuizFile => {
+  const quiz = child(parseXml(xml), 'quiz');
+  if (!quiz) {
+    throw invalidFile('Not a Moodle XML file: missing <quiz> element');
+  }
+
+  const parsed: ParsedQuizFile = { questions: [] };
+
+  quiz.children
+    .filter((c) => c.name === 'question')
+    .forEach((element, i) => {
+      const type = element.attributes.type;
+
+      if (type === 'category') {
+        const path = childText(child(element, 'category'), 'text') || '';
+        parsed.title = categoryName(path) || parsed.title;
+        return;
+      }
+      if (type === 'description') return;
+
+      const name = childText(child(element, 'name'), 'text');
+      const location = name ? `question ${i + 1} "${name}"` : `question ${i + 1}`;
+      const question = parseMoodleQuestion(element, defaults);
+
+      parsed.questions.push(
+        typeof question === 'string' ? { location, errors: { type: question } } : { location, question }
+      );
+    });
+
+  return parsed;
+};
+
+const MOODLE_TYPES: Record<QuestionType, string> = {
+  single: 'multichoice',
+  multiple: 'multichoice',
+  true_false: 'truefalse',
+  numeric: 'numerical',
+  short_text: 'shortanswer',
+};
+
+// Text as HTML, escaped again for the XML around it
+const moodleTextField = (name: string, text: string): string => {
+  const html = escapeXml(text).replace(/\n/g, '<br>');
+  return `    <${name} format="html">\n      <text>${escapeXml(html)}</text>\n    </${name}>`;
+};
+
+const toMoodleQuestion = (question: IQuestion, number: number): string => {
+  const type = question.type || 'single';
+  const lines = [
+    `  <question type="${MOODLE_TYPES[type]}">`,
+    `    <name>\n      <text>Question ${number}</text>\n    </name>`,
+    moodleTextField('questiontext', question.questionText),
+    moodleTextField('generalfeedback', question.explanation || ''),
+    `    <defaultgrade>${question.marks}</defaultgrade>`,
+  ];
+  const answer = (fraction: number, text: string, extra = '') =>
+    `    <answer fraction="${formatNumber(fraction)}" format="plain_text">\n      <text>${escapeXml(text)}</text>${extra}\n    </answer>`;
+
+  switch (type) {
+    case 'single':
+    case 'multiple': {
+      // Multi-select: correct choices share the marks, wrong ones take away
+      const correct = question.answers.filter((a) => a.isCorrect).length;
+      const right = type === 'single' ? 100 : 100 / correct;
+      const wrong = type === 'single' ? 0 : question.scoring === 'partial' ? -100 / correct : -100;
+      lines.push(`    <single>${type === 'single'}</single>`, '    <shuffleanswers>0</shuffleanswers>');
+      question.answers.forEach((a) => lines.push(answer(a.isCorrect ? right : wrong, a.text)));
+      break;
+    }
+
+    case 'true_false': {
+      const isTrue = question.answers.find((a) => a.isCorrect)?.text.toLowerCase() === 'true';
+      lines.push(answer(isTrue ? 100 : 0, 'true'), answer(isTrue ? 0 : 100, 'false'));
+      break;
+    }
+
+    case 'numeric':
+      lines.push(
+        answer(100, String(question.numericAnswer), `\n      <tolerance>${question.tolerance || 0}</tolerance>`)
+      );
+      break;
+
+    case 'short_text':
+      lines.push(`    <usecase>${question.caseSensitive ? 1 : 0}</usecase>`);
+      question.acceptedAnswers.forEach((a) => lines.push(answer(100, a)));
+      break;
+  }
+
+  lines.push('  </question>');
+  return lines.join('\n');
+};
+
+/**
+ * Write a quiz's questions as a Moodle XML question export, under a
+ * category named after the quiz
+ */
+export const toMoodleXml = (quiz: IQuiz): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<quiz>',
+    '  <question type="category">',
+    `    <category>\n      <text>$course$/${escapeXml(quiz.title.replace(/\//g, '//'))}</text>\n    </category>`,
+    '  </question>',
+    ...quiz.questions.map((question, i) => toMoodleQuestion(question, i + 1)),
+    '</quiz>',
+    '',
+  ].join('\n');
+
+// ============================================
+// GIFT
+// ============================================
+
+const GIFT_SPECIAL = /[~=#{}:\\]/g;
+
+const escapeGift = (text: string): string => text.replace(GIFT_SPECIAL, '\\$&').replace(/\n/g, '\\n');
+
+const unescapeGift = (text: string): string =>
+  text.replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char)).trim();
+
+// Index of the first unescaped occurrence of `search` at or after `from`
+const indexOfUnescaped = (text: string, search: string, from = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(search, i)) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Split before every unescaped `=` or `~`
+const giftTokens = (body: string): { marker: string; text: string }[] => {
+  const tokens: { marker: string; text: string }[] = [];
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\') {
+      i++;
+      if (tokens.length > 0) tokens[tokens.length - 1].text += body.slice(i - 1, i + 1);
+    } else if (body[i] === '=' || body[i] === '~') {
+      tokens.push({ marker: body[i], text: '' });
+    } else if (tokens.length > 0) {
+      tokens[tokens.length - 1].text += body[i];
+    } else if (body[i].trim()) {
+      return [];
+    }
+  }
+  return tokens;
+};
+
+// "%50%text#feedback" -> weight and text, dropping per-answer feedback
+const giftAnswer = (token: string): { weight?: number; text: string } => {
+  const feedback = indexOfUnescaped(token, '#');
+  let text = feedback >= 0 ? token.slice(0, feedback) : token;
+  let weight: number | undefined;
+
+  const weighted = /^\s*%(-?[\d.]+)%/.exec(text);
+  if (weighted) {
+    weight = Number(weighted[1]);
+    text = text.slice(weighted[0].length);
+  }
+
+  return { weight, text: unescapeGift(text) };
+};
+
+// "3.14:0.01" or "1..5" or "3.14"
+const giftNumber = (text: string): { numericAnswer?: number; tolerance: number } => {
+  const value = unescapeGift(text);
+  const range = /^(.+)\.\.(.+)$/.exec(value);
+  if (range) {
+    const [low, high] = [toNumber(range[1]), toNumber(range[2])];
+    if (low === undefined || high === undefined) return { numericAnswer: NaN, tolerance: 0 };
+    return { numericAnswer: (low + high) / 2, tolerance: Math.abs(high - low) / 2 };
+  }
+
+  const [answer, tolerance] = value.split(':');
+  return { numericAnswer: toNumber(answer), tolerance: toNumber(tolerance) ?? 0 };
+};
+
+const parseGiftAnswers = (body: string): QuestionInput | string => {
+  const trimmed = body.trim();
+
+  if (trimmed === '') return 'Essay questions are not supported';
+
+  if (trimmed.startsWith('#')) {
+    const tokens = giftTokens(trimmed.slice(1));
+    const text =
+      tokens.length > 0
+        ? tokens.map((t) => ({ ...t, ...giftAnswer(t.text) })).find((t) => t.weight === undefined || t.weight === 100)
+            ?.text
+        : unescapeGift(trimmed.slice(1).split(/(?<!\\)#/)[0]);
+    return { type: 'numeric', ...giftNumber(text ?? '') };
+  }
+
+  const trueFalse = /^(T|F|TRUE|FALSE)\s*(#|$)/i.exec(trimmed);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    return {
+      type: 'true_false',
+      answers: [
+        { text: 'True', isCorrect: isTrue },
+        { text: 'False', isCorrect: !isTrue },
+      ],
+    };
+  }
+
+  const tokens = giftTokens(trimmed);
+  if (tokens.length === 0) return 'Could not read the answers';
+  if (tokens.some((t) => indexOfUnescaped(t.text, '->') >= 0)) return 'Matching questions are not supported';
+
+  const answers = tokens.map((t) => ({ marker: t.marker, ...giftAnswer(t.text) }));
+
+  if (answers.every((a) => a.marker === '=')) {
+    return {
+      type: 'short_text',
+      acceptedAnswers: answers.filter((a) => a.weight === undefined || a.weight === 100).map((a) => a.text),
+    };
+  }
+
+  if (answers.some((a) => a.weight !== undefined)) {
+    return {
+      type: 'multiple',
+      scoring: 'partial',
+      answers: answers.map((a) => ({ text: a.text, isCorrect: a.marker === '=' || (a.weight ?? 0) > 0 })),
+    };
+  }
+
+  return {
+    type: 'single',
+    answers: answers.map((a) => ({ text: a.text, isCorrect: a.marker === '=' })),
+  };
+};
+
+/**
+ * Read the questions of a GIFT file. Questions are separated by blank
+ * lines; text without an answer block is a description and is skipped.
+ */
+export const parseGift = (text: string, defaults: ImportDefaults): ParsedQuizFile => {
+  const parsed: ParsedQuizFile = { questions: [] };
+  const blocks: { line: number; text: string }[] = [];
+  let inBlock = false;
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim().startsWith('//')) return;
+
+    if (line.trim() === '') {
+      inBlock = false;
+    } else if (inBlock) {
+      blocks[blocks.length - 1].text += `\n${line}`;
+    } else {
+      blocks.push({ line: i + 1, text: line });
+      inBlock = true;
+    }
+  });
+
+  blocks.forEach(({ line, text: source }) => {
+    let rest = source.trim();
+
+    const category = /^\$CATEGORY:\s*(.*)$/i.exec(rest);
+    if (category) {
+      parsed.title = categoryName(category[1]) || parsed.title;
+      return;
+    }
+
+    let name: string | undefined;
+    if (rest.startsWith('::')) {
+      const end = indexOfUnescaped(rest, '::', 2);
+      if (end >= 0) {
+        name = unescapeGift(rest.slice(2, end));
+        rest = rest.slice(end + 2);
+      }
+    }
+
+    const format = /^\s*\[(html|plain|markdown|moodle)\]/i.exec(rest);
+    if (format) rest = rest.slice(format[0].length);
+    const isHtml = format?.[1].toLowerCase() === 'html';
+    const readText = (value: string) => (isHtml ? htmlToText(unescapeGift(value)) : unescapeGift(value));
+
+    const location = name ? `line ${line} "${name}"` : `line ${line}`;
+    const open = indexOfUnescaped(rest, '{');
+    if (open < 0) return;
+
+    const close = indexOfUnescaped(rest, '}', open);
+    if (close < 0) {
+      parsed.questions.push({ location, errors: { answers: 'Missing closing }' } });
+      return;
+    }
+
+    const before = rest.slice(0, open).trim();
+    const after = rest.slice(close + 1).trim();
+    let body = rest.slice(open + 1, close);
+
+    let explanation: string | undefined;
+    const feedback = indexOfUnescaped(body, '####');
+    if (feedback >= 0) {
+      explanation = readText(body.slice(feedback + 4)) || undefined;
+      body = body.slice(0, feedback);
+    }
+
+    const answers = parseGiftAnswers(body);
+    if (typeof answers === 'string') {
+      parsed.questions.push({ location, errors: { type: answers } });
+      return;
+    }
+
+    parsed.questions.push({
+      location,
+      question: {
+        ...answers,
+        // Missing-word questions have text on both sides of the answers
+        questionText: after ? `${readText(before)} _____ ${readText(after)}` : readText(before),
+        explanation,
+        marks: defaults.marks,
+        timeLimitSeconds: defaults.timeLimitSeconds,
+      },
+    });
+  });
+
+  return parsed;
+};
+
+const toGiftAnswers = (question: IQuestion): string => {
+  const type = question.type || 'single';
+
+  switch (type) {
+    case 'true_false': {
+      const correct = question.answers.find((a) => a.isCorrect)?.text.toLowerCase();
+      if (correct === 'true' || correct === 'false') return correct === 'true' ? 'TRUE' : 'FALSE';
+      return question.answers.map((a) => `${a.isCorrect ? '=' : '~'}${escapeGift(a.text)}`).join(' ');
+    }
+
+    case 'multiple': {
+      const correct = question.answers.filter((a) => a.isCorrect).length;
+      const wrong = question.scoring === 'partial' ? -100 / correct : -100;
+      return question.answers
+        .map((a) => `~%${formatNumber(a.isCorrect ? 100 / correct : wrong)}%${escapeGift(a.text)}`)
+        .join(' ');
+    }
+
+    case 'numeric':
+      return `#${question.numericAnswer}${question.tolerance ? `:${question.tolerance}` : ''}`;
+
+    case 'short_text':
+      return question.acceptedAnswers.map((a) => `=${escapeGift(a)}`).join(' ');
+
+    default:
+      return question.answers.map((a) => `${a.isCorrect ? '=' : '~'}${escapeGift(a.text)}`).join(' ');
+  }
+};
+
+/**
+ * Write a quiz's questions as GIFT, under a category named after the quiz
+ */
+export const toGift = (quiz: IQuiz): string =>
+  [
+    `$CATEGORY: $course$/${quiz.title.replace(/\//g, '//')}`,
+    ...quiz.questions.map((question, i) => {
+      const explanation = question.explanation ? ` ####${escapeGift(question.explanation)}` : '';
+      return `::Question ${i + 1}:: ${escapeGift(question.questionText)} {${toGiftAnswers(question)}${explanation}}`;
+    }),
+    '',
+  ].join('\n\n');
+
+// ============================================
+// CSV
+// ============================================
+
+// One question per row after a header row. Columns are matched by name,
+// in any order:
+//   type             single (default), multiple, true_false, numeric or short_text
+//   questionText     required
+//   option1..option10  choices of single and multiple questions
+//   correct          single/multiple: option numbers, e.g. "2" or "1; 3"
+//                    true_false: true or false
+//                    numeric: the answer
+//                    short_text: accepted answers, separated by ";"
+//   scoring          all_or_nothing (default) or partial, for multiple
+//   tolerance        numeric: answers within +/- tolerance are correct
+//   caseSensitive    short_text: true or false (default)
+//   marks, timeLimitSeconds, explanation, imageUrl
+const CSV_COLUMNS = [
+  'type',
+  'questionText',
+  'correct',
+  'scoring',
+  'tolerance',
+  'caseSensitive',
+  'marks',
+  'timeLimitSeconds',
+  'explanation',
+  'imageUrl',
+];
+
+const splitList = (value: string): string[] =>
+  value
+    .split(';')
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+const isTrue = (value: string): boolean => ['true', 'yes', '1'].includes(value.trim().toLowerCase());
+
+const parseCsvQuestion = (
+  cells: Record<string, string>,
+  defaults: ImportDefaults
+): Pick<ImportedQuestion, 'question' | 'errors'> => {
+  const errors: Record<string, string> = {};
+  const type = (cells.type?.trim().toLowerCase() || 'single') as QuestionType;
+  const correct = cells.correct?.trim() || '';
+
+  if (!QUESTION_TYPES.includes(type)) {
+    return { errors: { type: `Question type must be one of: ${QUESTION_TYPES.join(', ')}` } };
+  }
+
+  const number = (field: string, fallback?: number) => {
+    const value = toNumber(cells[field]);
+    if (Number.isNaN(value)) errors[field] = `${field} must be a number`;
+    return value ?? fallback;
+  };
+
+  const question: QuestionInput = {
+    type,
+    questionText: cells.questiontext?.trim(),
+    marks: number('marks', defaults.marks),
+    timeLimitSeconds: number('timelimitseconds', defaults.timeLimitSeconds),
+    explanation: cells.explanation?.trim() || undefined,
+    imageUrl: cells.imageurl?.trim() || undefined,
+  };
+
+  switch (type) {
+    case 'single':
+    case 'multiple': {
+      const options = Object.keys(cells)
+        .map((key) => /^option(\d+)$/.exec(key))
+        .filter((m): m is RegExpExecArray => m !== null && cells[m[0]].trim() !== '')
+        .map((m) => ({ number: Number(m[1]), text: cells[m[0]].trim() }))
+        .sort((a, b) => a.number - b.number);
+      const marked = splitList(correct).map(Number);
+
+      const missing = marked.find((n) => !options.some((o) => o.number === n));
+      if (missing !== undefined) {
+        errors.correct = Number.isInteger(missing)
+          ? `option${missing} is empty`
+          : 'Correct options must be option numbers';
+      }
+
+      question.answers = options.map((o) => ({ text: o.text, isCorrect: marked.includes(o.number) }));
+      if (type === 'multiple' && cells.scoring?.trim()) {
+        question.scoring = cells.scoring.trim().toLowerCase() as IQuestion['scoring'];
+      }
+      break;
+    }
+
+    case 'true_false':
+      if (!['true', 'false'].includes(correct.toLowerCase())) {
+        errors.correct = 'correct must be true or false';
+      }
+      question.answers = [
+        { text: 'True', isCorrect: correct.toLowerCase() === 'true' },
+        { text: 'False', isCorrect: correct.toLowerCase() === 'false' },
+      ];
+      break;
+
+    case 'numeric':
+      question.numericAnswer = number('correct');
+      question.tolerance = number('tolerance', 0);
+      break;
+
+    case 'short_text':
+      question.acceptedAnswers = splitList(correct);
+      question.caseSensitive = isTrue(cells.casesensitive || '');
+      break;
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { question };
+};
+
+/**
+ * Read the questions of a CSV file in the layout above
+ */
+export const parseQuizCsv = (text: string, defaults: ImportDefaults): ParsedQuizFile => {
+  const [header, ...rows] = parseCsv(text);
+  // Undo the quote toCsv puts in front of cells that look like formulas
+  const unquote = (cell: string) => (/^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell);
+
+  const columns = (header || []).map((name) => name.trim().toLowerCase());
+  if (!columns.includes('questiontext')) {
+    throw invalidFile('The first row must name the columns, including questionText');
+  }
+
+  const questions = rows
+    .map((row, i) => ({ row, location: `row ${i + 2}` }))
+    .filter(({ row }) => row.some((cell) => cell.trim() !== ''))
+    .map(({ row, location }): ImportedQuestion => {
+      const cells: Record<string, string> = {};
+      columns.forEach((column, i) => {
+        cells[column] = unquote(row[i] ?? '');
+      });
+
+      return { location, ...parseCsvQuestion(cells, defaults) };
+    });
+
+  return { questions };
+};
+
+/**
+ * Write a quiz's questions as CSV in the layout above
+ */
+export const toQuizCsv = (quiz: IQuiz): string => {
+  const optionCount = Math.max(2, ...quiz.questions.map((q) => q.answers.length));
+  const optionColumns = Array.from({ length: optionCount }, (_, i) => `option${i + 1}`);
+
+  return toCsv(
+    [CSV_COLUMNS[0], CSV_COLUMNS[1], ...optionColumns, ...CSV_COLUMNS.slice(2)],
+    quiz.questions.map((question) => {
+      const type = question.type || 'single';
+      const isChoice = type === 'single' || type === 'multiple';
+
+      let correct: unknown;
+      if (isChoice) {
+        correct = question.answers.map((a, i) => (a.isCorrect ? i + 1 : null)).filter((n) => n !== null);
+      } else if (type === 'true_false') {
+        correct = String(question.answers.find((a) => a.isCorrect)?.text.toLowerCase() === 'true');
+      } else if (type === 'numeric') {
+        correct = question.numericAnswer;
+      } else {
+        correct = question.acceptedAnswers;
+      }
+
+      return [
+        type,
+        question.questionText,
+        ...optionColumns.map((_, i) => (isChoice ? question.answers[i]?.text : undefined)),
+        correct,
+        type === 'multiple' ? question.scoring : undefined,
+        type === 'numeric' ? question.tolerance : undefined,
+        type === 'short_text' ? question.caseSensitive : undefined,
+        question.marks,
+        question.timeLimitSeconds,
+        question.explanation,
+        question.imageUrl,
+      ];
+    })
+  );
+};
+
+// ============================================
+// Import and export
+// ============================================
+
+/**
+ * Read the questions of a quiz file in the given format
+ */
+export const parseQuizFile = (
+  format: QuizFileFormat,
+  content: string,
+  defaults: ImportDefaults = DEFAULT_IMPORT
+): ParsedQuizFile => {
+  const text = content.replace(/^\uFEFF/, '');
+
+  switch (format) {
+    case 'moodle_xml':
+      return parseMoodleXml(text, defaults);
+    case 'gift':
+      return parseGift(text, defaults);
+    default:
+      return parseQuizCsv(text, defaults);
+  }
+};
+
+/**
+ * Build a quiz from the questions read from a file and check every
+ * question against the quiz model. The quiz is not saved.
+ */
+export const prepareQuizImport = async (
+  format: QuizFileFormat,
+  parsed: ParsedQuizFile,
+  fields: Partial<Pick<IQuiz, 'title' | 'description' | 'isVisible'>>
+): Promise<{ quiz: IQuiz; report: ImportReport }> => {
+  const readable = parsed.questions.filter((q) => q.question);
+  const quiz = new Quiz({ ...fields, questions: readable.map((q) => q.question) });
+
+  // Question errors by position among the readable questions
+  const questionErrors: Record<string, string>[] = readable.map(() => ({}));
+  const quizErrors: Record<string, string> = {};
+
+  try {
+    await quiz.validate();
+  } catch (error) {
+    if (!(error instanceof mongoose.Error.ValidationError)) throw error;
+
+    Object.values(error.errors).forEach(({ path, message }) => {
+      const match = /^questions\.(\d+)\.(.+)$/.exec(path);
+      if (match) {
+        questionErrors[Number(match[1])][match[2]] = message;
+      } else if (path !== 'questions' || readable.length === 0) {
+        quizErrors[path] = message;
+      }
+    });
+  }
+
+  let readIndex = 0;
+  const questions = parsed.questions.map((imported, index) => {
+    const errors = imported.question ? questionErrors[readIndex++] : imported.errors;
+    return {
+      index,
+      location: imported.location,
+      type: imported.question?.type,
+      questionText: imported.question?.questionText,
+      ...(errors && Object.keys(errors).length > 0 && { errors }),
+    };
+  });
+
+  const invalid = questions.filter((q) => q.errors).length;
+
+  return {
+    quiz,
+    report: {
+      format,
+      title: quiz.title,
+      total: questions.length,
+      valid: questions.length - invalid,
+      invalid,
+      ...(Object.keys(quizErrors).length > 0 && { errors: quizErrors }),
+      questions,
+    },
+  };
+};
+
+/**
+ * Write a quiz's own questions in the given format. Questions drawn from
+ * banks are not part of the export.
+ */
+export const exportQuizFile = (quiz: IQuiz, format: QuizFileFormat): QuizFile => {
+  switch (format) {
+    case 'moodle_xml':
+      return { content: toMoodleXml(quiz), contentType: 'application/xml', extension: 'xml' };
+    case 'gift':
+      return { content: toGift(quiz), contentType: 'text/plain; charset=utf-8', extension: 'gift' };
+    default:
+      return { content: toQuizCsv(quiz), contentType: 'text/csv', extension: 'csv' };
+  }
+};
@@ -0,0 +1,319 @@
+// ============================================
+// ComES Backend - Quiz Scoring
+// ============================================
+//
+// How answers are checked and marked. Every place that scores answers
+// (attempts, live sessions, regrades and previews) goes through here, so a
+// quiz's scoring rules apply the same way everywhere.
+
+import mongoose from 'mongoose';
+import { IQuestion, IScoringRules, ScoringStrategy, SCORING_STRATEGIES } from '../models/quiz.model';
+import { ISubmittedAnswer } from '../models/quizAttempt.model';
+import { ValidationError } from './errors';
+
+export interface ScoredAnswer {
+  isCorrect: boolean;
+  marksAwarded: number;
+}
+
+export interface AnswerContext {
+  // Seconds taken to answer; 0 on untimed quizzes
+  responseTimeSeconds: number;
+  // Correct answers in a row just before this one
+  streak: number;
+}
+
+interface ScorableResponse extends ISubmittedAnswer, Partial<ScoredAnswer> {
+  questionId: mongoose.Types.ObjectId | string;
+  responseTimeSeconds: number;
+}
+
+export interface SampleResponse extends Partial<ISubmittedAnswer> {
+  questionId: string;
+  responseTimeSeconds?: number;
+}
+
+export interface ScoringPreview {
+  rules: IScoringRules;
+  responses: (ISubmittedAnswer & ScoredAnswer & { questionId: string; responseTimeSeconds: number })[];
+  totalMarks: number;
+  maxMarks: number;
+  percentage: number;
+  // Totals of the same responses under each strategy, other settings unchanged
+  strategies: { strategy: ScoringStrategy; totalMarks: number; percentage: number }[];
+}
+
+interface StrategyInput extends AnswerContext {
+  question: IQuestion;
+  // Share of the question's credit the answer earns, from 0 to 1
+  credit: number;
+  answered: boolean;
+  rules: IScoringRules;
+}
+
+// The original marking: speed-weighted, with a 10% floor
+export const DEFAULT_SCORING_RULES: IScoringRules = {
+  strategy: 'speed',
+  speedFloor: 0.1,
+  wrongAnswerPenalty: 0.25,
+  streakBonus: 0.1,
+  maxStreakBonus: 0.5,
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const normalizeText = (text: string, caseSensitive: boolean): string => {
+  const collapsed = text.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+/**
+ * Pick the answer field that matches the question type out of a request
+ * body and check its shape. Fields meant for other question types are
+ * dropped.
+ */
+export const parseAnswer = (question: IQuestion, body: Partial<ISubmittedAnswer>): ISubmittedAnswer => {
+  const isChoice = (index: unknown): index is number =>
+    Number.isInteger(index) && (index as number) >= 0 && (index as number) < question.answers.length;
+
+  switch (question.type || 'single') {
+    case 'multiple': {
+      const indexes = body.selectedAnswerIndexes;
+      if (!Array.isArray(indexes) || indexes.length === 0 || !indexes.every(isChoice)) {
+        throw new ValidationError('Invalid answer', {
+          selectedAnswerIndexes: 'Select one or more of the question\'s answers',
+        });
+      }
+      return { selectedAnswerIndex: null, selectedAnswerIndexes: [...new Set(indexes)].sort((a, b) => a - b) };
+    }
+
+    case 'numeric':
+      if (typeof body.numericAnswer !== 'number' || !Number.isFinite(body.numericAnswer)) {
+        throw new ValidationError('Invalid answer', { numericAnswer: 'A number is required' });
+      }
+      return { selectedAnswerIndex: null, numericAnswer: body.numericAnswer };
+
+    case 'short_text':
+      if (typeof body.textAnswer !== 'string' || !body.textAnswer.trim()) {
+        throw new ValidationError('Invalid answer', { textAnswer: 'An answer is required' });
+      }
+      return { selectedAnswerIndex: null, textAnswer: body.textAnswer.trim() };
+
+    default:
+      if (!isChoice(body.selectedAnswerIndex)) {
+        throw new ValidationError('Invalid answer', {
+          selectedAnswerIndex: `Answer index must be between 0 and ${question.answers.length - 1}`,
+        });
+      }
+      return { selectedAnswerIndex: body.selectedAnswerIndex };
+  }
+};
+
+/**
+ * Whether a recorded response holds an answer, as opposed to a timed-out
+ * question
+ */
+export const isAnswered = (answer: ISubmittedAnswer): boolean =>
+  (answer.selectedAnswerIndex !== null && answer.selectedAnswerIndex !== undefined) ||
+  (answer.selectedAnswerIndexes?.length ?? 0) > 0 ||
+  typeof answer.numericAnswer === 'number' ||
+  typeof answer.textAnswer === 'string';
+
+/**
+ * Share of a question's credit an answer earns, from 0 to 1
+ */
+export const answerCredit = (question: IQuestion, answer: ISubmittedAnswer): number => {
+  switch (question.type || 'single') {
+    case 'multiple': {
+      const selected = new Set(answer.selectedAnswerIndexes || []);
+      const correct = question.answers.filter((a) => a.isCorrect).length;
+      let hits = 0;
+      let misses = 0;
+
+      question.answers.forEach((a, index) => {
+        if (!selected.has(index)) return;
+        if (a.isCorrect) hits++;
+        else misses++;
+      });
+
+      if (question.scoring === 'partial') {
+        return correct > 0 ? Math.max(0, (hits - misses) / correct) : 0;
+      }
+      return hits === correct && misses === 0 ? 1 : 0;
+    }
+
+    case 'numeric':
+      if (typeof answer.numericAnswer !== 'number' || typeof question.numericAnswer !== 'number') return 0;
+      // Small epsilon so that e.g. 0.1 + 0.2 still matches 0.3 with no tolerance
+      return Math.abs(answer.numericAnswer - question.numericAnswer) <= (question.tolerance || 0) + 1e-9 ? 1 : 0;
+
+    case 'short_text': {
+      if (typeof answer.textAnswer !== 'string') return 0;
+      const given = normalizeText(answer.textAnswer, question.caseSensitive);
+      return question.acceptedAnswers.some((a) => normalizeText(a, question.caseSensitive) === given) ? 1 : 0;
+    }
+
+    default:
+      if (answer.selectedAnswerIndex === null || answer.selectedAnswerIndex === undefined) return 0;
+      return question.answers[answer.selectedAnswerIndex]?.isCorrect ? 1 : 0;
+  }
+};
+
+// Marks for an answer under each strategy. Partially correct multi-select
+// answers earn their share of what a correct answer would.
+const STRATEGIES: Record<ScoringStrategy, (input: StrategyInput) => number> = {
+  // The question's marks, however long the answer took
+  flat: ({ question, credit }) => credit * question.marks,
+
+  // Marks in proportion to the time left on the question, but never less
+  // than the floor
+  speed: ({ question, credit, responseTimeSeconds, rules }) => {
+    const timeLimit = question.timeLimitSeconds;
+    const timeFraction = Math.max(0, (timeLimit - responseTimeSeconds) / timeLimit);
+    return credit * question.marks * Math.max(rules.speedFloor, timeFraction);
+  },
+
+  // Wrong answers lose marks; questions left unanswered do not
+  negative: ({ question, credit, answered, rules }) => {
+    if (credit > 0) return credit * question.marks;
+    return answered ? -rules.wrongAnswerPenalty * question.marks : 0;
+  },
+
+  // Fully correct answers earn a bonus for each correct answer before them
+  streak: ({ question, credit, streak, rules }) => {
+    const bonus = credit === 1 ? Math.min(streak * rules.streakBonus, rules.maxStreakBonus) : 0;
+    return credit * question.marks * (1 + bonus);
+  },
+};
+
+/**
+ * Score one answer under a quiz's scoring rules
+ */
+export const scoreAnswer = (
+  question: IQuestion,
+  answer: ISubmittedAnswer,
+  context: AnswerContext,
+  rules: IScoringRules = DEFAULT_SCORING_RULES
+): ScoredAnswer => {
+  const credit = answerCredit(question, answer);
+  const marks = STRATEGIES[rules.strategy]({ question, credit, answered: isAnswered(answer), rules, ...context });
+
+  return {
+    isCorrect: credit === 1,
+    marksAwarded: round(marks),
+  };
+};
+
+/**
+ * Correct answers in a row at the end of a list of responses, in the order
+ * the questions were asked. Questions without a response break the streak.
+ */
+export const currentStreak = (responses: ({ isCorrect: boolean } | undefined)[]): number => {
+  let streak = 0;
+  for (let i = responses.length - 1; i >= 0 && responses[i]?.isCorrect; i--) {
+    streak++;
+  }
+  return streak;
+};
+
+/**
+ * Score a set of responses to the given questions in the questions' order,
+ * so streaks carry from one answer to the next. Only the first response to
+ * a question counts; repeats score nothing. Responses to other questions
+ * keep their score, if any. Untimed scoring ignores response times.
+ */
+export const scoreResponses = <T extends ScorableResponse>(
+  questions: IQuestion[],
+  responses: T[],
+  rules: IScoringRules = DEFAULT_SCORING_RULES,
+  { isTimed }: { isTimed: boolean }
+): (T & ScoredAnswer)[] => {
+  const scored = new Map<T, T & ScoredAnswer>();
+  const questionIds = new Set(questions.map((q) => q._id.toString()));
+  const asked: (ScoredAnswer | undefined)[] = [];
+
+  questions.forEach((question) => {
+    const response = responses.find((r) => r.questionId.toString() === question._id.toString());
+    if (!response) {
+      asked.push(undefined);
+      return;
+    }
+
+    const context = {
+      responseTimeSeconds: isTimed ? response.responseTimeSeconds : 0,
+      streak: currentStreak(asked),
+    };
+    const result = { ...response, ...scoreAnswer(question, response, context, rules) };
+    scored.set(response, result);
+    asked.push(result);
+  });
+
+  return responses.map((response) => {
+    const result = scored.get(response);
+    if (result) return result;
+
+    return questionIds.has(response.questionId.toString())
+      ? { ...response, isCorrect: false, marksAwarded: 0 }
+      : { isCorrect: false, marksAwarded: 0, ...response };
+  });
+};
+
+/**
+ * Totals of a set of scored responses against a quiz's maximum marks. With
+ * negative marking a total never drops below zero; with streak bonuses it
+ * can exceed the maximum.
+ */
+export const totalScore = (
+  responses: { marksAwarded: number }[],
+  questions: IQuestion[]
+): { totalMarks: number; maxMarks: number; percentage: number } => {
+  const totalMarks = Math.max(0, round(responses.reduce((sum, r) => sum + r.marksAwarded, 0)));
+  const maxMarks = questions.reduce((sum, q) => sum + q.marks, 0);
+  const percentage = maxMarks > 0 ? Math.round((totalMarks / maxMarks) * 10000) / 100 : 0;
+
+  return { totalMarks, maxMarks, percentage };
+};
+
+/**
+ * How a set of sample responses would score under the given rules, and
+ * what they would total under each of the other strategies
+ */
+export const previewScoring = (
+  questions: IQuestion[],
+  samples: SampleResponse[],
+  rules: IScoringRules,
+  { isTimed }: { isTimed: boolean }
+): ScoringPreview => {
+  const questionMap = new Map(questions.map((q) => [q._id.toString(), q]));
+  const seen = new Set<string>();
+
+  const answers = samples.map((sample, i) => {
+    const question = questionMap.get(sample.questionId);
+    if (!question) {
+      throw new ValidationError('Invalid responses', {
+        [`responses[${i}].questionId`]: 'Question not found in this quiz',
+      });
+    }
+    if (seen.has(sample.questionId)) {
+      throw new ValidationError('Invalid responses', {
+        [`responses[${i}].questionId`]: 'Each question can only be answered once',
+      });
+    }
+    seen.add(sample.questionId);
+
+    return {
+      questionId: sample.questionId,
+      ...parseAnswer(question, sample),
+      responseTimeSeconds: sample.responseTimeSeconds || 0,
+    };
+  });
+
+  const responses = scoreResponses(questions, answers, rules, { isTimed });
+  const strategies = SCORING_STRATEGIES.map((strategy) => {
+    const scored = scoreResponses(questions, answers, { ...rules, strategy }, { isTimed });
+    const { totalMarks, percentage } = totalScore(scored, questions);
+    return { strategy, totalMarks, percentage };
+  });
+
+  return { rules, responses, ...totalScore(responses, questions), strategies };
+};
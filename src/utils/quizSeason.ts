@@ -0,0 +1,244 @@
+// ============================================
+// ComES Backend - Quiz Seasons
+// ============================================
+//
+// Season leaderboards rank students on their best attempt at each quiz of
+// the season, ties going to the lower total response time. Standings are
+// cached per student and updated one attempt at a time; they are only
+// rebuilt from all attempts when a season's quizzes or window change.
+// Team attempts are ranked on their quiz's team leaderboard instead.
+
+import mongoose from 'mongoose';
+import { Quiz } from '../models/quiz.model';
+import { QuizAttempt } from '../models/quizAttempt.model';
+import { QuizSeason, IQuizSeason } from '../models/quizSeason.model';
+import { SeasonStanding, ISeasonStanding, ISeasonQuizResult } from '../models/seasonStanding.model';
+import { Student } from '../models/student.model';
+import { DomainEventMap, onDomainEvent } from './domainEvents';
+import { logger } from './logger';
+
+type Id = mongoose.Types.ObjectId | string;
+
+const MAX_UPDATE_TRIES = 3;
+
+const isBetterResult = (a: ISeasonQuizResult, b: ISeasonQuizResult): boolean => {
+  if (a.totalMarks !== b.totalMarks) return a.totalMarks > b.totalMarks;
+  return a.responseTimeSeconds < b.responseTimeSeconds;
+};
+
+const isInWindow = (season: IQuizSeason, at: Date): boolean => {
+  return (!season.startsAt || at >= season.startsAt) && (!season.endsAt || at < season.endsAt);
+};
+
+/**
+ * Count a completed attempt towards every season its quiz is part of, if
+ * it beats the student's best attempt at that quiz so far
+ */
+export const recordSeasonAttempt = async (completed: DomainEventMap['quizAttempt.completed']): Promise<void> => {
+  if (completed.teamId) return;
+
+  const seasons = await QuizSeason.find({ quizzes: completed.quizId });
+  const eligible = seasons.filter((season) => isInWindow(season, completed.completedAt));
+  if (eligible.length === 0) return;
+
+  const student = await Student.findById(completed.studentId).select('batch');
+  const result: ISeasonQuizResult = {
+    quiz: completed.quizId,
+    attempt: completed.attemptId,
+    totalMarks: completed.totalMarks,
+    responseTimeSeconds: completed.responseTimeSeconds,
+    completedAt: completed.completedAt,
+  };
+
+  for (const season of eligible) {
+    for (let tries = 1; ; tries++) {
+      const standing =
+        (await SeasonStanding.findOne({ season: season._id, student: completed.studentId })) ||
+        new SeasonStanding({ season: season._id, student: completed.studentId, results: [] });
+
+      const index = standing.results.findIndex((r) => r.quiz.equals(result.quiz));
+      if (index >= 0 && !isBetterResult(result, standing.results[index])) break;
+
+      if (index >= 0) {
+        standing.results.splice(index, 1, result);
+      } else {
+        standing.results.push(result);
+      }
+      standing.participantName = completed.participantName;
+      standing.batch = student?.batch;
+
+      try {
+        await standing.save();
+        break;
+      } catch (error) {
+        // Another attempt by the same student was recorded in the meantime
+        const conflict =
+          error instanceof mongoose.Error.VersionError || (error as { code?: number }).code === 11000;
+        if (!conflict || tries >= MAX_UPDATE_TRIES) throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Recompute a season's standings from all completed attempts at its quizzes
+ */
+export const rebuildSeasonStandings = async (season: IQuizSeason): Promise<number> => {
+  const untimed = (await Quiz.find({ _id: { $in: season.quizzes }, isTimed: false }).select('_id')).map((q) => q._id);
+
+  const completedAt: Record<string, Date> = {};
+  if (season.startsAt) completedAt.$gte = season.startsAt;
+  if (season.endsAt) completedAt.$lt = season.endsAt;
+
+  const rows = await QuizAttempt.aggregate([
+    {
+      $match: {
+        quizId: { $in: season.quizzes },
+        status: 'completed',
+        team: { $exists: false },
+        ...(Object.keys(completedAt).length > 0 && { completedAt }),
+      },
+    },
+    {
+      $addFields: {
+        responseTimeSeconds: {
+          $cond: [{ $in: ['$quizId', untimed] }, 0, { $round: [{ $sum: '$responses.responseTimeSeconds' }, 2] }],
+        },
+      },
+    },
+    // Best attempt per student and quiz
+    { $sort: { totalMarks: -1, responseTimeSeconds: 1, completedAt: 1 } },
+    {
+      $group: {
+        _id: { student: '$studentId', quiz: '$quizId' },
+        attempt: { $first: '$_id' },
+        participantName: { $first: '$participantName' },
+        totalMarks: { $first: '$totalMarks' },
+        responseTimeSeconds: { $first: '$responseTimeSeconds' },
+        completedAt: { $first: '$completedAt' },
+      },
+    },
+    {
+      $group: {
+        _id: '$_id.student',
+        participantName: { $first: '$participantName' },
+        results: {
+          $push: {
+            quiz: '$_id.quiz',
+            attempt: '$attempt',
+            totalMarks: '$totalMarks',
+            responseTimeSeconds: '$responseTimeSeconds',
+            completedAt: '$completedAt',
+          },
+        },
+        totalMarks: { $sum: '$totalMarks' },
+        totalResponseTimeSeconds: { $sum: '$responseTimeSeconds' },
+        quizzesPlayed: { $sum: 1 },
+      },
+    },
+    { $lookup: { from: Student.collection.name, localField: '_id', foreignField: '_id', as: 'student' } },
+  ]);
+
+  await SeasonStanding.deleteMany({ season: season._id });
+
+  if (rows.length > 0) {
+    await SeasonStanding.insertMany(
+      rows.map((row) => ({
+        season: season._id,
+        student: row._id,
+        participantName: row.participantName,
+        batch: row.student[0]?.batch,
+        results: row.results,
+        totalMarks: Math.round(row.totalMarks * 100) / 100,
+        totalResponseTimeSeconds: Math.round(row.totalResponseTimeSeconds * 100) / 100,
+        quizzesPlayed: row.quizzesPlayed,
+      }))
+    );
+  }
+
+  return rows.length;
+};
+
+/**
+ * Take a deleted quiz out of its seasons and re-rank them without it
+ */
+export const removeQuizFromSeasons = async (quizId: Id): Promise<void> => {
+  const seasons = await QuizSeason.find({ quizzes: quizId });
+
+  for (const season of seasons) {
+    season.quizzes = season.quizzes.filter((q) => !q.equals(quizId));
+    await season.save();
+    await rebuildSeasonStandings(season);
+  }
+};
+
+/**
+ * One page of a season's leaderboard, optionally for one batch. Students
+ * with equal marks and response time share a rank.
+ */
+export const getSeasonLeaderboard = async (
+  season: IQuizSeason,
+  { batch, page, limit }: { batch?: string; page: number; limit: number }
+): Promise<{ standings: (ISeasonStanding & { rank: number })[]; total: number }> => {
+  const filter = { season: season._id, ...(batch && { batch }) };
+  const skip = (page - 1) * limit;
+
+  const [standings, total] = await Promise.all([
+    SeasonStanding.find(filter)
+      .sort({ totalMarks: -1, totalResponseTimeSeconds: 1, _id: 1 })
+      .skip(skip)
+      .limit(limit),
+    SeasonStanding.countDocuments(filter),
+  ]);
+
+  if (standings.length === 0) return { standings: [], total };
+
+  // The first row's rank may be shared with rows on the previous page
+  const first = standings[0];
+  const ahead = await SeasonStanding.countDocuments({
+    ...filter,
+    $or: [
+      { totalMarks: { $gt: first.totalMarks } },
+      { totalMarks: first.totalMarks, totalResponseTimeSeconds: { $lt: first.totalResponseTimeSeconds } },
+    ],
+  });
+
+  let rank = ahead + 1;
+  const ranked = standings.map((standing, i) => {
+    const previous = standings[i - 1];
+    if (
+      previous &&
+      (previous.totalMarks !== standing.totalMarks ||
+        previous.totalResponseTimeSeconds !== standing.totalResponseTimeSeconds)
+    ) {
+      rank = skip + i + 1;
+    }
+    return Object.assign(standing, { rank });
+  });
+
+  return { standings: ranked, total };
+};
+
+/**
+ * A leaderboard row as shown publicly: no student IDs or attempts
+ */
+export const toPublicStanding = (standing: ISeasonStanding & { rank: number }) => ({
+  rank: standing.rank,
+  participantName: standing.participantName,
+  batch: standing.batch,
+  totalMarks: standing.totalMarks,
+  totalResponseTimeSeconds: standing.totalResponseTimeSeconds,
+  quizzesPlayed: standing.quizzesPlayed,
+});
+
+onDomainEvent('quizAttempt.completed', async (completed) => {
+  await recordSeasonAttempt(completed);
+});
+
+// Regraded scores may change any student's best attempt
+onDomainEvent('quiz.regraded', async ({ quizId }) => {
+  const seasons = await QuizSeason.find({ quizzes: quizId });
+  for (const season of seasons) {
+    await rebuildSeasonStandings(season);
+  }
+});
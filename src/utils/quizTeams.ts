@@ -0,0 +1,207 @@
+// ============================================
+// ComES Backend - Team Quizzes
+// ============================================
+//
+// Team quizzes are attempted once per active competition team. The team's
+// approved members (or only its leader) answer together on one shared
+// attempt, and results are ranked by team.
+
+import mongoose from 'mongoose';
+import { IQuiz } from '../models/quiz.model';
+import { QuizAttempt, IQuizAttempt } from '../models/quizAttempt.model';
+import { CompetitionTeam, ICompetitionTeam } from '../models/competitionTeam.model';
+import { IStudent } from '../models/student.model';
+import { AppError, NotFoundError } from './errors';
+import { assertAccessCode, assertEligible, assertQuizOpen } from './quizAccess';
+
+type Id = mongoose.Types.ObjectId | string;
+
+export interface TeamLeaderboardEntry {
+  rank: number;
+  team: { _id: mongoose.Types.ObjectId; name: string };
+  members: string[];
+  totalMarks: number;
+  maxMarks: number;
+  percentage: number;
+  completedAt?: Date;
+}
+
+// Active teams the student leads or is an approved member of
+const activeTeamsFilter = (studentId: Id) => ({
+  status: 'active',
+  $or: [{ leaderId: studentId }, { members: { $elemMatch: { studentId, status: 'approved' } } }],
+});
+
+/**
+ * Whether a student leads a team or is one of its approved members
+ */
+export const isTeamMember = (team: ICompetitionTeam, studentId: Id): boolean => {
+  return (
+    team.leaderId.equals(studentId) ||
+    team.members.some((member) => member.status === 'approved' && member.studentId.equals(studentId))
+  );
+};
+
+/**
+ * The leader and approved members of a team, by name
+ */
+export const teamMemberNames = (team: Pick<ICompetitionTeam, 'leaderName' | 'members'>): string[] => [
+  team.leaderName,
+  ...team.members.filter((member) => member.status === 'approved').map((member) => member.name),
+];
+
+/**
+ * The active team a student attempts a team quiz for. Students in several
+ * active teams must choose one.
+ */
+export const findStudentTeam = async (student: IStudent, teamId?: Id): Promise<ICompetitionTeam> => {
+  const teams = await CompetitionTeam.find({
+    ...activeTeamsFilter(student._id),
+    ...(teamId && { _id: teamId }),
+  });
+
+  if (teams.length === 0) {
+    throw teamId
+      ? new AppError('You are not a member of this team, or it is not active', 403, 'NOT_TEAM_MEMBER')
+      : new AppError('This quiz is for teams. Join an active competition team to attempt it', 403, 'TEAM_REQUIRED');
+  }
+
+  if (teams.length > 1) {
+    throw new AppError('You are in several active teams; choose one with teamId', 400, 'TEAM_NOT_CHOSEN');
+  }
+
+  return teams[0];
+};
+
+/**
+ * Reject members who may not answer for their team
+ */
+export const assertTeamAnswerer = (quiz: IQuiz, team: ICompetitionTeam, studentId: Id): void => {
+  if (quiz.teamAnswerers === 'leader' && !team.leaderId.equals(studentId)) {
+    throw new AppError('Only the team leader can answer this quiz', 403, 'LEADER_ONLY');
+  }
+};
+
+/**
+ * Check every rule for a team's attempt: the quiz's access rules for the
+ * member starting it, and that the team has not attempted it yet
+ */
+export const assertTeamCanAttempt = async (
+  quiz: IQuiz,
+  team: ICompetitionTeam,
+  student: IStudent,
+  accessCode?: string
+): Promise<void> => {
+  assertQuizOpen(quiz);
+  assertEligible(quiz, student);
+  assertAccessCode(quiz, accessCode);
+  assertTeamAnswerer(quiz, team, student._id);
+
+  if (await QuizAttempt.exists({ quizId: quiz._id, team: team._id })) {
+    throw new AppError(`Team ${team.name} has already attempted this quiz`, 403, 'TEAM_ALREADY_ATTEMPTED');
+  }
+};
+
+/**
+ * Whether a student may see an attempt: their own, or their team's
+ */
+export const isAttemptParticipant = async (attempt: IQuizAttempt, studentId: Id): Promise<boolean> => {
+  if (!attempt.team) return attempt.studentId.equals(studentId);
+
+  const team = await CompetitionTeam.findById(attempt.team);
+  return !!team && isTeamMember(team, studentId);
+};
+
+/**
+ * Reject students who may not answer an attempt. Other students' attempts
+ * are not found.
+ */
+export const assertAttemptAnswerer = async (attempt: IQuizAttempt, quiz: IQuiz, studentId: Id): Promise<void> => {
+  if (!attempt.team) {
+    if (!attempt.studentId.equals(studentId)) throw new NotFoundError('Attempt');
+    return;
+  }
+
+  const team = await CompetitionTeam.findById(attempt.team);
+  if (!team || !isTeamMember(team, studentId)) {
+    throw new NotFoundError('Attempt');
+  }
+
+  assertTeamAnswerer(quiz, team, studentId);
+};
+
+/**
+ * A student's active teams and where each stands with a team quiz
+ */
+export const getTeamQuizStatus = async (quiz: IQuiz, student: IStudent) => {
+  const teams = await CompetitionTeam.find(activeTeamsFilter(student._id)).sort({ name: 1 });
+  const attempts = await QuizAttempt.find({ quizId: quiz._id, team: { $in: teams.map((t) => t._id) } }).select(
+    'team status'
+  );
+
+  return teams.map((team) => {
+    const attempt = attempts.find((a) => a.team?.equals(team._id));
+
+    return {
+      _id: team._id,
+      name: team.name,
+      isLeader: team.leaderId.equals(student._id),
+      canAnswer: quiz.teamAnswerers !== 'leader' || team.leaderId.equals(student._id),
+      attemptId: attempt?._id ?? null,
+      attemptStatus: attempt?.status ?? null,
+    };
+  });
+};
+
+/**
+ * One page of a team quiz's leaderboard, with each team's members. Teams
+ * with equal marks share a rank; the earlier finish is listed first.
+ */
+export const getTeamLeaderboard = async (
+  quiz: IQuiz,
+  { page, limit }: { page: number; limit: number }
+): Promise<{ entries: TeamLeaderboardEntry[]; total: number }> => {
+  const filter = { quizId: quiz._id, status: 'completed', team: { $exists: true } };
+  const skip = (page - 1) * limit;
+
+  const [attempts, total] = await Promise.all([
+    QuizAttempt.find(filter)
+      .select('team teamName totalMarks maxMarks percentage completedAt')
+      .sort({ totalMarks: -1, completedAt: 1, _id: 1 })
+      .skip(skip)
+      .limit(limit),
+    QuizAttempt.countDocuments(filter),
+  ]);
+
+  if (attempts.length === 0) return { entries: [], total };
+
+  const teams = await CompetitionTeam.find({ _id: { $in: attempts.map((a) => a.team) } }).select(
+    'name leaderName members'
+  );
+  const teamsById = new Map(teams.map((team) => [team._id.toString(), team]));
+
+  // The first row's rank may be shared with rows on the previous page
+  const ahead = await QuizAttempt.countDocuments({ ...filter, totalMarks: { $gt: attempts[0].totalMarks } });
+
+  let rank = ahead + 1;
+  const entries = attempts.map((attempt, i): TeamLeaderboardEntry => {
+    if (i > 0 && attempts[i - 1].totalMarks !== attempt.totalMarks) {
+      rank = skip + i + 1;
+    }
+
+    // Teams deleted since keep the name recorded on the attempt
+    const team = teamsById.get(attempt.team!.toString());
+
+    return {
+      rank,
+      team: { _id: attempt.team!, name: team?.name ?? attempt.teamName ?? '' },
+      members: team ? teamMemberNames(team) : [],
+      totalMarks: attempt.totalMarks,
+      maxMarks: attempt.maxMarks,
+      percentage: attempt.percentage,
+      completedAt: attempt.completedAt,
+    };
+  });
+
+  return { entries, total };
+};
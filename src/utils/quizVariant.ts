@@ -0,0 +1,152 @@
+// ============================================
+// ComES Backend - Quiz Variants
+// ============================================
+//
+// Each attempt at a timed or randomized quiz gets its own variant: the
+// quiz's fixed questions plus questions drawn from question banks, in an
+// order and with answer orders of its own. The variant is stored on the
+// attempt, so scoring and review never depend on drawing again.
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { IQuiz, IQuestion, IQuestionDraw, QUESTION_DIFFICULTIES } from '../models/quiz.model';
+import { QuestionBank, IBankQuestion } from '../models/questionBank.model';
+import { IQuizAttempt, IVariantQuestion, ISubmittedAnswer } from '../models/quizAttempt.model';
+import { AppError } from './errors';
+
+// Fisher-Yates over a copy, with a CSPRNG so orders cannot be predicted
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(0, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const pick = <T>(items: T[], count: number): T[] => shuffle(items).slice(0, count);
+
+// Choice orders are only shuffled where the order carries no meaning
+const SHUFFLED_TYPES = ['single', 'multiple'];
+
+const identity = (length: number): number[] => Array.from({ length }, (_v, i) => i);
+
+// Copy subdocuments so the attempt does not share them with the quiz or bank
+const copy = (question: IQuestion): IQuestion =>
+  (question as unknown as mongoose.Types.Subdocument).toObject?.() ?? question;
+
+/**
+ * Draw questions for one attempt according to a quiz's draw rules. A
+ * question is never drawn twice, even if two rules use the same bank.
+ */
+export const drawQuestions = async (
+  draws: IQuestionDraw[]
+): Promise<{ question: IBankQuestion; bank: mongoose.Types.ObjectId }[]> => {
+  if (draws.length === 0) return [];
+
+  const bankIds = [...new Set(draws.map((d) => d.bank.toString()))];
+  const banks = await QuestionBank.find({ _id: { $in: bankIds } });
+  const used = new Set<string>();
+  const drawn: { question: IBankQuestion; bank: mongoose.Types.ObjectId }[] = [];
+
+  for (const draw of draws) {
+    const bank = banks.find((b) => b._id.equals(draw.bank));
+    if (!bank) {
+      throw new AppError('A question bank used by this quiz no longer exists', 400, 'BANK_NOT_FOUND');
+    }
+
+    const candidates = bank.questions.filter(
+      (q) =>
+        !used.has(q._id.toString()) &&
+        (draw.topics.length === 0 || q.topics.some((t) => draw.topics.includes(t)))
+    );
+
+    const mix = draw.difficulty;
+    const groups = mix && QUESTION_DIFFICULTIES.some((d) => mix[d] !== undefined)
+      ? QUESTION_DIFFICULTIES.map((d) => ({
+          label: `${d} questions`,
+          pool: candidates.filter((q) => q.difficulty === d),
+          count: mix[d] || 0,
+        }))
+      : [{ label: 'questions', pool: candidates, count: draw.count }];
+
+    for (const { label, pool, count } of groups) {
+      if (pool.length < count) {
+        throw new AppError(
+          `Question bank "${bank.name}" has ${pool.length} matching ${label}, ${count} needed`,
+          400,
+          'NOT_ENOUGH_QUESTIONS'
+        );
+      }
+
+      pick(pool, count).forEach((question) => {
+        used.add(question._id.toString());
+        drawn.push({ question, bank: bank._id });
+      });
+    }
+  }
+
+  return drawn;
+};
+
+/**
+ * Build the variant for a new attempt: fixed questions first, then drawn
+ * ones, each shuffled if the quiz asks for it
+ */
+export const buildVariant = async (quiz: IQuiz): Promise<IVariantQuestion[]> => {
+  const drawn = await drawQuestions(quiz.draws);
+
+  const entries: { question: IQuestion; bank?: mongoose.Types.ObjectId }[] = [
+    ...quiz.questions.map((question) => ({ question })),
+    ...drawn,
+  ];
+
+  return (quiz.shuffleQuestions ? shuffle(entries) : entries).map(({ question, bank }) => {
+    const order = identity(question.answers.length);
+
+    return {
+      question: copy(question),
+      bank,
+      answerOrder: quiz.shuffleAnswers && SHUFFLED_TYPES.includes(question.type) ? shuffle(order) : order,
+    };
+  });
+};
+
+/**
+ * The questions of an attempt in the order served. Attempts without a
+ * stored variant follow the quiz as it is now.
+ */
+export const getAttemptVariant = (quiz: IQuiz, attempt: IQuizAttempt): IVariantQuestion[] => {
+  if (attempt.variant?.length) return attempt.variant;
+
+  return quiz.questions.map((question) => ({
+    question,
+    answerOrder: identity(question.answers.length),
+  }));
+};
+
+/**
+ * Answers of a question in the order shown in an attempt
+ */
+export const orderAnswers = <T>(answers: T[], answerOrder: number[]): T[] => {
+  return answerOrder.length === answers.length ? answerOrder.map((i) => answers[i]) : answers;
+};
+
+/**
+ * Translate answer positions as shown in an attempt back to the question's
+ * own answer indexes
+ */
+export const toOriginalAnswer = (answer: ISubmittedAnswer, answerOrder: number[]): ISubmittedAnswer => {
+  const original = (index: number) => answerOrder[index] ?? index;
+
+  return {
+    ...answer,
+    selectedAnswerIndex:
+      answer.selectedAnswerIndex === null || answer.selectedAnswerIndex === undefined
+        ? null
+        : original(answer.selectedAnswerIndex),
+    ...(answer.selectedAnswerIndexes && {
+      selectedAnswerIndexes: answer.selectedAnswerIndexes.map(original).sort((a, b) => a - b),
+    }),
+  };
+};
@@ -0,0 +1,259 @@
+// ============================================
+// ComES Backend - Quiz Versions
+// ============================================
+//
+// A quiz's questions are published as numbered, immutable versions and
+// every attempt records the version it was taken on. Changes are made in a
+// draft and published as a new version, so they never alter attempts
+// already made. Attempts can then be rescored ("regraded") against a
+// corrected version, keeping a record of every score that changed.
+
+import mongoose from 'mongoose';
+import { Quiz, IQuiz } from '../models/quiz.model';
+import { QuizAttempt, IQuizAttempt, IQuestionResponse, IVariantQuestion } from '../models/quizAttempt.model';
+import { QuizVersion, IQuizVersion } from '../models/quizVersion.model';
+import { QuizRegrade, IQuizRegrade, IScoreChange } from '../models/quizRegrade.model';
+import { LiveQuizSession } from '../models/liveQuizSession.model';
+import { AppError, ConflictError } from './errors';
+import { scoreResponses, totalScore } from './quizScoring';
+import { drawQuestions, getAttemptVariant } from './quizVariant';
+import { emitDomainEvent } from './domainEvents';
+
+type Id = mongoose.Types.ObjectId | string;
+
+interface PublishOptions {
+  note?: string;
+  publishedBy?: Id;
+}
+
+/**
+ * Query filter for the attempts taken on a version. Attempts from before
+ * versioning count as version 1.
+ */
+export const attemptVersionFilter = (version: number) =>
+  version === 1 ? { quizVersion: { $in: [1, null] } } : { quizVersion: version };
+
+/**
+ * Keep the quiz's current questions as its current version
+ */
+export const recordQuizVersion = async (quiz: IQuiz, { note, publishedBy }: PublishOptions = {}): Promise<IQuizVersion> => {
+  return QuizVersion.create({
+    quiz: quiz._id,
+    version: quiz.version,
+    questions: quiz.questions,
+    draws: quiz.draws,
+    scoringRules: quiz.scoringRules,
+    note,
+    publishedBy,
+  });
+};
+
+// Quizzes created before versioning have no record of their first version
+const ensureVersionRecorded = async (quizId: Id): Promise<void> => {
+  const current = await Quiz.findById(quizId);
+  if (!current || (await QuizVersion.exists({ quiz: current._id, version: current.version }))) return;
+
+  try {
+    await recordQuizVersion(current, { note: 'Recorded before the first change' });
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) throw error;
+  }
+};
+
+/**
+ * Publish the questions, draws and scoring rules set on the quiz as its
+ * next version.
+ * Sessions being played live use the questions as they are, so publishing
+ * waits until they finish.
+ */
+export const publishQuizVersion = async (quiz: IQuiz, options: PublishOptions = {}): Promise<IQuizVersion> => {
+  if (await LiveQuizSession.exists({ quiz: quiz._id, status: { $ne: 'finished' } })) {
+    throw new AppError('Finish the live session of this quiz before publishing changes', 409, 'QUIZ_IN_LIVE_SESSION');
+  }
+
+  await drawQuestions(quiz.draws);
+  await ensureVersionRecorded(quiz._id);
+
+  // Only publish on top of the version this change was made to
+  const previous = quiz.version;
+  quiz.version = previous + 1;
+  quiz.draft = undefined;
+  quiz.$where = { version: previous };
+
+  try {
+    await quiz.save();
+  } catch (error) {
+    if (error instanceof mongoose.Error.DocumentNotFoundError) {
+      throw new ConflictError('The quiz was published by someone else in the meantime, please reload it');
+    }
+    throw error;
+  } finally {
+    quiz.$where = {};
+  }
+
+  return recordQuizVersion(quiz, options);
+};
+
+/**
+ * The quiz as it was at a version: its questions, draws and scoring rules
+ * then, with its current settings. Falls back to the quiz as it is if the version is
+ * unknown.
+ */
+export const quizAtVersion = async (quiz: IQuiz, version: number): Promise<IQuiz> => {
+  if (version === quiz.version) return quiz;
+
+  const published = await QuizVersion.findOne({ quiz: quiz._id, version });
+  if (!published) return quiz;
+
+  return Quiz.hydrate({
+    ...quiz.toObject({ virtuals: false }),
+    questions: published.toObject().questions,
+    draws: published.toObject().draws,
+    ...(published.scoringRules && { scoringRules: published.toObject().scoringRules }),
+    version,
+  });
+};
+
+/**
+ * The quiz as the attempt was taken on it. Attempts that store their own
+ * questions need no lookup.
+ */
+export const quizForAttempt = async (quiz: IQuiz, attempt: IQuizAttempt): Promise<IQuiz> => {
+  if (attempt.variant?.length) return quiz;
+  return quizAtVersion(quiz, attempt.quizVersion ?? 1);
+};
+
+const toPlain = <T>(value: T): T => (value instanceof mongoose.Document ? (value.toObject() as T) : value);
+
+// Rescore an attempt's responses against the quiz's current questions and
+// scoring rules. Questions that are no longer in the quiz (or came from a
+// bank) keep their original answer key.
+const rescoreAttempt = (quiz: IQuiz, pinned: IQuiz, attempt: IQuizAttempt) => {
+  const corrected = new Map(quiz.questions.map((q) => [q._id.toString(), toPlain(q)]));
+  const variant: IVariantQuestion[] = getAttemptVariant(pinned, attempt).map((entry) => ({
+    question: corrected.get(entry.question._id.toString()) ?? toPlain(entry.question),
+    ...(entry.bank && { bank: entry.bank }),
+    answerOrder: [...entry.answerOrder],
+  }));
+  // Live sessions are always timed
+  const isTimed = quiz.isTimed || !!attempt.liveSession;
+
+  const previous = attempt.responses.map(toPlain);
+  const responses: IQuestionResponse[] = scoreResponses(
+    variant.map((v) => v.question),
+    previous,
+    quiz.scoringRules,
+    { isTimed }
+  );
+  const responsesChanged = responses.filter(
+    (r, i) => r.marksAwarded !== previous[i].marksAwarded || r.isCorrect !== previous[i].isCorrect
+  ).length;
+
+  return {
+    variant,
+    responses,
+    responsesChanged,
+    ...totalScore(
+      responses,
+      variant.map((v) => v.question)
+    ),
+  };
+};
+
+/**
+ * Rescore the completed attempts taken on earlier versions (or the given
+ * ones) against the quiz's current version. Every score that changes is
+ * recorded in a QuizRegrade; with dryRun, nothing is saved.
+ */
+export const regradeQuiz = async (
+  quiz: IQuiz,
+  { versions, dryRun = false, performedBy }: { versions?: number[]; dryRun?: boolean; performedBy?: Id }
+): Promise<IQuizRegrade> => {
+  const fromVersions = versions?.length
+    ? [...new Set(versions)].sort((a, b) => a - b)
+    : Array.from({ length: quiz.version - 1 }, (_, i) => i + 1);
+
+  if (fromVersions.length === 0) {
+    throw new AppError('There are no earlier versions to regrade; publish a corrected version first', 400, 'NOTHING_TO_REGRADE');
+  }
+  if (fromVersions.some((v) => v > quiz.version)) {
+    throw new AppError(`This quiz only has versions up to ${quiz.version}`, 400, 'VERSION_NOT_FOUND');
+  }
+
+  const regrade = new QuizRegrade({
+    quiz: quiz._id,
+    toVersion: quiz.version,
+    fromVersions,
+    performedBy,
+  });
+
+  const pinnedQuizzes = new Map<number, IQuiz>();
+  const changedAttempts: mongoose.Types.ObjectId[] = [];
+  const now = new Date();
+
+  for (const version of fromVersions) {
+    pinnedQuizzes.set(version, await quizAtVersion(quiz, version));
+  }
+
+  const cursor = QuizAttempt.find({
+    quizId: quiz._id,
+    status: 'completed',
+    $or: fromVersions.map(attemptVersionFilter),
+  }).cursor();
+
+  for await (const attempt of cursor) {
+    const quizVersion = attempt.quizVersion ?? 1;
+    const rescored = rescoreAttempt(quiz, pinnedQuizzes.get(quizVersion) ?? quiz, attempt);
+    regrade.attemptsChecked++;
+
+    const change: IScoreChange = {
+      attempt: attempt._id,
+      student: attempt.studentId,
+      participantName: attempt.participantName,
+      quizVersion,
+      previousMarks: attempt.totalMarks,
+      newMarks: rescored.totalMarks,
+      previousMaxMarks: attempt.maxMarks,
+      newMaxMarks: rescored.maxMarks,
+      previousPercentage: attempt.percentage,
+      newPercentage: rescored.percentage,
+      responsesChanged: rescored.responsesChanged,
+    };
+
+    const scoreChanged =
+      change.previousMarks !== change.newMarks || change.previousMaxMarks !== change.newMaxMarks;
+    if (!scoreChanged && rescored.responsesChanged === 0) continue;
+
+    regrade.changes.push(change);
+    regrade.attemptsChanged++;
+
+    if (!dryRun) {
+      // The attempt keeps the questions it was scored against
+      attempt.set({
+        variant: rescored.variant,
+        responses: rescored.responses,
+        totalMarks: rescored.totalMarks,
+        maxMarks: rescored.maxMarks,
+        percentage: rescored.percentage,
+        regradedToVersion: quiz.version,
+        regradedAt: now,
+      });
+      await attempt.save();
+      changedAttempts.push(attempt._id);
+    }
+  }
+
+  if (!dryRun) {
+    await regrade.save();
+
+    if (changedAttempts.length > 0) {
+      emitDomainEvent('quiz.regraded', {
+        quizId: quiz._id,
+        version: quiz.version,
+        attemptIds: changedAttempts,
+      });
+    }
+  }
+
+  return regrade;
+};
@@ -0,0 +1,144 @@
+// ============================================
+// ComES Backend - Quiz Views
+// ============================================
+//
+// Every quiz response goes through one of these projections. Only the
+// admin view and the post-attempt review ever contain correctness data.
+
+import { IQuiz, IQuestion } from '../models/quiz.model';
+import { IQuizAttempt } from '../models/quizAttempt.model';
+import { isAnswered } from './quizScoring';
+import { getAttemptVariant, orderAnswers } from './quizVariant';
+
+/**
+ * A question as shown to students: answer texts only, in the attempt's
+ * order if given. Numeric and short-text questions have no answers to show.
+ */
+export const toStudentQuestion = (question: IQuestion, answerOrder: number[] = []) => ({
+  _id: question._id,
+  type: question.type || 'single',
+  questionText: question.questionText,
+  imageUrl: question.imageUrl,
+  answers: orderAnswers(question.answers, answerOrder).map((answer) => ({ text: answer.text })),
+  timeLimitSeconds: question.timeLimitSeconds,
+  marks: question.marks,
+});
+
+/**
+ * What counts as correct for a question, in the fields that apply to its type
+ */
+export const toAnswerKey = (question: IQuestion) => {
+  const type = question.type || 'single';
+
+  if (type === 'numeric') {
+    return { type, numericAnswer: question.numericAnswer, tolerance: question.tolerance };
+  }
+  if (type === 'short_text') {
+    return { type, acceptedAnswers: question.acceptedAnswers };
+  }
+  return {
+    type,
+    correctAnswerIndexes: question.answers.map((a, i) => (a.isCorrect ? i : -1)).filter((i) => i >= 0),
+  };
+};
+
+/**
+ * A quiz as shown to students and anonymous visitors. Questions of
+ * randomized quizzes are only shown one attempt at a time, and those of
+ * timed quizzes one question at a time, so they cannot be read before the
+ * clock starts.
+ */
+export const toStudentQuiz = (quiz: IQuiz) => ({
+  _id: quiz._id,
+  title: quiz.title,
+  slug: quiz.slug,
+  description: quiz.description,
+  questions: quiz.isRandomized || quiz.isTimed ? [] : quiz.questions.map((question) => toStudentQuestion(question)),
+  questionCount: quiz.questionCount,
+  isRandomized: quiz.isRandomized,
+  totalMarks: quiz.totalMarks,
+  isTimed: quiz.isTimed,
+  allowReview: quiz.allowReview,
+  opensAt: quiz.opensAt,
+  closesAt: quiz.closesAt,
+  isOpen: quiz.isOpen,
+  maxAttempts: quiz.maxAttempts,
+  attemptScoring: quiz.attemptScoring,
+  // So students know whether wrong answers cost marks
+  scoringRules: quiz.scoringRules,
+  requiresAccessCode: !!quiz.accessCode,
+  eligibility: quiz.eligibility,
+  isVisible: quiz.isVisible,
+  createdAt: quiz.createdAt,
+  updatedAt: quiz.updatedAt,
+});
+
+/**
+ * A quiz as shown to admins, with correct answers and explanations
+ */
+export const toAdminQuiz = (quiz: IQuiz) => quiz.toJSON();
+
+/**
+ * A student's own attempt: the score without a per-question breakdown
+ */
+export const toStudentAttempt = (attempt: IQuizAttempt) => ({
+  _id: attempt._id,
+  quizId: attempt.quizId,
+  participantName: attempt.participantName,
+  ...(attempt.team && { team: { _id: attempt.team, name: attempt.teamName } }),
+  status: attempt.status,
+  answered: attempt.responses.filter(isAnswered).length,
+  totalMarks: attempt.totalMarks,
+  maxMarks: attempt.maxMarks,
+  percentage: attempt.percentage,
+  startedAt: attempt.startedAt,
+  completedAt: attempt.completedAt,
+});
+
+/**
+ * Review of a completed attempt: each question with its correct answers,
+ * explanation and the student's own answer
+ */
+export const toAttemptReview = (quiz: IQuiz, attempt: IQuizAttempt) => ({
+  attempt: toStudentAttempt(attempt),
+  questions: getAttemptVariant(quiz, attempt).map(({ question }) => {
+    const response = attempt.responses.find((r) => r.questionId.equals(question._id));
+
+    return {
+      _id: question._id,
+      type: question.type || 'single',
+      questionText: question.questionText,
+      imageUrl: question.imageUrl,
+      answers: question.answers.map((answer) => ({ text: answer.text, isCorrect: answer.isCorrect })),
+      answerKey: toAnswerKey(question),
+      explanation: question.explanation,
+      marks: question.marks,
+      selectedAnswerIndex: response?.selectedAnswerIndex ?? null,
+      selectedAnswerIndexes: response?.selectedAnswerIndexes,
+      numericAnswer: response?.numericAnswer,
+      textAnswer: response?.textAnswer,
+      responseTimeSeconds: response?.responseTimeSeconds,
+      isCorrect: response?.isCorrect || false,
+      marksAwarded: response?.marksAwarded || 0,
+    };
+  }),
+});
+
+/**
+ * The variant an attempt was given, for admins: each question in the order
+ * served with its answer key, the answer order shown and the response
+ */
+export const toAttemptVariant = (quiz: IQuiz, attempt: IQuizAttempt) => ({
+  attemptId: attempt._id,
+  quizId: attempt.quizId,
+  participantName: attempt.participantName,
+  status: attempt.status,
+  questions: getAttemptVariant(quiz, attempt).map(({ question, bank, answerOrder }, position) => ({
+    position,
+    bank,
+    question,
+    answerOrder,
+    shownAnswers: orderAnswers(question.answers, answerOrder),
+    response: attempt.responses.find((r) => r.questionId.equals(question._id)) || null,
+  })),
+});
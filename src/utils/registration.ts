@@ -0,0 +1,349 @@
+// ============================================
+// ComES Backend - Event Registration Utility
+// ============================================
+//
+// Single entry point for registering Users and Students for events.
+// Event.registeredCount is the seat counter: a seat is claimed with a
+// conditional $inc before a registration is confirmed, so concurrent
+// requests can never over-book an event.
+
+import mongoose from 'mongoose';
+import { Event } from '../models/event.model';
+import { Student } from '../models/student.model';
+import {
+  EventRegistration,
+  IEventRegistration,
+  ParticipantType,
+  RegistrationStatus,
+  SEATED_STATUSES,
+} from '../models/eventRegistration.model';
+import { AppError, NotFoundError } from './errors';
+import { onDomainEvent } from './domainEvents';
+import { releaseSessionSeats } from './agenda';
+import { sendEmail, emailTemplates } from './email';
+import { logger } from './logger';
+import config from '../config';
+
+type Id = mongoose.Types.ObjectId | string;
+
+export { SEATED_STATUSES };
+
+// Atomically take a seat; resolves to null when the event is full or not open
+const claimSeat = (eventId: Id) => {
+  return Event.findOneAndUpdate(
+    {
+      _id: eventId,
+      status: 'upcoming',
+      $or: [
+        { maxParticipants: null },
+        { $expr: { $lt: ['$registeredCount', '$maxParticipants'] } },
+      ],
+    },
+    { $inc: { registeredCount: 1 } },
+    { new: true }
+  );
+};
+
+const releaseSeat = (eventId: Id) => {
+  return Event.updateOne({ _id: eventId, registeredCount: { $gt: 0 } }, { $inc: { registeredCount: -1 } });
+};
+
+// Students also keep a list of their events for their profile and portfolio
+const trackStudentEvent = (participantType: ParticipantType, participantId: Id, eventId: Id) => {
+  if (participantType !== 'Student') return Promise.resolve();
+  return Student.updateOne({ _id: participantId }, { $addToSet: { registeredEvents: eventId } });
+};
+
+const untrackStudentEvent = (participantType: ParticipantType, participantId: Id, eventId: Id) => {
+  if (participantType !== 'Student') return Promise.resolve();
+  return Student.updateOne({ _id: participantId }, { $pull: { registeredEvents: eventId } });
+};
+
+const findOpenEvent = async (eventId: Id) => {
+  const event = await Event.findById(eventId);
+
+  if (!event) {
+    throw new NotFoundError('Event');
+  }
+
+  if (event.status !== 'upcoming') {
+    throw new AppError('Registration is closed for this event', 400, 'REGISTRATION_CLOSED');
+  }
+
+  return event;
+};
+
+const assertNotRegistered = (existing: IEventRegistration | null): void => {
+  if (!existing || existing.status === 'cancelled') return;
+
+  if (existing.status === 'waitlisted') {
+    throw new AppError('You are already on the waitlist for this event', 400, 'ALREADY_WAITLISTED');
+  }
+  throw new AppError('You are already registered for this event', 400, 'ALREADY_REGISTERED');
+};
+
+/**
+ * Register a participant for an event, claiming a seat atomically.
+ * Throws EVENT_FULL when no seat is available.
+ */
+export const registerParticipant = async (
+  eventId: Id,
+  participantType: ParticipantType,
+  participantId: Id,
+  answers: Record<string, unknown> = {}
+): Promise<IEventRegistration> => {
+  const event = await findOpenEvent(eventId);
+
+  const existing = await EventRegistration.findOne({
+    event: event._id,
+    participantType,
+    participant: participantId,
+  });
+  assertNotRegistered(existing);
+
+  if (!(await claimSeat(event._id))) {
+    throw new AppError(
+      'This event is full. Join the waitlist to be notified when a spot opens up.',
+      400,
+      'EVENT_FULL'
+    );
+  }
+
+  let registration: IEventRegistration | null;
+
+  try {
+    if (existing) {
+      // Re-registering after a cancellation reuses the record (and its ticket)
+      registration = await EventRegistration.findOneAndUpdate(
+        { _id: existing._id, status: 'cancelled' },
+        {
+          $set: { status: 'confirmed', confirmedAt: new Date(), answers },
+          $unset: { cancelledAt: 1, waitlistedAt: 1 },
+        },
+        { new: true }
+      ).select('+ticketCode');
+    } else {
+      registration = await EventRegistration.create({
+        event: event._id,
+        participantType,
+        participant: participantId,
+        status: 'confirmed',
+        confirmedAt: new Date(),
+        answers,
+      });
+    }
+  } catch (error) {
+    await releaseSeat(event._id);
+    if ((error as { code?: number }).code === 11000) {
+      throw new AppError('You are already registered for this event', 400, 'ALREADY_REGISTERED');
+    }
+    throw error;
+  }
+
+  // A concurrent request already re-activated the cancelled registration
+  if (!registration) {
+    await releaseSeat(event._id);
+    throw new AppError('You are already registered for this event', 400, 'ALREADY_REGISTERED');
+  }
+
+  await trackStudentEvent(participantType, participantId, event._id);
+
+  return registration;
+};
+
+/**
+ * Put a participant on the waitlist of a full event
+ */
+export const joinWaitlist = async (
+  eventId: Id,
+  participantType: ParticipantType,
+  participantId: Id,
+  answers: Record<string, unknown> = {}
+): Promise<IEventRegistration> => {
+  const event = await findOpenEvent(eventId);
+
+  const existing = await EventRegistration.findOne({
+    event: event._id,
+    participantType,
+    participant: participantId,
+  });
+  assertNotRegistered(existing);
+
+  if (!event.maxParticipants || event.registeredCount < event.maxParticipants) {
+    throw new AppError('This event still has free spots. Register for it directly.', 400, 'SEATS_AVAILABLE');
+  }
+
+  const waitlisted = {
+    status: 'waitlisted',
+    waitlistedAt: new Date(),
+    answers,
+  };
+
+  let registration: IEventRegistration | null;
+  if (existing) {
+    registration = await EventRegistration.findOneAndUpdate(
+      { _id: existing._id, status: 'cancelled' },
+      { $set: waitlisted, $unset: { cancelledAt: 1 } },
+      { new: true }
+    );
+    if (!registration) {
+      throw new AppError('You are already registered for this event', 400, 'ALREADY_REGISTERED');
+    }
+  } else {
+    registration = await EventRegistration.create({
+      event: event._id,
+      participantType,
+      participant: participantId,
+      ...waitlisted,
+    });
+  }
+
+  // A seat may have been freed between the capacity check and joining
+  await promoteFromWaitlist(event._id);
+
+  return (await EventRegistration.findById(registration._id))!;
+};
+
+/**
+ * 1-based position of a waitlisted registration in its event's queue
+ */
+export const getWaitlistPosition = async (registration: IEventRegistration): Promise<number> => {
+  const ahead = await EventRegistration.countDocuments({
+    event: registration.event,
+    status: 'waitlisted',
+    waitlistedAt: { $lt: registration.waitlistedAt },
+  });
+  return ahead + 1;
+};
+
+/**
+ * Cancel a participant's registration if its status is one of `statuses`.
+ * Frees the seat and promotes the waitlist when a confirmed registration
+ * is cancelled. Resolves to the registration as it was before, or null.
+ */
+export const cancelRegistration = async (
+  eventId: Id,
+  participantType: ParticipantType,
+  participantId: Id,
+  statuses: RegistrationStatus[] = ['confirmed', 'waitlisted']
+): Promise<IEventRegistration | null> => {
+  const previous = await EventRegistration.findOneAndUpdate(
+    {
+      event: eventId,
+      participantType,
+      participant: participantId,
+      status: { $in: statuses },
+    },
+    { $set: { status: 'cancelled', cancelledAt: new Date() } },
+    { new: false }
+  );
+
+  if (previous && previous.status === 'confirmed') {
+    await Promise.all([
+      releaseSeat(eventId),
+      untrackStudentEvent(participantType, participantId, eventId),
+      releaseSessionSeats(eventId, participantType, participantId),
+    ]);
+    await promoteFromWaitlist(eventId);
+  }
+
+  return previous;
+};
+
+/**
+ * Move participants from the head of the waitlist into free seats,
+ * and email each promoted participant.
+ */
+export const promoteFromWaitlist = async (eventId: Id): Promise<IEventRegistration[]> => {
+  const promoted: IEventRegistration[] = [];
+
+  while (await EventRegistration.exists({ event: eventId, status: 'waitlisted' })) {
+    if (!(await claimSeat(eventId))) break;
+
+    const registration = await EventRegistration.findOneAndUpdate(
+      { event: eventId, status: 'waitlisted' },
+      { $set: { status: 'confirmed', confirmedAt: new Date() } },
+      { sort: { waitlistedAt: 1 }, new: true }
+    );
+
+    // Someone else emptied the waitlist in the meantime
+    if (!registration) {
+      await releaseSeat(eventId);
+      break;
+    }
+
+    await trackStudentEvent(registration.participantType, registration.participant, eventId);
+    promoted.push(registration);
+  }
+
+  if (promoted.length === 0) return promoted;
+
+  const event = await Event.findById(eventId);
+  if (event) {
+    const eventUrl = `${config.frontendUrl}/events/${event.slug}`;
+    await EventRegistration.populate(promoted, { path: 'participant', select: 'name email' });
+
+    await Promise.all(
+      promoted.map((registration) => {
+        const participant = registration.participant as unknown as { name: string; email: string } | null;
+        if (!participant) return Promise.resolve(false);
+
+        const template = emailTemplates.waitlistPromotion(participant.name, event.title, event.date, eventUrl);
+        return sendEmail({
+          to: participant.email,
+          subject: template.subject,
+          html: template.html,
+          text: template.text,
+        });
+      })
+    );
+  }
+
+  logger.info(`Promoted ${promoted.length} participant(s) from the waitlist of event ${eventId}`);
+
+  return promoted;
+};
+
+/**
+ * Remove every registration of a participant (e.g. when their account is
+ * deleted), freeing their seats for waitlisted participants.
+ */
+export const removeParticipantRegistrations = async (
+  participantType: ParticipantType,
+  participantId: Id
+): Promise<void> => {
+  const seatedEvents = await EventRegistration.find({
+    participantType,
+    participant: participantId,
+    status: { $in: SEATED_STATUSES },
+  }).distinct('event');
+
+  await EventRegistration.deleteMany({ participantType, participant: participantId });
+
+  for (const eventId of seatedEvents) {
+    await releaseSessionSeats(eventId, participantType, participantId);
+    await releaseSeat(eventId);
+    await promoteFromWaitlist(eventId);
+  }
+};
+
+/**
+ * Cancel everyone still waiting for a seat, e.g. once the event has started
+ */
+export const closeWaitlist = async (eventId: Id): Promise<number> => {
+  const result = await EventRegistration.updateMany(
+    { event: eventId, status: 'waitlisted' },
+    { $set: { status: 'cancelled', cancelledAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+// Nobody can be promoted once an event has started, so waitlists close
+onDomainEvent('event.statusChanged', async ({ eventId, from }) => {
+  if (from !== 'upcoming') return;
+
+  const closed = await closeWaitlist(eventId);
+  if (closed > 0) {
+    logger.info(`Closed the waitlist of event ${eventId} (${closed} registration(s) cancelled)`);
+  }
+});
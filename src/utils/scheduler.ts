@@ -0,0 +1,50 @@
+// ============================================
+// ComES Backend - Background Job Scheduler
+// ============================================
+//
+// Minimal in-process scheduler for periodic jobs. Every server instance runs
+// its own jobs, so jobs must be safe to run concurrently across instances.
+
+import { logger } from './logger';
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Run a job every `intervalMs`, skipping a tick while the previous run
+ * is still in progress
+ */
+export const scheduleJob = (
+  name: string,
+  intervalMs: number,
+  job: () => Promise<unknown>,
+  options: { runOnStart?: boolean } = {}
+): void => {
+  let running = false;
+
+  const tick = async (): Promise<void> => {
+    if (running) return;
+    running = true;
+
+    try {
+      await job();
+    } catch (error) {
+      logger.error(`Background job "${name}" failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  timers.push(setInterval(tick, intervalMs));
+  logger.info(`⏱️  Scheduled background job "${name}" every ${Math.round(intervalMs / 1000)}s`);
+
+  if (options.runOnStart) {
+    void tick();
+  }
+};
+
+/**
+ * Stop all scheduled jobs (e.g. on shutdown)
+ */
+export const stopScheduler = (): void => {
+  timers.splice(0).forEach(clearInterval);
+};
@@ -0,0 +1,198 @@
+// ============================================
+// ComES Backend - Student Import
+// ============================================
+//
+// Each intake is onboarded from the registrar's spreadsheet. Every row is
+// checked against the Student rules before any account is created, and
+// imported students are invited to set their own password.
+
+import mongoose from 'mongoose';
+import { Student, IStudent } from '../models/student.model';
+import { AppError } from './errors';
+import { parseCsv } from './csv';
+import { sendEmail, emailTemplates } from './email';
+import { logger } from './logger';
+import config from '../config';
+
+type ImportField = 'registrationNo' | 'name' | 'email';
+
+export interface StudentImportRow {
+  // Row number in the file; the header is row 1
+  row: number;
+  registrationNo: string;
+  name: string;
+  email: string;
+  errors?: Record<string, string>;
+}
+
+export interface StudentImportReport {
+  total: number;
+  valid: number;
+  invalid: number;
+  rows: StudentImportRow[];
+}
+
+export interface StudentInvitation {
+  row: number;
+  email: string;
+  studentId?: mongoose.Types.ObjectId;
+  emailSent: boolean;
+  error?: string;
+}
+
+const MAX_IMPORT_ROWS = 1000;
+
+// Accepted header names for each column, compared without case, spaces or
+// punctuation
+const COLUMNS: Record<ImportField, string[]> = {
+  registrationNo: ['registrationno', 'regno', 'registrationnumber'],
+  name: ['name', 'fullname'],
+  email: ['email', 'emailaddress'],
+};
+
+const IMPORT_FIELDS = Object.keys(COLUMNS) as ImportField[];
+
+const invalidFile = (message: string): AppError => new AppError(message, 400, 'INVALID_STUDENT_FILE');
+
+const headerKey = (cell: string): string => cell.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Read the students out of a CSV file with registrationNo, name and email
+ * columns, in any order. Blank rows are skipped.
+ */
+export const parseStudentFile = (text: string): StudentImportRow[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) throw invalidFile('The file is empty');
+
+  const keys = header.map(headerKey);
+  const columns = {} as Record<ImportField, number>;
+  IMPORT_FIELDS.forEach((field) => {
+    columns[field] = keys.findIndex((key) => COLUMNS[field].includes(key));
+  });
+
+  const missing = IMPORT_FIELDS.filter((field) => columns[field] === -1);
+  if (missing.length > 0) {
+    throw invalidFile(`The file is missing the ${missing.join(', ')} column(s)`);
+  }
+
+  const students = rows
+    .map((cells, i) => {
+      const cell = (field: ImportField) => (cells[columns[field]] ?? '').trim();
+      return {
+        row: i + 2,
+        registrationNo: cell('registrationNo'),
+        name: cell('name'),
+        email: cell('email').toLowerCase(),
+      };
+    })
+    .filter((student) => student.registrationNo || student.name || student.email);
+
+  if (students.length === 0) throw invalidFile('The file has no students');
+  if (students.length > MAX_IMPORT_ROWS) {
+    throw invalidFile(`Import at most ${MAX_IMPORT_ROWS} students at a time`);
+  }
+
+  return students;
+};
+
+/**
+ * Check every row against the Student rules, against the other rows and
+ * against existing accounts
+ */
+export const checkStudentImport = async (rows: StudentImportRow[]): Promise<StudentImportReport> => {
+  const existing = await Student.find({
+    $or: [{ email: { $in: rows.map((r) => r.email) } }, { registrationNo: { $in: rows.map((r) => r.registrationNo) } }],
+  }).select('email registrationNo');
+  const takenEmails = new Set(existing.map((s) => s.email));
+  const takenRegistrationNos = new Set(existing.map((s) => s.registrationNo));
+
+  const firstRowWith = { email: new Map<string, number>(), registrationNo: new Map<string, number>() };
+
+  const checked = rows.map((row): StudentImportRow => {
+    const errors: Record<string, string> = {};
+
+    const error = new Student({ ...row, status: 'invited' }).validateSync(IMPORT_FIELDS);
+    Object.values(error?.errors || {}).forEach(({ path, message }) => {
+      errors[path] = message;
+    });
+
+    (['email', 'registrationNo'] as const).forEach((field) => {
+      const value = row[field];
+      if (!value || errors[field]) return;
+
+      const taken = field === 'email' ? takenEmails : takenRegistrationNos;
+      const first = firstRowWith[field].get(value);
+      if (taken.has(value)) {
+        errors[field] = `An account with this ${field === 'email' ? 'email' : 'registration number'} already exists`;
+      } else if (first !== undefined) {
+        errors[field] = `Same as row ${first}`;
+      } else {
+        firstRowWith[field].set(value, row.row);
+      }
+    });
+
+    return { ...row, ...(Object.keys(errors).length > 0 && { errors }) };
+  });
+
+  const invalid = checked.filter((row) => row.errors).length;
+  return { total: checked.length, valid: checked.length - invalid, invalid, rows: checked };
+};
+
+/**
+ * Email an invited student a new activation link, replacing any earlier
+ * one. Returns whether the email was sent.
+ */
+export const sendStudentInvitation = async (student: IStudent): Promise<boolean> => {
+  const activationToken = student.createActivationToken();
+  student.invitedAt = new Date();
+  await student.save({ validateBeforeSave: false });
+
+  const activateUrl = `${config.frontendUrl}/students/activate/${activationToken}`;
+  const template = emailTemplates.studentInvitation(student.name, activateUrl);
+
+  return sendEmail({
+    to: student.email,
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+  });
+};
+
+/**
+ * Create checked rows as invited accounts without a password and email
+ * each student an activation link. Rows taken by someone else in the
+ * meantime are reported rather than failing the rest.
+ */
+export const inviteStudents = async (rows: StudentImportRow[]): Promise<StudentInvitation[]> => {
+  const invitations: StudentInvitation[] = [];
+
+  for (const row of rows) {
+    let student: IStudent;
+    try {
+      student = await Student.create({
+        registrationNo: row.registrationNo,
+        name: row.name,
+        email: row.email,
+        status: 'invited',
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) throw error;
+      invitations.push({
+        row: row.row,
+        email: row.email,
+        emailSent: false,
+        error: 'An account with this email or registration number already exists',
+      });
+      continue;
+    }
+
+    const emailSent = await sendStudentInvitation(student);
+    if (!emailSent) {
+      logger.warn(`Invitation email could not be sent to: ${student.email}`);
+    }
+
+    invitations.push({ row: row.row, email: student.email, studentId: student._id, emailSent });
+  }
+
+  return invitations;
+};
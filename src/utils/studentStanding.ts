@@ -0,0 +1,87 @@
+// ============================================
+// ComES Backend - Student Standing
+// ============================================
+//
+// Students move through semesters 1 to 8 with their batch and become
+// alumni after the last one. Admins advance a whole batch at the end of
+// each semester, or set a student's standing by hand.
+
+import { Student, IStudent, AcademicStanding, FINAL_SEMESTER } from '../models/student.model';
+import { AppError } from './errors';
+
+export interface BatchAdvance {
+  batch: string;
+  advanced: number;
+  graduated: number;
+  // Current students with no semester recorded, which are left as they are
+  skipped: number;
+}
+
+/**
+ * Query filter for students of a standing. Students from before standings
+ * were recorded are current.
+ */
+export const standingFilter = (standing: AcademicStanding) =>
+  standing === 'alumni' ? { standing: 'alumni' } : { standing: { $ne: 'alumni' } };
+
+/**
+ * Move a batch's current students on to their next semester. Students who
+ * finished the final semester become alumni graduating in the given year.
+ */
+export const advanceBatch = async (
+  batch: string,
+  graduationYear: number = new Date().getFullYear()
+): Promise<BatchAdvance> => {
+  const current = { batch, ...standingFilter('current') };
+
+  if (!(await Student.exists(current))) {
+    throw new AppError(`Batch ${batch} has no current students`, 404, 'BATCH_NOT_FOUND');
+  }
+
+  // Graduate first, so students moving into the final semester stay current
+  const graduated = await Student.updateMany(
+    { ...current, semester: FINAL_SEMESTER },
+    { $set: { standing: 'alumni', graduationYear } }
+  );
+  const advanced = await Student.updateMany(
+    { ...current, semester: { $gte: 1, $lt: FINAL_SEMESTER } },
+    { $inc: { semester: 1 } }
+  );
+  const skipped = await Student.countDocuments({ ...current, semester: { $exists: false } });
+
+  return { batch, advanced: advanced.modifiedCount, graduated: graduated.modifiedCount, skipped };
+};
+
+/**
+ * Put a batch's current students on a semester, e.g. to start tracking a
+ * batch whose semesters were never recorded
+ */
+export const setBatchSemester = async (batch: string, semester: number): Promise<number> => {
+  const result = await Student.updateMany({ batch, ...standingFilter('current') }, { $set: { semester } });
+
+  if (result.matchedCount === 0) {
+    throw new AppError(`Batch ${batch} has no current students`, 404, 'BATCH_NOT_FOUND');
+  }
+
+  return result.modifiedCount;
+};
+
+/**
+ * Set one student's semester and standing. Alumni graduate this year unless
+ * told otherwise; students made current again lose their graduation year.
+ */
+export const setAcademicStanding = (
+  student: IStudent,
+  { semester, standing, graduationYear }: { semester?: number; standing?: AcademicStanding; graduationYear?: number }
+): void => {
+  if (semester !== undefined) student.semester = semester;
+  if (standing !== undefined) student.standing = standing;
+
+  if (student.standing === 'alumni') {
+    student.graduationYear = graduationYear ?? student.graduationYear ?? new Date().getFullYear();
+  } else if (graduationYear !== undefined) {
+    throw new AppError('Only alumni have a graduation year', 400, 'NOT_ALUMNI');
+  } else {
+    student.graduationYear = undefined;
+  }
+};
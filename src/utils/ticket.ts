@@ -0,0 +1,57 @@
+// ============================================
+// ComES Backend - Event Ticket Utility
+// ============================================
+
+import crypto from 'crypto';
+import config from '../config';
+
+// Prefix that identifies ComES tickets when scanned from a QR code
+const QR_PREFIX = 'COMES-TICKET:';
+
+const sign = (payload: string): string => {
+  return crypto
+    .createHmac('sha256', config.tickets.secret)
+    .update(payload)
+    .digest('base64url')
+    .substring(0, 32);
+};
+
+/**
+ * Generate a signed ticket code for a registration.
+ * Format: <registrationId>.<random nonce>.<signature>
+ */
+export const generateTicketCode = (registrationId: string): string => {
+  const nonce = crypto.randomBytes(12).toString('base64url');
+  const payload = `${registrationId}.${nonce}`;
+  return `${payload}.${sign(payload)}`;
+};
+
+/**
+ * Verify a ticket code (or scanned QR payload) and return the
+ * registration id it was issued for, or null if it is not genuine.
+ */
+export const verifyTicketCode = (code: string): string | null => {
+  const ticket = code.trim().startsWith(QR_PREFIX)
+    ? code.trim().substring(QR_PREFIX.length)
+    : code.trim();
+
+  const parts = ticket.split('.');
+  if (parts.length !== 3) return null;
+
+  const [registrationId, nonce, signature] = parts;
+  const expected = Buffer.from(sign(`${registrationId}.${nonce}`));
+  const given = Buffer.from(signature);
+
+  // Compare byte lengths: multibyte characters make a signature of the
+  // right length in characters longer in bytes
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return null;
+  }
+
+  return registrationId;
+};
+
+/**
+ * Payload to encode in the ticket QR code
+ */
+export const toQrPayload = (ticketCode: string): string => `${QR_PREFIX}${ticketCode}`;